@@ -0,0 +1,117 @@
+import type { PlayedTrack, SubmittedTrack } from '../queueManager';
+
+// Simple async test runner
+async function runTests() {
+    // Fallback playlists load from the in-memory fake Spotify
+    process.env.SPOTIFY_DRIVER = 'fake';
+    process.env.LOG_LEVEL = process.env.LOG_LEVEL || 'warn';
+    const { QueueManager } = await import('../queueManager');
+    const { fakeSpotifyBackend } = await import('../fakeSpotify');
+
+    let passed = 0;
+    let failed = 0;
+
+    async function test(name: string, testFn: () => Promise<void> | void) {
+        try {
+            await testFn();
+            console.log(`✅ ${name}`);
+            passed++;
+        } catch (error) {
+            console.log(`❌ ${name}: ${error}`);
+            failed++;
+        }
+    }
+
+    function expect(actual: any) {
+        return {
+            toEqual: (expected: any) => {
+                if (JSON.stringify(actual) !== JSON.stringify(expected)) {
+                    throw new Error(`Expected ${JSON.stringify(expected)}, got ${JSON.stringify(actual)}`);
+                }
+            },
+            toBe: (expected: any) => {
+                if (actual !== expected) {
+                    throw new Error(`Expected ${expected}, got ${actual}`);
+                }
+            }
+        };
+    }
+
+    const token = fakeSpotifyBackend.issueTokens('dj').access_token;
+    const MINUTE = 60 * 1000;
+
+    function track(uri: string, details: Partial<SubmittedTrack> = {}): SubmittedTrack {
+        return { spotifyUri: uri, userEmail: 'alice@example.com', spotifyName: 'alice', timestamp: 1, name: uri, ...details };
+    }
+
+    // Test cases
+    await test('everything is allowed by default', () => {
+        const qm = new QueueManager();
+        expect(qm.getContentFilterReason(track('A', { explicit: true, durationMs: 20 * MINUTE }))).toBe(null);
+    });
+
+    await test('tracks are refused for explicit content, length, artist or being blocked', () => {
+        const qm = new QueueManager();
+        qm.setContentFilter({ allowExplicit: false, maxDurationMs: 10 * MINUTE, blockedArtistIds: ['prog'], blockedTrackUris: ['B'] });
+        expect(qm.getContentFilterReason(track('A', { explicit: true }))).toBe('"A" is explicit, and explicit tracks are not allowed in this room.');
+        expect(qm.getContentFilterReason(track('A', { durationMs: 20 * MINUTE }))).toBe('"A" is longer than the 10 minute limit in this room.');
+        expect(qm.getContentFilterReason(track('A', { artistIds: ['pop', 'prog'] }))).toBe('"A" is by an artist who is blocked in this room.');
+        expect(qm.getContentFilterReason({ spotifyUri: 'B' })).toBe('This track is blocked in this room.');
+        expect(qm.getContentFilterReason(track('A', { explicit: false, durationMs: 4 * MINUTE, artistIds: ['pop'] }))).toBe(null);
+    });
+
+    await test('tracks without metadata are only checked by uri', () => {
+        const qm = new QueueManager();
+        qm.setContentFilter({ allowExplicit: false, maxDurationMs: MINUTE });
+        expect(qm.getContentFilterReason({ spotifyUri: 'A' })).toBe(null);
+    });
+
+    await test('invalid values are ignored and lists replace the previous ones', () => {
+        const qm = new QueueManager();
+        qm.setContentFilter({ blockedArtistIds: ['a', 'b', 'a'], maxDurationMs: 5 * MINUTE });
+        qm.setContentFilter({ maxDurationMs: -1, blockedTrackUris: [42 as any] });
+        expect(qm.getContentFilter()).toEqual({ allowExplicit: true, maxDurationMs: 5 * MINUTE, blockedArtistIds: ['a', 'b'], blockedTrackUris: [] });
+        qm.setContentFilter({ blockedArtistIds: [] });
+        expect(qm.getContentFilter().blockedArtistIds).toEqual([]);
+    });
+
+    await test('fallback playlists are loaded without the tracks the filter blocks', async () => {
+        const qm = new QueueManager('spotify:playlist:explicit');
+        qm.setContentFilter({ allowExplicit: false });
+        expect(await qm.loadFallbackPlaylist('spotify:playlist:explicit', token)).toBe(true);
+        expect(qm.getFallbackCount()).toBe(0);
+        qm.setContentFilter({ allowExplicit: true });
+        expect(await qm.loadFallbackPlaylist('spotify:playlist:explicit', token)).toBe(true);
+        expect(qm.getFallbackCount()).toBe(10);
+    });
+
+    await test('upcoming fallback tracks the new filter blocks are dropped', async () => {
+        const qm = new QueueManager('spotify:playlist:main');
+        await qm.refillFallbackQueue(token);
+        const artistId = qm.getFallbackTracks()[0].artistIds![0];
+        qm.setContentFilter({ blockedArtistIds: [artistId] });
+        expect(qm.getFallbackTracks().some(t => t.artistIds?.includes(artistId))).toBe(false);
+        await qm.refillFallbackQueue(token);
+        expect(qm.getFallbackTracks().some(t => t.artistIds?.includes(artistId))).toBe(false);
+    });
+
+    await test('recent jams skip blocked tracks', async () => {
+        const qm = new QueueManager();
+        const jammed = (uri: string): PlayedTrack => ({ timestamp: Date.now() - 24 * 60 * MINUTE, track: track(uri, { jamCounts: { 'bob@example.com': 1 } }) });
+        qm.setPlayHistoryProvider(() => [jammed('spotify:track:a'), jammed('spotify:track:b')]);
+        qm.setFallbackSources([{ type: 'recent_jams', weight: 1 }]);
+        qm.setContentFilter({ blockedTrackUris: ['spotify:track:b'] });
+        await qm.refillFallbackQueue();
+        expect(qm.getFallbackTracks().map(t => t.spotifyUri)).toEqual(['spotify:track:a']);
+    });
+
+    console.log(`\nTest Results: ${passed} passed, ${failed} failed`);
+    return { passed, failed };
+}
+
+// Run tests if this file is executed directly
+if (require.main === module) {
+    runTests().then(({ failed }) => process.exit(failed > 0 ? 1 : 0));
+}
+
+export { runTests };
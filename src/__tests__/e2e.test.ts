@@ -0,0 +1,688 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import WebSocket from 'ws';
+import { fakeSpotifyBackend } from '../fakeSpotify';
+
+// End-to-end tests: boots the HTTP + WebSocket server in this process against the fake Spotify backend
+const PORT = process.env.E2E_PORT || '3998';
+const BASE_URL = `http://localhost:${PORT}`;
+// Sessions that stop pinging are cleaned up after HEARTBEAT_TIMEOUT_MS (shortened below)
+const HEARTBEAT_INTERVAL_MS = 250;
+
+// A WebSocket client that keeps every message so tests can wait for the one they expect
+class TestClient {
+    readonly messages: any[] = [];
+    private ws: WebSocket;
+    private waiters: (() => void)[] = [];
+    private heartbeat: NodeJS.Timeout | null = null;
+
+    constructor(token: string) {
+        this.ws = new WebSocket(`ws://localhost:${PORT}/websocket?token=${encodeURIComponent(token)}`);
+        this.ws.on('message', (data) => {
+            this.messages.push(JSON.parse(data.toString()));
+            this.waiters.splice(0).forEach(wake => wake());
+        });
+    }
+
+    async open(): Promise<void> {
+        if (this.ws.readyState === WebSocket.OPEN) return;
+        await new Promise<void>((resolve, reject) => {
+            this.ws.once('open', () => resolve());
+            this.ws.once('error', reject);
+        });
+    }
+
+    send(message: Record<string, unknown>): void {
+        this.ws.send(JSON.stringify(message));
+    }
+
+    // Resolve with the first message (received from now on, or already received if `since` is given) matching the predicate
+    async waitFor(predicate: (message: any) => boolean, timeoutMs: number = 5000, since: number = this.messages.length): Promise<any> {
+        const deadline = Date.now() + timeoutMs;
+        for (let i = since; ; ) {
+            for (; i < this.messages.length; i++) {
+                if (predicate(this.messages[i])) return this.messages[i];
+            }
+            const remaining = deadline - Date.now();
+            if (remaining <= 0) throw new Error('Timed out waiting for message');
+            await new Promise<void>(resolve => {
+                const timer = setTimeout(resolve, remaining);
+                this.waiters.push(() => { clearTimeout(timer); resolve(); });
+            });
+        }
+    }
+
+    // Ping like the web client does, so the session isn't cleaned up as stale
+    startHeartbeat(): void {
+        this.heartbeat = setInterval(() => this.send({ type: 'ping' }), HEARTBEAT_INTERVAL_MS);
+    }
+
+    stopHeartbeat(): void {
+        if (this.heartbeat) clearInterval(this.heartbeat);
+        this.heartbeat = null;
+    }
+
+    close(): void {
+        this.stopHeartbeat();
+        this.ws.close();
+    }
+}
+
+async function waitForServer(): Promise<void> {
+    for (let i = 0; i < 100; i++) {
+        try {
+            const res = await fetch(`${BASE_URL}/api/rooms`);
+            if (res.ok) return;
+        } catch {
+            // Not listening yet
+        }
+        await new Promise(resolve => setTimeout(resolve, 100));
+    }
+    throw new Error('Server did not start');
+}
+
+// Go through the Spotify OAuth redirects; the fake treats the authorization code as the user id
+async function spotifyLogin(userId: string): Promise<{ sessionId: string; token: string }> {
+    const login = await fetch(`${BASE_URL}/api/spotify/login`, { redirect: 'manual' });
+    const state = new URL(login.headers.get('location')!).searchParams.get('state')!;
+    const callback = await fetch(`${BASE_URL}/api/spotify/callback?code=${userId}&state=${state}`, { redirect: 'manual' });
+    const params = new URL(callback.headers.get('location')!).searchParams;
+    return { sessionId: params.get('sessionId')!, token: params.get('token')! };
+}
+
+async function getHealth(): Promise<any> {
+    const res = await fetch(`${BASE_URL}/api/debug/health`);
+    return res.json();
+}
+
+async function waitForHealth(predicate: (health: any) => boolean, timeoutMs: number = 5000): Promise<any> {
+    const deadline = Date.now() + timeoutMs;
+    while (Date.now() < deadline) {
+        const health = await getHealth();
+        if (predicate(health)) return health;
+        await new Promise(resolve => setTimeout(resolve, 50));
+    }
+    throw new Error('Timed out waiting for health state');
+}
+
+// A room as saved to rooms.json in dataDir, once the saved copy matches
+async function waitForSavedRoom(dataDir: string, roomId: string, predicate: (room: any) => boolean, timeoutMs: number = 5000): Promise<any> {
+    const deadline = Date.now() + timeoutMs;
+    while (Date.now() < deadline) {
+        const file = path.join(dataDir, 'rooms.json');
+        const room = fs.existsSync(file) ? JSON.parse(fs.readFileSync(file, 'utf8')).find((r: any) => r.id === roomId) : undefined;
+        if (room && predicate(room)) return room;
+        await new Promise(resolve => setTimeout(resolve, 50));
+    }
+    throw new Error(`Timed out waiting for room ${roomId} to be saved`);
+}
+
+async function listenerLogin(name: string): Promise<{ sessionId: string; token: string }> {
+    const res = await fetch(`${BASE_URL}/api/listener-login`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ name, email: `${name}@example.com` })
+    });
+    return res.json() as Promise<{ sessionId: string; token: string }>;
+}
+
+async function connect(token: string): Promise<TestClient> {
+    const client = new TestClient(token);
+    await client.open();
+    client.send({ type: 'login', token });
+    await client.waitFor(m => m.type === 'login_success', 5000, 0);
+    client.startHeartbeat();
+    return client;
+}
+
+// Headers of a REST call made as the session the token was issued for
+function authHeaders(token: string): Record<string, string> {
+    return { 'Content-Type': 'application/json', Authorization: `Bearer ${token}` };
+}
+
+async function submit(token: string, trackId: string): Promise<number> {
+    const res = await fetch(`${BASE_URL}/api/tracks`, {
+        method: 'POST',
+        headers: authHeaders(token),
+        body: JSON.stringify({ trackId })
+    });
+    return res.status;
+}
+
+// Submitted tracks in a tracks_list message (fallback playlist tracks are listed too)
+function queueUris(message: any): string[] {
+    return message.tracks.filter((t: any) => !t.isFallback).map((t: any) => t.spotifyUri);
+}
+
+async function runTests() {
+    let passed = 0;
+    let failed = 0;
+
+    async function test(name: string, testFn: () => Promise<void>) {
+        try {
+            await testFn();
+            console.log(`✅ ${name}`);
+            passed++;
+        } catch (error) {
+            console.log(`❌ ${name}: ${error}`);
+            failed++;
+        }
+    }
+
+    function expect(actual: any) {
+        return {
+            toEqual: (expected: any) => {
+                if (JSON.stringify(actual) !== JSON.stringify(expected)) {
+                    throw new Error(`Expected ${JSON.stringify(expected)}, got ${JSON.stringify(actual)}`);
+                }
+            },
+            toBe: (expected: any) => {
+                if (actual !== expected) {
+                    throw new Error(`Expected ${expected}, got ${actual}`);
+                }
+            }
+        };
+    }
+
+    const dataDir = fs.mkdtempSync(path.join(os.tmpdir(), 'andre2-e2e-'));
+    process.env.SPOTIFY_DRIVER = 'fake';
+    process.env.PORT = PORT;
+    process.env.DATA_DIR = dataDir;
+    process.env.POLL_INTERVAL_MS = '100';
+    process.env.POLL_INTERVAL_SLOW_MS = '200';
+    process.env.FOLLOWER_SYNC_INTERVAL_MS = '300';
+    process.env.HEARTBEAT_TIMEOUT_MS = '2000';
+    process.env.SESSION_CLEANUP_INTERVAL_MS = '250';
+    process.env.MASTER_REQUEST_TIMEOUT_MS = '500';
+    process.env.MASTER_CONTROL_EMAILS = 'gina@example.com';
+    process.env.MAX_ROOMS_PER_USER = '1';
+    process.env.SESSION_TOKEN_SECRET = 'e2e-secret';
+    process.env.LOG_LEVEL = process.env.LOG_LEVEL || 'warn';
+    // Loaded only now: the Spotify client and token secret are configured from the environment on import
+    await import('../index');
+    const { publicSessionId } = await import('../sessionToken');
+    const { TRACK_CHANGE_GRACE_PERIOD_MS } = await import('../playbackController');
+    await waitForServer();
+
+    const alice = await spotifyLogin('alice');
+    const bob = await listenerLogin('bob');
+    const aliceClient = await connect(alice.token);
+    const bobClient = await connect(bob.token);
+
+    // Test cases
+    await test('spotify user logs in and becomes master', async () => {
+        const mode = await aliceClient.waitFor(m => m.type === 'mode' && m.masterUserSessionId === publicSessionId(alice.sessionId), 5000, 0);
+        expect(mode.mode).toBe('master_pause');
+    });
+
+    await test('listener logs in over the same protocol', async () => {
+        const login = bobClient.messages.find(m => m.type === 'login_success');
+        expect(login.sessionId).toBe(bob.sessionId);
+    });
+
+    await test('REST calls act as the session of their token and session ids are not shared', async () => {
+        const anonymous = await fetch(`${BASE_URL}/api/roles?sessionId=${alice.sessionId}`);
+        expect(anonymous.status).toBe(401);
+        const borrowed = await fetch(`${BASE_URL}/api/roles`, {
+            method: 'POST',
+            headers: authHeaders(bob.token),
+            body: JSON.stringify({ sessionId: alice.sessionId, email: 'bob@example.com', role: 'admin' })
+        });
+        expect(borrowed.status).toBe(403);
+        expect((await borrowed.json() as any).code).toBe('session_mismatch');
+        const since = bobClient.messages.length;
+        bobClient.send({ type: 'get_sessions' });
+        const list = await bobClient.waitFor(m => m.type === 'sessions_list', 5000, since);
+        expect(list.sessions.some((s: any) => s.sessionId === publicSessionId(alice.sessionId) && s.isMaster)).toBe(true);
+        expect(bobClient.messages.some(m => JSON.stringify(m).includes(alice.sessionId))).toBe(false);
+        expect(JSON.stringify(await getHealth()).includes(alice.sessionId)).toBe(false);
+    });
+
+    await test('rooms are created by logged-in users, up to a limit each', async () => {
+        const create = (headers: Record<string, string>, roomId: string) => fetch(`${BASE_URL}/api/rooms`, {
+            method: 'POST',
+            headers,
+            body: JSON.stringify({ roomId })
+        });
+        expect((await create({ 'Content-Type': 'application/json' }, 'anonymous-room')).status).toBe(401);
+        expect((await create(authHeaders(bob.token), 'bobs-room')).status).toBe(200);
+        const refused = await create(authHeaders(bob.token), 'bobs-second-room');
+        expect(refused.status).toBe(429);
+        expect((await refused.json() as any).code).toBe('quota_exceeded');
+        const rooms = await (await fetch(`${BASE_URL}/api/rooms`)).json() as any;
+        expect(rooms.rooms.map((r: any) => r.id).sort()).toEqual(['bobs-room', 'default']);
+    });
+
+    await test('submitted tracks are fair-ordered with catalog details', async () => {
+        expect(await submit(alice.token, 'spotify:track:aaa1')).toBe(200);
+        expect(await submit(alice.token, 'spotify:track:aaa2')).toBe(200);
+        expect(await submit(bob.token, 'https://open.spotify.com/track/bbb1')).toBe(200);
+        const list = await bobClient.waitFor(m => m.type === 'tracks_list' && queueUris(m).length === 3, 5000, 0);
+        expect(queueUris(list)).toEqual(['spotify:track:aaa1', 'spotify:track:bbb1', 'spotify:track:aaa2']);
+        expect(list.tracks[1].name).toBe('Fake Track bbb1');
+        expect(list.tracks[1].spotifyName).toBe('bob');
+    });
+
+    await test('jam is counted on the queued track', async () => {
+        bobClient.send({ type: 'jam', spotifyUri: 'spotify:track:aaa2', sessionId: bob.sessionId });
+        const list = await aliceClient.waitFor(m => m.type === 'tracks_list' && m.tracks.some((t: any) => t.jamCounts?.['bob@example.com'] === 1));
+        expect(list.tracks[2].spotifyUri).toBe('spotify:track:aaa2');
+    });
+
+    await test('master_play starts the head of the queue on the master player', async () => {
+        const since = aliceClient.messages.length;
+        aliceClient.send({ type: 'session_play', sessionId: alice.sessionId });
+        aliceClient.send({ type: 'master_play', sessionId: alice.sessionId });
+        await aliceClient.waitFor(m => m.type === 'mode' && m.mode === 'master_play' && m.currentlyPlayingTrack?.spotifyUri === 'spotify:track:aaa1');
+        expect(fakeSpotifyBackend.getPlayerState('alice')?.uri).toBe('spotify:track:aaa1');
+        // Consumed from the queue once the fake player reports it playing
+        await aliceClient.waitFor(m => m.type === 'tracks_list' && queueUris(m).length === 2 && !queueUris(m).includes('spotify:track:aaa1'), 5000, since);
+    });
+
+    await test('listeners cannot change room settings', async () => {
+        const changes = [
+            { type: 'set_queue_ordering', policy: 'jam_weighted' },
+            { type: 'set_no_repeat', windowMinutes: 0 },
+            { type: 'set_content_filter', allowExplicit: false },
+            { type: 'set_duplicate_policy', policy: 'allow' }
+        ];
+        for (const change of changes) {
+            const since = bobClient.messages.length;
+            bobClient.send(change);
+            const error = await bobClient.waitFor(m => m.type === 'error' && m.messageType === change.type, 5000, since);
+            expect(error.code).toBe('permission_denied');
+        }
+        const mode = [...bobClient.messages].reverse().find(m => m.type === 'mode');
+        expect(mode.queueOrdering.policy).toBe('fair');
+        expect(mode.noRepeat.windowMinutes).toBe(60);
+        expect(mode.contentFilter.allowExplicit).toBe(true);
+        expect(mode.duplicatePolicy).toBe('reject');
+    });
+
+    await test('listeners cannot pause or skip room playback', async () => {
+        for (const type of ['master_pause', 'master_skip']) {
+            const since = bobClient.messages.length;
+            bobClient.send({ type });
+            const error = await bobClient.waitFor(m => m.type === 'error' && m.messageType === type, 5000, since);
+            expect(error.code).toBe('permission_denied');
+        }
+        expect(fakeSpotifyBackend.getPlayerState('alice')?.uri).toBe('spotify:track:aaa1');
+        expect([...aliceClient.messages].reverse().find(m => m.type === 'mode').mode).toBe('master_play');
+    });
+
+    await test('master_skip moves to the next track and records play history', async () => {
+        aliceClient.send({ type: 'master_skip', sessionId: alice.sessionId });
+        await aliceClient.waitFor(m => m.type === 'mode' && m.currentlyPlayingTrack?.spotifyUri === 'spotify:track:bbb1');
+        const history = await aliceClient.waitFor(m => m.type === 'play_history' && m.playHistory.length > 0, 5000, 0);
+        expect(history.playHistory[0].track.spotifyUri).toBe('spotify:track:aaa1');
+        expect(fakeSpotifyBackend.getPlayerState('alice')?.uri).toBe('spotify:track:bbb1');
+    });
+
+    await test('track end hands off to the next queued track', async () => {
+        // An end detected right after a manual skip is ignored, so let the grace period pass first
+        await new Promise(resolve => setTimeout(resolve, TRACK_CHANGE_GRACE_PERIOD_MS));
+        const since = aliceClient.messages.length;
+        // Play bbb1 to just before its end; the next polls see it finish
+        fakeSpotifyBackend.seek('alice', fakeSpotifyBackend.trackDurationMs - 300);
+        await aliceClient.waitFor(m => m.type === 'mode' && m.currentlyPlayingTrack?.spotifyUri === 'spotify:track:aaa2', 5000, since);
+        const history = await aliceClient.waitFor(m => m.type === 'play_history' && m.playHistory.length === 2, 5000, since);
+        expect(history.playHistory[1].track.spotifyUri).toBe('spotify:track:bbb1');
+        const events = await aliceClient.waitFor(m => m.type === 'history' && m.history.some((e: any) => e.type === 'track_ended'), 5000, since);
+        expect(events.history.find((e: any) => e.type === 'track_ended').details.track.spotifyUri).toBe('spotify:track:bbb1');
+        const list = await aliceClient.waitFor(m => m.type === 'tracks_list' && queueUris(m).length === 0, 5000, since);
+        expect(queueUris(list)).toEqual([]);
+        expect(fakeSpotifyBackend.getPlayerState('alice')?.uri).toBe('spotify:track:aaa2');
+        // aaa2 was queued on alice's player ahead of the end, which then moved on by itself
+        expect(fakeSpotifyBackend.getQueue('alice')).toEqual([]);
+    });
+
+    await test('rate limiting from Spotify holds polling back until Retry-After passes', async () => {
+        fakeSpotifyBackend.rateLimit(1500);
+        const throttled = await waitForHealth(h => h.spotify.throttled);
+        expect(throttled.spotify.rateLimitedCount > 0).toBe(true);
+        expect(throttled.playback.polling.reason).toBe('rate_limited');
+        const recovered = await waitForHealth(h => !h.spotify.throttled);
+        expect(recovered.playback.polling.reason === 'rate_limited').toBe(false);
+        // Polling picks up again: progress keeps being broadcast
+        await aliceClient.waitFor(m => m.type === 'mode' && m.currentlyPlayingTrack?.spotifyUri === 'spotify:track:aaa2');
+    });
+
+    await test('follower joins at the master position and is seeked back when it drifts', async () => {
+        const dave = await spotifyLogin('dave');
+        const daveClient = await connect(dave.token);
+        daveClient.send({ type: 'session_play', sessionId: dave.sessionId });
+        await daveClient.waitFor(m => m.type === 'session_mode' && m.sessionMode === 'session_play');
+        const master = fakeSpotifyBackend.getPlayerState('alice')!;
+        const follower = fakeSpotifyBackend.getPlayerState('dave')!;
+        expect(follower.uri).toBe('spotify:track:aaa2');
+        expect(Math.abs(follower.positionMs - master.positionMs) < 1000).toBe(true);
+        fakeSpotifyBackend.seek('dave', master.positionMs + 30000);
+        await daveClient.waitFor(m => m.type === 'sessions_list' && m.sessions.some((s: any) => s.sessionId === publicSessionId(dave.sessionId) && s.sync?.status === 'corrected'));
+        const drift = fakeSpotifyBackend.getPlayerState('dave')!.positionMs - fakeSpotifyBackend.getPlayerState('alice')!.positionMs;
+        expect(Math.abs(drift) < 1000).toBe(true);
+        daveClient.close();
+    });
+
+    await test('session without an active device is asked to activate it', async () => {
+        const carol = await spotifyLogin('carol');
+        const carolClient = await connect(carol.token);
+        fakeSpotifyBackend.setDeviceActive('carol', false);
+        carolClient.send({ type: 'session_play', sessionId: carol.sessionId });
+        aliceClient.send({ type: 'master_skip', sessionId: alice.sessionId });
+        const notice = await carolClient.waitFor(m => m.type === 'prominent_message');
+        expect(notice.message.includes('activate')).toBe(true);
+        carolClient.close();
+    });
+
+    await test('session picks a Spotify device and playback follows it there', async () => {
+        const erin = await spotifyLogin('erin');
+        const erinClient = await connect(erin.token);
+        fakeSpotifyBackend.setDeviceActive('erin', false);
+        erinClient.send({ type: 'session_play', sessionId: erin.sessionId });
+        const offered = await erinClient.waitFor(m => m.type === 'devices_list');
+        expect(offered.devices.map((d: any) => d.id)).toEqual(['erin-device', 'erin-speaker']);
+        expect(offered.selectedDeviceId).toBe(null);
+        const since = erinClient.messages.length;
+        erinClient.send({ type: 'select_device', sessionId: erin.sessionId, deviceId: 'erin-speaker' });
+        const selected = await erinClient.waitFor(m => m.type === 'devices_list' || m.type === 'error', 5000, since);
+        expect(selected.selectedDeviceId).toBe('erin-speaker');
+        expect(selected.devices.find((d: any) => d.id === 'erin-speaker').isActive).toBe(true);
+        // Follower sync starts the room's track on the picked device
+        await erinClient.waitFor(m => m.type === 'sessions_list' && m.sessions.some((s: any) => s.sessionId === publicSessionId(erin.sessionId) && s.sync?.status === 'corrected'));
+        expect(fakeSpotifyBackend.getPlayerState('erin')!.uri).toBe(fakeSpotifyBackend.getPlayerState('alice')!.uri);
+        expect(fakeSpotifyBackend.getUser('erin').activeDeviceId).toBe('erin-speaker');
+        const res = await fetch(`${BASE_URL}/api/devices`, { headers: authHeaders(erin.token) });
+        expect((await res.json() as any).selectedDeviceId).toBe('erin-speaker');
+        const missing = await fetch(`${BASE_URL}/api/devices/select`, {
+            method: 'POST',
+            headers: authHeaders(erin.token),
+            body: JSON.stringify({ deviceId: 'nope' })
+        });
+        expect(missing.status).toBe(404);
+        erinClient.close();
+    });
+
+    const frank = await spotifyLogin('frank');
+    const frankClient = await connect(frank.token);
+    await test('a new master takes over when the master goes stale', async () => {
+        expect([...bobClient.messages].reverse().find(m => m.type === 'mode').mode).toBe('master_play');
+        const since = bobClient.messages.length;
+        aliceClient.stopHeartbeat();
+        const mode = await bobClient.waitFor(m => m.type === 'mode' && m.masterUserSessionId === publicSessionId(frank.sessionId), 5000, since);
+        expect(mode.mode).toBe('master_play');
+        const history = await bobClient.waitFor(m => m.type === 'history' && m.history.some((e: any) => e.type === 'master_changed'), 5000, since);
+        const event = history.history.find((e: any) => e.type === 'master_changed');
+        expect(event.details.reason).toBe('disconnected');
+        expect(event.details.previousMaster.email).toBe('alice@example.com');
+        // Frank's player carries on with the room's track where Alice's had got to
+        const frankPlayer = fakeSpotifyBackend.getPlayerState('frank')!;
+        const alicePlayer = fakeSpotifyBackend.getPlayerState('alice')!;
+        expect(frankPlayer.uri).toBe(alicePlayer.uri);
+        expect(Math.abs(frankPlayer.positionMs - alicePlayer.positionMs) < 1000).toBe(true);
+        await waitForHealth(health => health.playback.masterUserSessionId === publicSessionId(frank.sessionId) && health.playback.polling !== null);
+    });
+
+    const gina = await spotifyLogin('gina');
+    const ginaClient = await connect(gina.token);
+    await test('master request is denied, then approved, and the new master can step down', async () => {
+        ginaClient.send({ type: 'request_master' });
+        const prompt = await frankClient.waitFor(m => m.type === 'master_request');
+        expect(prompt.sessionId).toBe(publicSessionId(gina.sessionId));
+        frankClient.send({ type: 'answer_master_request', approve: false });
+        const denied = await ginaClient.waitFor(m => m.type === 'master_request_result');
+        expect(denied.outcome).toBe('denied');
+        ginaClient.send({ type: 'request_master' });
+        await frankClient.waitFor(m => m.type === 'master_request');
+        frankClient.send({ type: 'answer_master_request', approve: true });
+        const approved = await ginaClient.waitFor(m => m.type === 'master_request_result');
+        expect(approved.outcome).toBe('approved');
+        await bobClient.waitFor(m => m.type === 'mode' && m.masterUserSessionId === publicSessionId(gina.sessionId), 5000, 0);
+        expect(fakeSpotifyBackend.getPlayerState('gina')!.uri).toBe(fakeSpotifyBackend.getPlayerState('frank')!.uri);
+        const since = bobClient.messages.length;
+        ginaClient.send({ type: 'release_master' });
+        await bobClient.waitFor(m => m.type === 'mode' && m.masterUserSessionId === publicSessionId(frank.sessionId), 5000, since);
+        const history = await bobClient.waitFor(m => m.type === 'history' && m.history.some((e: any) => e.type === 'master_changed' && e.details.reason === 'released'), 5000, since);
+        const types = history.history.map((e: any) => e.type);
+        expect(types.includes('master_requested')).toBe(true);
+        expect(types.includes('master_request_denied')).toBe(true);
+    });
+
+    await test('an unanswered master request is approved after the timeout', async () => {
+        ginaClient.send({ type: 'request_master' });
+        await frankClient.waitFor(m => m.type === 'master_request');
+        const result = await ginaClient.waitFor(m => m.type === 'master_request_result');
+        expect(result.outcome).toBe('timeout');
+        await bobClient.waitFor(m => m.type === 'mode' && m.masterUserSessionId === publicSessionId(gina.sessionId), 5000, 0);
+        ginaClient.send({ type: 'release_master' });
+        await bobClient.waitFor(m => m.type === 'mode' && m.masterUserSessionId === publicSessionId(frank.sessionId));
+    });
+
+    await test('master schedules a fallback playlist and it becomes active', async () => {
+        const scheduleUrl = `${BASE_URL}/api/rooms/default/fallback-schedule`;
+        const entry = { playlistUrl: 'spotify:playlist:allday', startTime: '00:00', endTime: '00:00', label: 'All day' };
+        const refused = await fetch(scheduleUrl, {
+            method: 'POST',
+            headers: authHeaders(bob.token),
+            body: JSON.stringify({ ...entry })
+        });
+        expect(refused.status).toBe(403);
+        const since = bobClient.messages.length;
+        const added = await fetch(scheduleUrl, {
+            method: 'POST',
+            headers: authHeaders(frank.token),
+            body: JSON.stringify({ ...entry })
+        });
+        expect(added.status).toBe(201);
+        const body = await added.json() as any;
+        expect(body.activeEntry.id).toBe(body.entry.id);
+        const mode = await bobClient.waitFor(m => m.type === 'mode' && m.fallbackPlaylist?.scheduleEntry?.id === body.entry.id, 5000, since);
+        expect(mode.fallbackPlaylist.name).toBe('Fake Playlist allday');
+        const removed = await fetch(`${scheduleUrl}/${body.entry.id}`, { method: 'DELETE', headers: authHeaders(frank.token) });
+        expect(removed.status).toBe(200);
+        const state = await (await fetch(scheduleUrl)).json() as any;
+        expect(state.schedule).toEqual([]);
+        expect(state.activeEntry).toBe(null);
+    });
+
+    await test('master blends liked songs into the fallback tracks', async () => {
+        const sourcesUrl = `${BASE_URL}/api/rooms/default/fallback-sources`;
+        const sources = [{ type: 'fallback_playlist', weight: 1 }, { type: 'liked_songs', weight: 1 }];
+        const invalid = await fetch(sourcesUrl, {
+            method: 'PUT',
+            headers: authHeaders(frank.token),
+            body: JSON.stringify({ sources: [{ type: 'liked_songs', weight: -1 }] })
+        });
+        expect(invalid.status).toBe(400);
+        const since = bobClient.messages.length;
+        const updated = await fetch(sourcesUrl, {
+            method: 'PUT',
+            headers: authHeaders(frank.token),
+            body: JSON.stringify({ sources })
+        });
+        expect(updated.status).toBe(200);
+        expect((await updated.json() as any).sources).toEqual(sources);
+        const list = await bobClient.waitFor(m => m.type === 'tracks_list' && m.tracks.some((t: any) => t.isFallback && t.spotifyName === 'Liked Songs'), 5000, since);
+        expect(list.tracks.some((t: any) => t.isFallback && t.spotifyName !== 'Liked Songs')).toBe(true);
+    });
+
+    await test('recently played tracks are rejected or warned about as the master chooses', async () => {
+        const since = bobClient.messages.length;
+        frankClient.send({ type: 'set_no_repeat', windowMinutes: 30, submissions: 'reject' });
+        await bobClient.waitFor(m => m.type === 'mode' && m.noRepeat?.submissions === 'reject', 5000, since);
+        expect(await submit(bob.token, 'spotify:track:aaa1')).toBe(409);
+        frankClient.send({ type: 'set_no_repeat', submissions: 'warn' });
+        const mode = await bobClient.waitFor(m => m.type === 'mode' && m.noRepeat?.submissions === 'warn', 5000, since);
+        expect(mode.noRepeat.windowMinutes).toBe(30);
+        await waitForSavedRoom(dataDir, 'default', room => room.noRepeat?.windowMinutes === 30 && room.noRepeat.submissions === 'warn');
+        const res = await fetch(`${BASE_URL}/api/tracks`, {
+            method: 'POST',
+            headers: authHeaders(bob.token),
+            body: JSON.stringify({ trackId: 'spotify:track:aaa1' })
+        });
+        expect(res.status).toBe(200);
+        expect(((await res.json() as any).warning as string).startsWith('"Fake Track aaa1" was played')).toBe(true);
+    });
+
+    await test('the content filter refuses explicit and blocked tracks', async () => {
+        const since = bobClient.messages.length;
+        frankClient.send({ type: 'set_content_filter', allowExplicit: false, blockedTrackUris: ['https://open.spotify.com/track/bbb2'] });
+        const mode = await bobClient.waitFor(m => m.type === 'mode' && m.contentFilter?.allowExplicit === false, 5000, since);
+        expect(mode.contentFilter.blockedTrackUris).toEqual(['spotify:track:bbb2']);
+        const res = await fetch(`${BASE_URL}/api/tracks`, {
+            method: 'POST',
+            headers: authHeaders(bob.token),
+            body: JSON.stringify({ trackId: 'spotify:track:explicit1' })
+        });
+        expect(res.status).toBe(403);
+        expect((await res.json() as any).code).toBe('content_filtered');
+        expect(await submit(bob.token, 'spotify:track:bbb2')).toBe(403);
+        frankClient.send({ type: 'set_content_filter', allowExplicit: true, blockedTrackUris: [] });
+        await bobClient.waitFor(m => m.type === 'mode' && m.contentFilter?.allowExplicit === true, 5000, since);
+        expect(await submit(bob.token, 'spotify:track:explicit1')).toBe(200);
+    });
+
+    await test('moderators move tracks to the front and the move is recorded', async () => {
+        expect(await submit(bob.token, 'spotify:track:mov1')).toBe(200);
+        expect(await submit(bob.token, 'spotify:track:mov2')).toBe(200);
+        const moveUrl = `${BASE_URL}/api/rooms/default/queue/move`;
+        const refused = await fetch(moveUrl, {
+            method: 'POST',
+            headers: authHeaders(bob.token),
+            body: JSON.stringify({ spotifyUri: 'spotify:track:mov2' })
+        });
+        expect(refused.status).toBe(403);
+        const since = bobClient.messages.length;
+        frankClient.send({ type: 'move_track', spotifyUri: 'spotify:track:mov2' });
+        const list = await bobClient.waitFor(m => m.type === 'tracks_list'
+            && queueUris(m).indexOf('spotify:track:mov2') < queueUris(m).indexOf('spotify:track:mov1'), 5000, since);
+        expect(queueUris(list).indexOf('spotify:track:mov2') <= 1).toBe(true);
+        const history = await bobClient.waitFor(m => m.type === 'history' && m.history.some((e: any) => e.type === 'track_moved'), 5000, since);
+        expect(history.history.find((e: any) => e.type === 'track_moved').details.spotifyUri).toBe('spotify:track:mov2');
+    });
+
+    await test('duplicate submissions are refused, merged or queued again as the master chooses', async () => {
+        expect(await submit(bob.token, 'spotify:track:dup1')).toBe(200);
+        const post = () => fetch(`${BASE_URL}/api/tracks`, {
+            method: 'POST',
+            headers: authHeaders(gina.token),
+            body: JSON.stringify({ trackId: 'spotify:track:dup1' })
+        });
+        const refused = await post();
+        expect(refused.status).toBe(409);
+        expect((await refused.json() as any).code).toBe('duplicate');
+        let since = bobClient.messages.length;
+        frankClient.send({ type: 'set_duplicate_policy', policy: 'merge' });
+        await bobClient.waitFor(m => m.type === 'mode' && m.duplicatePolicy === 'merge', 5000, since);
+        await waitForSavedRoom(dataDir, 'default', room => room.duplicatePolicy === 'merge');
+        const merged = await post();
+        expect(merged.status).toBe(200);
+        expect((await merged.json() as any).merged).toBe(true);
+        since = bobClient.messages.length;
+        frankClient.send({ type: 'set_duplicate_policy', policy: 'allow' });
+        await bobClient.waitFor(m => m.type === 'mode' && m.duplicatePolicy === 'allow', 5000, since);
+        const queued = await post();
+        const itemId = (await queued.json() as any).itemId;
+        const list = await bobClient.waitFor(m => m.type === 'tracks_list' && m.tracks.some((t: any) => t.id === itemId), 5000, since);
+        expect(queueUris(list).filter(uri => uri === 'spotify:track:dup1').length).toBe(2);
+        since = bobClient.messages.length;
+        frankClient.send({ type: 'remove_track', itemId });
+        const after = await bobClient.waitFor(m => m.type === 'tracks_list' && !m.tracks.some((t: any) => t.id === itemId), 5000, since);
+        expect(queueUris(after).filter(uri => uri === 'spotify:track:dup1').length).toBe(1);
+        frankClient.send({ type: 'set_duplicate_policy', policy: 'reject' });
+    });
+
+    await test('a removed track comes back where it was on undo, once', async () => {
+        expect(await submit(bob.token, 'spotify:track:undo1')).toBe(200);
+        expect(await submit(bob.token, 'spotify:track:undo2')).toBe(200);
+        let since = bobClient.messages.length;
+        bobClient.send({ type: 'get_tracks' });
+        const before = queueUris(await bobClient.waitFor(m => m.type === 'tracks_list', 5000, since));
+        bobClient.send({ type: 'remove_track', spotifyUri: 'spotify:track:undo1' });
+        await bobClient.waitFor(m => m.type === 'tracks_list' && !queueUris(m).includes('spotify:track:undo1'), 5000, since);
+        since = bobClient.messages.length;
+        bobClient.send({ type: 'undo' });
+        const restored = await bobClient.waitFor(m => m.type === 'tracks_list' && queueUris(m).includes('spotify:track:undo1'), 5000, since);
+        expect(queueUris(restored)).toEqual(before);
+        const history = await bobClient.waitFor(m => m.type === 'history' && m.history.some((e: any) => e.type === 'undo'), 5000, since);
+        expect(history.history.find((e: any) => e.type === 'undo').details.action).toBe('remove_track');
+        since = bobClient.messages.length;
+        bobClient.send({ type: 'undo' });
+        const error = await bobClient.waitFor(m => m.type === 'error', 5000, since);
+        expect(error.code).toBe('not_found');
+    });
+
+    await test('a moderator who is not the master skips a track and takes the skip back', async () => {
+        const promoted = await fetch(`${BASE_URL}/api/roles`, {
+            method: 'POST',
+            headers: authHeaders(gina.token),
+            body: JSON.stringify({ email: 'bob@example.com', role: 'moderator' })
+        });
+        expect(promoted.status).toBe(200);
+        const playing = [...bobClient.messages].reverse().find(m => m.type === 'mode').currentlyPlayingTrack;
+        let since = bobClient.messages.length;
+        bobClient.send({ type: 'master_skip' });
+        await bobClient.waitFor(m => m.type === 'mode' && m.currentlyPlayingTrack && m.currentlyPlayingTrack.id !== playing.id, 5000, since);
+        const skips = await bobClient.waitFor(m => m.type === 'history' && m.history.some((e: any) => e.type === 'track_skip' && e.userEmail === 'bob@example.com'), 5000, since);
+        expect(skips.history.filter((e: any) => e.type === 'track_skip').pop().userName).toBe('bob');
+        // Bob has nothing else left to undo, so this takes back the skip
+        since = bobClient.messages.length;
+        bobClient.send({ type: 'undo' });
+        await bobClient.waitFor(m => m.type === 'mode' && m.currentlyPlayingTrack?.id === playing.id, 5000, since);
+        const history = await bobClient.waitFor(m => m.type === 'history' && m.history.some((e: any) => e.type === 'undo' && e.details.action === 'skip'), 5000, since);
+        expect(history.history.filter((e: any) => e.type === 'undo').pop().userEmail).toBe('bob@example.com');
+    });
+
+    await test('skip votes do not carry over to the same track queued again right after', async () => {
+        let since = bobClient.messages.length;
+        frankClient.send({ type: 'set_duplicate_policy', policy: 'allow' });
+        await bobClient.waitFor(m => m.type === 'mode' && m.duplicatePolicy === 'allow', 5000, since);
+        const queue = async () => ((await (await fetch(`${BASE_URL}/api/tracks`, {
+            method: 'POST',
+            headers: authHeaders(bob.token),
+            body: JSON.stringify({ trackId: 'spotify:track:vote1' })
+        })).json()) as any).itemId as string;
+        const first = await queue();
+        const second = await queue();
+        // Back to back at the front of the queue
+        frankClient.send({ type: 'move_track', itemId: second });
+        frankClient.send({ type: 'move_track', itemId: first });
+        await bobClient.waitFor(m => m.type === 'tracks_list' && m.tracks[0]?.id === first && m.tracks[1]?.id === second, 5000, since);
+        frankClient.send({ type: 'master_skip' });
+        await bobClient.waitFor(m => m.type === 'mode' && m.currentlyPlayingTrack?.id === first, 5000, since);
+        since = bobClient.messages.length;
+        bobClient.send({ type: 'vote_skip', itemId: first });
+        const voted = await bobClient.waitFor(m => m.type === 'mode' && m.skipVotes.count === 1, 5000, since);
+        expect(voted.skipVotes.itemId).toBe(first);
+        since = bobClient.messages.length;
+        frankClient.send({ type: 'master_skip' });
+        const next = await bobClient.waitFor(m => m.type === 'mode' && m.currentlyPlayingTrack?.id === second, 5000, since);
+        expect(next.currentlyPlayingTrack.spotifyUri).toBe('spotify:track:vote1');
+        expect(next.skipVotes.count).toBe(0);
+        expect(next.skipVotes.hasVoted).toBe(false);
+        // A vote still aimed at the first copy is stale
+        since = bobClient.messages.length;
+        bobClient.send({ type: 'vote_skip', itemId: first });
+        bobClient.send({ type: 'get_sessions' });
+        await bobClient.waitFor(m => m.type === 'sessions_list', 5000, since);
+        expect([...bobClient.messages].reverse().find(m => m.type === 'mode').skipVotes.count).toBe(0);
+        frankClient.send({ type: 'set_duplicate_policy', policy: 'reject' });
+    });
+
+    frankClient.close();
+    ginaClient.close();
+
+    aliceClient.close();
+    bobClient.close();
+    fs.rmSync(dataDir, { recursive: true, force: true });
+
+    console.log(`\nTest Results: ${passed} passed, ${failed} failed`);
+    return { passed, failed };
+}
+
+// Run tests if this file is executed directly; the server keeps timers running, so exit explicitly
+if (require.main === module) {
+    runTests().then(({ failed }) => process.exit(failed > 0 ? 1 : 0));
+}
+
+export { runTests };
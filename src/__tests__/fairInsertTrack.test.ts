@@ -121,10 +121,10 @@ function runTests() {
         qm.setSubmittedTracks([
             { spotifyUri: 'A1', userEmail: 'u1@example.com', spotifyName: 'U1', timestamp: 1 },
             { spotifyUri: 'B1', userEmail: 'u2@example.com', spotifyName: 'U2', timestamp: 2 },
+            { spotifyUri: 'C1', userEmail: 'u3@example.com', spotifyName: 'U3', timestamp: 6 },
             { spotifyUri: 'A2', userEmail: 'u1@example.com', spotifyName: 'U1', timestamp: 3 },
             { spotifyUri: 'B2', userEmail: 'u2@example.com', spotifyName: 'U2', timestamp: 4 },
             { spotifyUri: 'A3', userEmail: 'u1@example.com', spotifyName: 'U1', timestamp: 5 },
-            { spotifyUri: 'C1', userEmail: 'u3@example.com', spotifyName: 'U3', timestamp: 6 },
         ]);
         const c2: SubmittedTrack = { spotifyUri: 'C2', userEmail: 'u3@example.com', spotifyName: 'U3', timestamp: 7 };
         qm.addTrack(c2);
@@ -137,7 +137,7 @@ function runTests() {
 
 // Run tests if this file is executed directly
 if (require.main === module) {
-    runTests();
+    process.exit(runTests().failed > 0 ? 1 : 0);
 }
 
 export { runTests }; 
\ No newline at end of file
@@ -0,0 +1,136 @@
+import { FallbackScheduleEntry, QueueManager } from '../queueManager';
+
+// Simple async test runner
+async function runTests() {
+    let passed = 0;
+    let failed = 0;
+
+    async function test(name: string, testFn: () => Promise<void> | void) {
+        try {
+            await testFn();
+            console.log(`✅ ${name}`);
+            passed++;
+        } catch (error) {
+            console.log(`❌ ${name}: ${error}`);
+            failed++;
+        }
+    }
+
+    function expect(actual: any) {
+        return {
+            toEqual: (expected: any) => {
+                if (JSON.stringify(actual) !== JSON.stringify(expected)) {
+                    throw new Error(`Expected ${JSON.stringify(expected)}, got ${JSON.stringify(actual)}`);
+                }
+            },
+            toBe: (expected: any) => {
+                if (actual !== expected) {
+                    throw new Error(`Expected ${expected}, got ${actual}`);
+                }
+            }
+        };
+    }
+
+    // Records playlist loads instead of fetching from Spotify
+    class RecordingQueueManager extends QueueManager {
+        loads: string[] = [];
+        failLoads = false;
+
+        async loadFallbackPlaylist(playlistUrl: string): Promise<boolean> {
+            this.loads.push(playlistUrl);
+            return !this.failLoads;
+        }
+    }
+
+    // 2025-06-06 is a Friday (day 5); times are local
+    function at(day: number, time: string): Date {
+        const [hours, minutes] = time.split(':').map(Number);
+        return new Date(2025, 5, 1 + day, hours, minutes);
+    }
+
+    const mellow: FallbackScheduleEntry = { id: 'mellow', playlistUrl: 'spotify:playlist:mellow', startTime: '06:00', endTime: '11:00' };
+    const fridays: FallbackScheduleEntry = { id: 'fridays', playlistUrl: 'spotify:playlist:friday', startTime: '14:00', endTime: '18:00', days: [5] };
+    const night: FallbackScheduleEntry = { id: 'night', playlistUrl: 'spotify:playlist:night', startTime: '22:00', endTime: '02:00', days: [6] };
+
+    function schedule(...entries: FallbackScheduleEntry[]) {
+        const qm = new RecordingQueueManager('spotify:playlist:default');
+        qm.setFallbackSchedule(entries);
+        return qm;
+    }
+
+    // Test cases
+    await test('entries match their hours on their weekdays only', () => {
+        const qm = schedule(mellow, fridays);
+        expect(qm.getActiveScheduleEntry(at(1, '06:00'))?.id).toBe('mellow');
+        expect(qm.getActiveScheduleEntry(at(1, '11:00'))).toBe(null);
+        expect(qm.getActiveScheduleEntry(at(5, '15:30'))?.id).toBe('fridays');
+        expect(qm.getActiveScheduleEntry(at(4, '15:30'))).toBe(null);
+    });
+
+    await test('windows past midnight belong to the day they start on', () => {
+        const qm = schedule(night);
+        expect(qm.getActiveScheduleEntry(at(6, '23:00'))?.id).toBe('night');
+        expect(qm.getActiveScheduleEntry(at(7, '01:59'))?.id).toBe('night');
+        expect(qm.getActiveScheduleEntry(at(7, '02:00'))).toBe(null);
+        expect(qm.getActiveScheduleEntry(at(5, '23:00'))).toBe(null);
+        expect(qm.getActiveScheduleEntry(at(6, '01:00'))).toBe(null);
+    });
+
+    await test('earlier entries win where windows overlap', () => {
+        const allDay: FallbackScheduleEntry = { id: 'all-day', playlistUrl: 'spotify:playlist:all', startTime: '00:00', endTime: '00:00' };
+        expect(schedule(mellow, allDay).getActiveScheduleEntry(at(2, '09:00'))?.id).toBe('mellow');
+        expect(schedule(allDay, mellow).getActiveScheduleEntry(at(2, '09:00'))?.id).toBe('all-day');
+    });
+
+    await test('playlist switches at window boundaries and back to the default', async () => {
+        const qm = schedule(mellow);
+        expect(await qm.refreshScheduledFallback('token', at(1, '07:00'))).toBe(true);
+        expect(qm.getFallbackInfo()?.scheduleEntry?.id).toBe('mellow');
+        expect(await qm.refreshScheduledFallback('token', at(1, '08:00'))).toBe(false);
+        expect(await qm.refreshScheduledFallback('token', at(1, '12:00'))).toBe(true);
+        expect(qm.getFallbackInfo()?.scheduleEntry).toBe(null);
+        expect(qm.loads).toEqual(['spotify:playlist:mellow', 'spotify:playlist:default']);
+    });
+
+    await test('a failed load is retried on the next refresh', async () => {
+        const qm = schedule(mellow);
+        qm.failLoads = true;
+        expect(await qm.refreshScheduledFallback('token', at(1, '07:00'))).toBe(false);
+        qm.failLoads = false;
+        expect(await qm.refreshScheduledFallback('token', at(1, '07:01'))).toBe(true);
+        expect(qm.loads).toEqual(['spotify:playlist:mellow', 'spotify:playlist:mellow']);
+    });
+
+    await test('a submitted playlist becomes the default used outside the schedule', async () => {
+        const qm = schedule(mellow);
+        await qm.refreshScheduledFallback('token', at(1, '07:00'));
+        qm.setDefaultFallbackPlaylistUrl('spotify:playlist:submitted');
+        expect(await qm.refreshScheduledFallback('token', at(1, '12:00'))).toBe(true);
+        expect(qm.loads).toEqual(['spotify:playlist:mellow', 'spotify:playlist:submitted']);
+    });
+
+    await test('a changed schedule is applied on the next refresh', async () => {
+        const qm = schedule(mellow);
+        await qm.refreshScheduledFallback('token', at(1, '07:00'));
+        qm.setFallbackSchedule([{ ...mellow, playlistUrl: 'spotify:playlist:calmer' }]);
+        expect(await qm.refreshScheduledFallback('token', at(1, '07:05'))).toBe(true);
+        expect(qm.loads).toEqual(['spotify:playlist:mellow', 'spotify:playlist:calmer']);
+    });
+
+    await test('invalid entries are rejected with a reason', () => {
+        expect(QueueManager.validateScheduleEntry(mellow)).toBe(null);
+        expect(QueueManager.validateScheduleEntry({ ...mellow, playlistUrl: 'spotify:track:abc' })).toBe('playlistUrl must be a Spotify playlist URL or URI');
+        expect(QueueManager.validateScheduleEntry({ ...mellow, startTime: '25:00' })).toBe('startTime and endTime must be times of day as HH:MM');
+        expect(QueueManager.validateScheduleEntry({ ...mellow, days: [7] })).toBe('days must be a list of weekdays from 0 (Sunday) to 6 (Saturday)');
+    });
+
+    console.log(`\nTest Results: ${passed} passed, ${failed} failed`);
+    return { passed, failed };
+}
+
+// Run tests if this file is executed directly
+if (require.main === module) {
+    runTests().then(({ failed }) => process.exit(failed > 0 ? 1 : 0));
+}
+
+export { runTests };
@@ -0,0 +1,157 @@
+import type { PlayedTrack } from '../queueManager';
+
+// Simple async test runner
+async function runTests() {
+    // Fallback sources load from the in-memory fake Spotify
+    process.env.SPOTIFY_DRIVER = 'fake';
+    process.env.LOG_LEVEL = process.env.LOG_LEVEL || 'warn';
+    const { QueueManager } = await import('../queueManager');
+    const { spotifyDelegate } = await import('../spotify');
+    const { fakeSpotifyBackend } = await import('../fakeSpotify');
+
+    let passed = 0;
+    let failed = 0;
+
+    async function test(name: string, testFn: () => Promise<void> | void) {
+        try {
+            await testFn();
+            console.log(`✅ ${name}`);
+            passed++;
+        } catch (error) {
+            console.log(`❌ ${name}: ${error}`);
+            failed++;
+        }
+    }
+
+    function expect(actual: any) {
+        return {
+            toEqual: (expected: any) => {
+                if (JSON.stringify(actual) !== JSON.stringify(expected)) {
+                    throw new Error(`Expected ${JSON.stringify(expected)}, got ${JSON.stringify(actual)}`);
+                }
+            },
+            toBe: (expected: any) => {
+                if (actual !== expected) {
+                    throw new Error(`Expected ${expected}, got ${actual}`);
+                }
+            }
+        };
+    }
+
+    const token = fakeSpotifyBackend.issueTokens('dj').access_token;
+
+    // Count Spotify loads to see when sources are refilled
+    const loads = { playlist: 0, liked: 0 };
+    const getPlaylistTracks = spotifyDelegate.getPlaylistTracks.bind(spotifyDelegate);
+    const getRandomLikedTracks = spotifyDelegate.getRandomLikedTracks.bind(spotifyDelegate);
+    spotifyDelegate.getPlaylistTracks = async (...args) => { loads.playlist++; return getPlaylistTracks(...args); };
+    spotifyDelegate.getRandomLikedTracks = async (...args) => { loads.liked++; return getRandomLikedTracks(...args); };
+
+    function played(uri: string, jams: number, minutesAgo: number = 24 * 60): PlayedTrack {
+        return {
+            timestamp: Date.now() - minutesAgo * 60 * 1000,
+            track: { spotifyUri: uri, userEmail: 'alice@example.com', spotifyName: 'alice', timestamp: 0, jamCounts: jams ? { 'bob@example.com': jams } : {} }
+        };
+    }
+
+    function sourceNames(qm: InstanceType<typeof QueueManager>): string[] {
+        return qm.getFallbackTracks().map(t => t.spotifyName || '');
+    }
+
+    // Test cases
+    await test('sources are interleaved by weight', async () => {
+        const qm = new QueueManager('spotify:playlist:main');
+        qm.setFallbackSources([
+            { type: 'fallback_playlist', weight: 2 },
+            { type: 'playlist', weight: 1, playlistUrl: 'spotify:playlist:extra' }
+        ]);
+        expect(await qm.loadFallbackPlaylist('spotify:playlist:main', token)).toBe(true);
+        const main = 'Fake Playlist main';
+        const extra = 'Fake Playlist extra';
+        expect(sourceNames(qm).slice(0, 9)).toEqual([main, extra, main, main, extra, main, main, extra, main]);
+    });
+
+    await test('sources are only loaded again once their tracks run out', async () => {
+        const qm = new QueueManager('spotify:playlist:main');
+        qm.setFallbackSources([{ type: 'fallback_playlist', weight: 1 }, { type: 'liked_songs', weight: 1 }]);
+        loads.playlist = 0;
+        loads.liked = 0;
+        await qm.refillFallbackQueue(token);
+        expect(qm.getFallbackCount()).toBe(10);
+        expect(loads).toEqual({ playlist: 1, liked: 1 });
+        for (let i = 0; i < 4; i++) qm.consumeNextTrack(true);
+        const next = await qm.peekNextTrack(token);
+        expect(next?.isFallback).toBe(true);
+        expect(qm.getFallbackCount()).toBe(10);
+        expect(loads).toEqual({ playlist: 1, liked: 1 });
+        expect(sourceNames(qm).filter(name => name === 'Liked Songs').length).toBe(5);
+    });
+
+    await test('recent jams come from the play history and need no token', async () => {
+        const qm = new QueueManager('spotify:playlist:main');
+        qm.setPlayHistoryProvider(() => [played('spotify:track:a', 2), played('spotify:track:b', 0), played('spotify:track:c', 1), played('spotify:track:a', 1)]);
+        qm.setFallbackSources([{ type: 'liked_songs', weight: 1 }, { type: 'recent_jams', weight: 1 }]);
+        await qm.refillFallbackQueue();
+        expect(qm.getFallbackTracks().map(t => t.spotifyUri)).toEqual(['spotify:track:a', 'spotify:track:c']);
+        expect(qm.getFallbackTracks()[0].spotifyName).toBe('Recent jams');
+        expect(qm.getFallbackTracks()[0].userEmail).toBe('fallback@system');
+    });
+
+    await test('sources that come back empty are skipped', async () => {
+        const qm = new QueueManager('spotify:playlist:main');
+        qm.setFallbackSources([{ type: 'recent_jams', weight: 3 }, { type: 'fallback_playlist', weight: 1 }]);
+        await qm.refillFallbackQueue(token);
+        expect(qm.getFallbackCount()).toBe(10);
+        expect(sourceNames(qm).every(name => name === 'Fake Playlist main')).toBe(true);
+    });
+
+    await test('fallback tracks played within the no-repeat window are skipped', async () => {
+        const qm = new QueueManager('spotify:playlist:main');
+        const history = Array.from({ length: 9 }, (_, i) => played(`spotify:track:mainx${i + 1}`, 0, 30));
+        qm.setPlayHistoryProvider(() => history);
+        await qm.refillFallbackQueue(token);
+        expect(qm.getFallbackTracks().map(t => t.spotifyUri)).toEqual(['spotify:track:mainx10']);
+        qm.setNoRepeatSettings({ windowMinutes: 20 });
+        qm.setFallbackSources([{ type: 'fallback_playlist', weight: 1 }]);
+        await qm.refillFallbackQueue(token);
+        expect(qm.getFallbackCount()).toBe(10);
+    });
+
+    await test('fallback repeats tracks rather than go silent', async () => {
+        const qm = new QueueManager('spotify:playlist:main');
+        const history = Array.from({ length: 10 }, (_, i) => played(`spotify:track:mainx${i + 1}`, 0, 5));
+        qm.setPlayHistoryProvider(() => history);
+        await qm.refillFallbackQueue(token);
+        expect(qm.getFallbackCount()).toBe(10);
+    });
+
+    await test('the playing track and the play history count as recent plays', async () => {
+        const qm = new QueueManager('spotify:playlist:main');
+        qm.setPlayHistoryProvider(() => [played('spotify:track:old', 0, 90), played('spotify:track:new', 0, 10)]);
+        await qm.refillFallbackQueue(token);
+        const playing = qm.getFallbackTracks()[0].spotifyUri;
+        qm.consumeNextTrack(true);
+        expect(qm.getRecentPlay(playing)?.track.spotifyUri).toBe(playing);
+        expect(qm.getRecentPlay('spotify:track:new')?.track.spotifyUri).toBe('spotify:track:new');
+        expect(qm.getRecentPlay('spotify:track:old')).toBe(null);
+        qm.setNoRepeatSettings({ windowMinutes: 0 });
+        expect(qm.getRecentPlay('spotify:track:new')).toBe(null);
+    });
+
+    await test('invalid sources are rejected with a reason', () => {
+        expect(QueueManager.validateFallbackSource({ type: 'liked_songs', weight: 1 })).toBe(null);
+        expect(QueueManager.validateFallbackSource({ type: 'radio', weight: 1 })).toBe('type must be one of fallback_playlist, playlist, liked_songs, recent_jams');
+        expect(QueueManager.validateFallbackSource({ type: 'recent_jams', weight: 0 })).toBe('weight must be a positive number');
+        expect(QueueManager.validateFallbackSource({ type: 'playlist', weight: 1 })).toBe('playlistUrl must be a Spotify playlist URL or URI');
+    });
+
+    console.log(`\nTest Results: ${passed} passed, ${failed} failed`);
+    return { passed, failed };
+}
+
+// Run tests if this file is executed directly
+if (require.main === module) {
+    runTests().then(({ failed }) => process.exit(failed > 0 ? 1 : 0));
+}
+
+export { runTests };
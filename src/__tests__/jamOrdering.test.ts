@@ -0,0 +1,144 @@
+import { QueueManager, SubmittedTrack } from '../queueManager';
+
+// Simple test runner
+function runTests() {
+    let passed = 0;
+    let failed = 0;
+
+    function test(name: string, testFn: () => void) {
+        try {
+            testFn();
+            console.log(`✅ ${name}`);
+            passed++;
+        } catch (error) {
+            console.log(`❌ ${name}: ${error}`);
+            failed++;
+        }
+    }
+
+    function expect(actual: any) {
+        return {
+            toEqual: (expected: any) => {
+                if (JSON.stringify(actual) !== JSON.stringify(expected)) {
+                    throw new Error(`Expected ${JSON.stringify(expected)}, got ${JSON.stringify(actual)}`);
+                }
+            },
+            toBe: (expected: any) => {
+                if (actual !== expected) {
+                    throw new Error(`Expected ${expected}, got ${actual}`);
+                }
+            }
+        };
+    }
+
+    function track(uri: string, user: string, jams: number = 0): SubmittedTrack {
+        return {
+            spotifyUri: uri,
+            userEmail: `${user}@example.com`,
+            spotifyName: user,
+            timestamp: 1,
+            jamCounts: jams > 0 ? { 'fan@example.com': jams } : {}
+        };
+    }
+
+    function uris(qm: QueueManager): string[] {
+        return qm.getSubmittedTracks().map(t => t.spotifyUri);
+    }
+
+    // Test cases
+    test('fair is the default policy', () => {
+        const qm = new QueueManager();
+        expect(qm.getOrderingPolicy()).toBe('fair');
+    });
+
+    test('fair policy ignores jams', () => {
+        const qm = new QueueManager();
+        qm.setSubmittedTracks([track('A1', 'a'), track('B1', 'b'), track('C1', 'c', 5)]);
+        expect(qm.applyJamOrdering()).toBe(false);
+        qm.addTrack(track('A2', 'a'));
+        expect(uris(qm)).toEqual(['A1', 'B1', 'C1', 'A2']);
+    });
+
+    test('jammed track moves ahead of less-jammed tracks', () => {
+        const qm = new QueueManager();
+        qm.setSubmittedTracks([track('A1', 'a'), track('B1', 'b'), track('C1', 'c'), track('D1', 'd', 1)]);
+        qm.setOrderingPolicy('jam_weighted', 2);
+        expect(uris(qm)).toEqual(['A1', 'D1', 'B1', 'C1']);
+    });
+
+    test('promotion is capped at K slots per round', () => {
+        const qm = new QueueManager();
+        qm.setSubmittedTracks([track('A1', 'a'), track('B1', 'b'), track('C1', 'c'), track('D1', 'd'), track('E1', 'e', 3)]);
+        qm.setOrderingPolicy('jam_weighted', 2);
+        expect(uris(qm)).toEqual(['A1', 'B1', 'E1', 'C1', 'D1']);
+        // More jams in the same round do not move it further
+        qm.getSubmittedTracks()[2].jamCounts!['fan@example.com'] = 10;
+        expect(qm.applyJamOrdering()).toBe(false);
+        expect(uris(qm)).toEqual(['A1', 'B1', 'E1', 'C1', 'D1']);
+    });
+
+    test('a new round allows further promotion', () => {
+        const qm = new QueueManager();
+        qm.setSubmittedTracks([track('A1', 'a'), track('B1', 'b'), track('C1', 'c'), track('D1', 'd'), track('E1', 'e', 3)]);
+        qm.setOrderingPolicy('jam_weighted', 1);
+        expect(uris(qm)).toEqual(['A1', 'B1', 'C1', 'E1', 'D1']);
+        qm.consumeNextTrack(false);
+        expect(uris(qm)).toEqual(['B1', 'E1', 'C1', 'D1']);
+    });
+
+    test('head of the queue is never displaced', () => {
+        const qm = new QueueManager();
+        qm.setSubmittedTracks([track('A1', 'a'), track('B1', 'b', 5)]);
+        qm.setOrderingPolicy('jam_weighted', 3);
+        expect(uris(qm)).toEqual(['A1', 'B1']);
+    });
+
+    test('never passes an earlier track from the same submitter', () => {
+        const qm = new QueueManager();
+        qm.setSubmittedTracks([track('A1', 'a'), track('B1', 'b'), track('A2', 'a'), track('B2', 'b', 4)]);
+        qm.setOrderingPolicy('jam_weighted', 3);
+        expect(uris(qm)).toEqual(['A1', 'B1', 'B2', 'A2']);
+    });
+
+    test('does not pass tracks with equal or more jams', () => {
+        const qm = new QueueManager();
+        qm.setSubmittedTracks([track('A1', 'a'), track('B1', 'b', 2), track('C1', 'c', 2)]);
+        qm.setOrderingPolicy('jam_weighted', 3);
+        expect(uris(qm)).toEqual(['A1', 'B1', 'C1']);
+    });
+
+    test('new tracks are fair-inserted, then promoted if jammed', () => {
+        const qm = new QueueManager();
+        qm.setOrderingPolicy('jam_weighted', 2);
+        qm.setSubmittedTracks([track('A1', 'a'), track('A2', 'a'), track('A3', 'a')]);
+        qm.addTrack(track('B1', 'b', 1));
+        expect(uris(qm)).toEqual(['A1', 'B1', 'A2', 'A3']);
+        qm.addTrack(track('C1', 'c', 2));
+        expect(uris(qm)).toEqual(['A1', 'C1', 'B1', 'A2', 'A3']);
+    });
+
+    test('switching back to fair keeps the current order', () => {
+        const qm = new QueueManager();
+        qm.setSubmittedTracks([track('A1', 'a'), track('B1', 'b'), track('C1', 'c', 1)]);
+        qm.setOrderingPolicy('jam_weighted', 1);
+        expect(uris(qm)).toEqual(['A1', 'C1', 'B1']);
+        qm.setOrderingPolicy('fair');
+        expect(qm.getOrderingPolicy()).toBe('fair');
+        expect(uris(qm)).toEqual(['A1', 'C1', 'B1']);
+    });
+
+    test('counts legacy jammers arrays', () => {
+        const t: SubmittedTrack = { spotifyUri: 'X', userEmail: 'x@example.com', spotifyName: 'X', timestamp: 1, jammers: ['a@example.com', 'b@example.com'] };
+        expect(QueueManager.getJamScore(t)).toBe(2);
+    });
+
+    console.log(`\nTest Results: ${passed} passed, ${failed} failed`);
+    return { passed, failed };
+}
+
+// Run tests if this file is executed directly
+if (require.main === module) {
+    process.exit(runTests().failed > 0 ? 1 : 0);
+}
+
+export { runTests };
@@ -0,0 +1,511 @@
+import { QueueManager, SubmittedTrack } from '../queueManager';
+import { PlaybackController, PlaybackSpotifyClient } from '../playbackController';
+
+// Simple async test runner
+async function runTests() {
+    let passed = 0;
+    let failed = 0;
+
+    async function test(name: string, testFn: () => Promise<void>) {
+        try {
+            await testFn();
+            console.log(`✅ ${name}`);
+            passed++;
+        } catch (error) {
+            console.log(`❌ ${name}: ${error}`);
+            failed++;
+        }
+    }
+
+    function expect(actual: any) {
+        return {
+            toEqual: (expected: any) => {
+                if (JSON.stringify(actual) !== JSON.stringify(expected)) {
+                    throw new Error(`Expected ${JSON.stringify(expected)}, got ${JSON.stringify(actual)}`);
+                }
+            },
+            toBe: (expected: any) => {
+                if (actual !== expected) {
+                    throw new Error(`Expected ${expected}, got ${actual}`);
+                }
+            }
+        };
+    }
+
+    function track(uri: string, user: string = 'a'): SubmittedTrack {
+        return { spotifyUri: uri, userEmail: `${user}@example.com`, spotifyName: user, timestamp: 1, name: uri, artist: user };
+    }
+
+    // Commands aimed at a picked device are recorded with its id
+    function on(deviceId?: string): string {
+        return deviceId ? ` on ${deviceId}` : '';
+    }
+
+    // Spotify stand-in: records commands and reports whatever player state the test sets
+    class FakeSpotify implements PlaybackSpotifyClient {
+        calls: string[] = [];
+        player: { uri: string | null; progress_ms: number; duration_ms: number; is_playing: boolean } | null = null;
+        failPlayWith: string | null = null;
+        failQueueWith: string | null = null;
+
+        followers: Record<string, { uri: string | null; progress_ms: number; duration_ms: number; is_playing: boolean }> = {};
+
+        async getMyCurrentPlaybackState(accessToken: string) {
+            const p = this.followers[accessToken] || this.player;
+            return { body: p ? { is_playing: p.is_playing, progress_ms: p.progress_ms, item: p.uri ? { uri: p.uri, duration_ms: p.duration_ms } : null } : {} };
+        }
+
+        async play(accessToken: string, options: { uris: string[]; position_ms?: number; device_id?: string }) {
+            this.calls.push(`play ${accessToken} ${options.uris[0]}${options.position_ms ? ` @${options.position_ms}` : ''}${on(options.device_id)}`);
+            if (this.failPlayWith) throw new Error(this.failPlayWith);
+        }
+
+        async pause(accessToken: string, deviceId?: string) {
+            this.calls.push(`pause ${accessToken}${on(deviceId)}`);
+        }
+
+        async seek(accessToken: string, positionMs: number, deviceId?: string) {
+            this.calls.push(`seek ${accessToken} ${positionMs}${on(deviceId)}`);
+        }
+
+        async addToQueue(accessToken: string, uri: string, deviceId?: string) {
+            this.calls.push(`queue ${accessToken} ${uri}${on(deviceId)}`);
+            if (this.failQueueWith) throw new Error(this.failQueueWith);
+        }
+
+        async skipToNext(accessToken: string, deviceId?: string) {
+            this.calls.push(`next ${accessToken}${on(deviceId)}`);
+        }
+    }
+
+    // Clock whose time only moves when the test says so; advance() also fires due timers
+    function fakeClock() {
+        const timers: { at: number; callback: () => void }[] = [];
+        return {
+            time: 1000,
+            now() { return this.time; },
+            setTimeout(callback: () => void, ms: number) {
+                const timer = { at: this.time + ms, callback };
+                timers.push(timer);
+                return timer;
+            },
+            clearTimeout(handle: unknown) {
+                const index = timers.indexOf(handle as { at: number; callback: () => void });
+                if (index >= 0) timers.splice(index, 1);
+            },
+            async advance(ms: number) {
+                this.time += ms;
+                for (const timer of timers.filter(t => t.at <= this.time)) {
+                    timers.splice(timers.indexOf(timer), 1);
+                    timer.callback();
+                }
+                // Let the callbacks' Spotify calls settle
+                await new Promise(resolve => setImmediate(resolve));
+            }
+        };
+    }
+
+    // Build a controller for a queue of tracks, with a master and one session_play listener
+    function setup(uris: string[], devices: Record<string, string> = {}) {
+        // An unparseable fallback URL keeps the queue from ever reaching the real Spotify API
+        const queue = new QueueManager('no-fallback');
+        queue.setSubmittedTracks(uris.map(uri => track(uri)));
+        const spotify = new FakeSpotify();
+        const clock = fakeClock();
+        const events: string[] = [];
+        const controller = new PlaybackController(queue, {
+            spotify,
+            clock,
+            hooks: {
+                getMaster: () => ({ sessionId: 'master', accessToken: 'm', deviceId: devices.master }),
+                getTargets: (onlySessionPlay) => {
+                    const master = { sessionId: 'master', accessToken: 'm', deviceId: devices.master };
+                    const listener = { sessionId: 'listener', accessToken: 'l', deviceId: devices.listener };
+                    return onlySessionPlay ? [listener] : [master, listener];
+                },
+                onTrackFinished: (t) => events.push(`finished ${t.spotifyUri}`),
+                onMasterAdvanced: (t, afterManualSkip) => events.push(`advanced ${t.spotifyUri}${afterManualSkip ? ' after skip' : ''}`),
+                onTrackEvent: (e) => events.push(`${e.type} ${e.track.spotifyUri}${e.type === 'seeked' ? ` ${e.fromPositionMs}->${e.positionMs}` : ''}`),
+                onPlaybackError: (t) => events.push(`error ${t?.spotifyUri}`),
+                onNoActiveDevice: (sid) => events.push(`no device ${sid}`),
+            }
+        });
+        const queued = () => queue.getSubmittedTracks().map(t => t.spotifyUri);
+        return { queue, spotify, clock, events, controller, queued };
+    }
+
+    // Test cases
+    await test('resume plays the head of the queue for every session without consuming it', async () => {
+        const { spotify, controller, queued } = setup(['A', 'B']);
+        expect(await controller.resume()).toBe(true);
+        expect(controller.mode).toBe('master_play');
+        expect(controller.currentTrack?.spotifyUri).toBe('A');
+        expect(spotify.calls).toEqual(['play m A', 'play l A']);
+        expect(queued()).toEqual(['A', 'B']);
+        expect(await controller.resume()).toBe(false);
+    });
+
+    await test('track is consumed once the master player confirms it', async () => {
+        const { spotify, controller, queued } = setup(['A', 'B']);
+        await controller.resume();
+        spotify.player = { uri: 'A', progress_ms: 500, duration_ms: 10000, is_playing: true };
+        await controller.poll();
+        expect(controller.currentTrackConsumed).toBe(true);
+        expect(controller.masterTrackStarted).toBe(true);
+        expect(queued()).toEqual(['B']);
+        expect(controller.currentTrack?.progress).toEqual({ position_ms: 500, duration_ms: 10000 });
+    });
+
+    await test('skip records the old track, plays and consumes the next one', async () => {
+        const { spotify, events, controller, queued } = setup(['A', 'B', 'C']);
+        await controller.resume();
+        spotify.calls = [];
+        expect(await controller.skip()).toBe(true);
+        expect(controller.currentTrack?.spotifyUri).toBe('B');
+        expect(events).toEqual(['finished A']);
+        expect(spotify.calls).toEqual(['play m B', 'play l B']);
+        expect(queued()).toEqual(['C']);
+        await controller.skip();
+        expect(controller.currentTrack?.spotifyUri).toBe('C');
+        expect(queued()).toEqual([]);
+    });
+
+    await test('an undone skip puts the next track back and plays the skipped one from where it was', async () => {
+        const { spotify, controller, queued } = setup(['A', 'B', 'C']);
+        await controller.resume();
+        const skipped = controller.currentTrack!;
+        await controller.skip();
+        spotify.calls = [];
+        await controller.restoreSkippedTrack(skipped, false, 42000);
+        expect(controller.currentTrack?.spotifyUri).toBe('A');
+        expect(controller.currentTrackConsumed).toBe(true);
+        expect(queued()).toEqual(['B', 'C']);
+        expect(spotify.calls).toEqual(['play m A @42000', 'play l A @42000']);
+    });
+
+    await test('skip with nothing left returns false and keeps the current track', async () => {
+        const { controller } = setup([]);
+        expect(await controller.skip()).toBe(false);
+        expect(controller.currentTrack).toBe(null);
+    });
+
+    await test('end of track advances only session_play listeners and consumes the next track', async () => {
+        const { spotify, clock, events, controller, queued } = setup(['A', 'B']);
+        // Without a queued next track the listeners are moved on with play
+        spotify.failQueueWith = 'Queueing failed';
+        await controller.resume();
+        spotify.player = { uri: 'A', progress_ms: 9500, duration_ms: 10000, is_playing: true };
+        await controller.poll();
+        spotify.calls = [];
+        clock.time += 10000;
+        spotify.player = { uri: 'A', progress_ms: 0, duration_ms: 10000, is_playing: false };
+        await controller.poll();
+        expect(events).toEqual(['ended A', 'finished A']);
+        expect(controller.currentTrack?.spotifyUri).toBe('B');
+        expect(spotify.calls).toEqual(['play l B']);
+        expect(queued()).toEqual([]);
+    });
+
+    await test('next track is queued ahead of the end so listeners continue into it by themselves', async () => {
+        const { spotify, clock, events, controller, queued } = setup(['A', 'B']);
+        await controller.resume();
+        spotify.calls = [];
+        spotify.player = { uri: 'A', progress_ms: 4000, duration_ms: 10000, is_playing: true };
+        await controller.poll();
+        expect(spotify.calls).toEqual([]);
+        spotify.player = { uri: 'A', progress_ms: 5000, duration_ms: 10000, is_playing: true };
+        await controller.poll();
+        await controller.poll();
+        expect(spotify.calls).toEqual(['queue l B']);
+        spotify.calls = [];
+        await clock.advance(5000);
+        expect(events).toEqual(['ended A', 'finished A']);
+        expect(controller.currentTrack?.spotifyUri).toBe('B');
+        expect(spotify.calls).toEqual([]);
+        expect(queued()).toEqual([]);
+    });
+
+    await test('skip after the next track was queued skips to it where it is queued', async () => {
+        const { spotify, controller } = setup(['A', 'B', 'C']);
+        await controller.resume();
+        spotify.player = { uri: 'A', progress_ms: 9000, duration_ms: 10000, is_playing: true };
+        await controller.poll();
+        spotify.calls = [];
+        await controller.skip();
+        expect(controller.currentTrack?.spotifyUri).toBe('B');
+        expect(spotify.calls).toEqual(['play m B', 'next l']);
+    });
+
+    await test('master continuing into the queued track is followed without a play', async () => {
+        const { spotify, clock, events, controller, queued } = setup(['A', 'B']);
+        await controller.resume();
+        clock.time += 4000;
+        spotify.player = { uri: 'A', progress_ms: 9000, duration_ms: 10000, is_playing: true };
+        await controller.poll();
+        spotify.calls = [];
+        clock.time += 900;
+        spotify.player = { uri: 'B', progress_ms: 100, duration_ms: 10000, is_playing: true };
+        await controller.poll();
+        expect(events).toEqual(['ended A', 'finished A']);
+        expect(controller.currentTrack?.spotifyUri).toBe('B');
+        expect(spotify.calls).toEqual([]);
+        expect(queued()).toEqual([]);
+    });
+
+    await test('end of the last track stops playback', async () => {
+        const { spotify, clock, controller } = setup(['A']);
+        await controller.resume();
+        spotify.player = { uri: 'A', progress_ms: 9500, duration_ms: 10000, is_playing: true };
+        await controller.poll();
+        clock.time += 10000;
+        spotify.player = { uri: 'A', progress_ms: 0, duration_ms: 10000, is_playing: false };
+        await controller.poll();
+        expect(controller.currentTrack).toBe(null);
+        expect(controller.mode).toBe('master_pause');
+    });
+
+    await test('track end right after a manual skip does not advance again', async () => {
+        const { spotify, clock, events, controller } = setup(['A', 'B', 'C']);
+        await controller.resume();
+        spotify.player = { uri: 'A', progress_ms: 9500, duration_ms: 10000, is_playing: true };
+        await controller.poll();
+        await controller.skip();
+        clock.time += 1000;
+        spotify.player = { uri: 'B', progress_ms: 0, duration_ms: 10000, is_playing: true };
+        await controller.poll();
+        expect(events).toEqual(['finished A']);
+        expect(controller.currentTrack?.spotifyUri).toBe('B');
+    });
+
+    await test('track end is scheduled from the duration and position', async () => {
+        const { spotify, clock, events, controller, queued } = setup(['A', 'B']);
+        await controller.resume();
+        spotify.player = { uri: 'A', progress_ms: 4000, duration_ms: 10000, is_playing: true };
+        await controller.poll();
+        expect(controller.isTrackEndScheduled()).toBe(true);
+        spotify.calls = [];
+        await clock.advance(5999);
+        expect(events).toEqual([]);
+        await clock.advance(1);
+        expect(events).toEqual(['ended A', 'finished A']);
+        expect(controller.currentTrack?.spotifyUri).toBe('B');
+        expect(spotify.calls).toEqual(['play l B']);
+        expect(queued()).toEqual([]);
+    });
+
+    await test('seek on the master is reported and moves the scheduled end', async () => {
+        const { spotify, clock, events, controller } = setup(['A', 'B']);
+        await controller.resume();
+        clock.time += 4000;
+        spotify.player = { uri: 'A', progress_ms: 1000, duration_ms: 10000, is_playing: true };
+        await controller.poll();
+        clock.time += 1000;
+        spotify.player = { uri: 'A', progress_ms: 7000, duration_ms: 10000, is_playing: true };
+        await controller.poll();
+        expect(events).toEqual(['seeked A 2000->7000']);
+        await clock.advance(2999);
+        expect(controller.currentTrack?.spotifyUri).toBe('A');
+        await clock.advance(1);
+        expect(controller.currentTrack?.spotifyUri).toBe('B');
+    });
+
+    await test('position drift within the tolerance is not a seek', async () => {
+        const { spotify, clock, events, controller } = setup(['A']);
+        await controller.resume();
+        clock.time += 4000;
+        spotify.player = { uri: 'A', progress_ms: 1000, duration_ms: 10000, is_playing: true };
+        await controller.poll();
+        clock.time += 1000;
+        spotify.player = { uri: 'A', progress_ms: 2800, duration_ms: 10000, is_playing: true };
+        await controller.poll();
+        expect(events).toEqual([]);
+    });
+
+    await test('pausing cancels the scheduled end', async () => {
+        const { spotify, clock, events, controller } = setup(['A', 'B']);
+        await controller.resume();
+        spotify.player = { uri: 'A', progress_ms: 4000, duration_ms: 10000, is_playing: true };
+        await controller.poll();
+        await controller.pause();
+        expect(controller.isTrackEndScheduled()).toBe(false);
+        await clock.advance(10000);
+        expect(events).toEqual([]);
+        expect(controller.currentTrack?.spotifyUri).toBe('A');
+    });
+
+    await test('polling is fast near the end of a track and slow mid-track or paused', async () => {
+        const { spotify, clock, controller } = setup(['A']);
+        expect(controller.getPollCadence()).toEqual({ delayMs: 5000, reason: 'paused' });
+        await controller.resume();
+        expect(controller.getPollCadence()).toEqual({ delayMs: 1000, reason: 'track_change' });
+        clock.time += 4000;
+        spotify.player = { uri: 'A', progress_ms: 1000, duration_ms: 60000, is_playing: true };
+        await controller.poll();
+        expect(controller.getPollCadence()).toEqual({ delayMs: 5000, reason: 'mid_track' });
+        clock.time += 45000;
+        expect(controller.getPollCadence()).toEqual({ delayMs: 500, reason: 'near_end' });
+        spotify.player = { uri: 'A', progress_ms: 46000, duration_ms: 60000, is_playing: false };
+        await controller.poll();
+        expect(controller.getPollCadence()).toEqual({ delayMs: 5000, reason: 'paused' });
+    });
+
+    await test('follower joining mid-track starts at the master position', async () => {
+        const { spotify, clock, controller } = setup(['A']);
+        await controller.resume();
+        clock.time += 4000;
+        spotify.player = { uri: 'A', progress_ms: 30000, duration_ms: 60000, is_playing: true };
+        await controller.poll();
+        spotify.calls = [];
+        clock.time += 1500;
+        await controller.startFollower({ sessionId: 'listener', accessToken: 'l' });
+        expect(spotify.calls).toEqual(['play l A @31500']);
+    });
+
+    await test('new master picks up at the old master position unless already playing the track', async () => {
+        const { spotify, clock, controller } = setup(['A']);
+        await controller.resume();
+        clock.time += 4000;
+        spotify.player = { uri: 'A', progress_ms: 30000, duration_ms: 60000, is_playing: true };
+        await controller.poll();
+        spotify.calls = [];
+        clock.time += 2000;
+        spotify.followers.n = { uri: null, progress_ms: 0, duration_ms: 0, is_playing: false };
+        await controller.handOverMaster({ sessionId: 'new', accessToken: 'n' });
+        expect(spotify.calls).toEqual(['play n A @32000']);
+        spotify.calls = [];
+        spotify.followers.l = { uri: 'A', progress_ms: 32000, duration_ms: 60000, is_playing: true };
+        await controller.handOverMaster({ sessionId: 'listener', accessToken: 'l' });
+        expect(spotify.calls).toEqual([]);
+    });
+
+    await test('drifting followers are seeked back to the master position', async () => {
+        const { spotify, clock, controller } = setup(['A']);
+        await controller.resume();
+        clock.time += 10000;
+        spotify.player = { uri: 'A', progress_ms: 10000, duration_ms: 60000, is_playing: true };
+        spotify.followers.l = { uri: 'A', progress_ms: 4000, duration_ms: 60000, is_playing: true };
+        spotify.calls = [];
+        await controller.poll();
+        expect(spotify.calls).toEqual(['seek l 10000']);
+        expect(controller.getFollowerSyncStatus('listener')?.status).toBe('corrected');
+        expect(controller.getFollowerSyncStatus('listener')?.driftMs).toBe(-6000);
+        // Within the threshold nothing is corrected, and nothing is checked before the next interval
+        clock.time += 10000;
+        spotify.player = { uri: 'A', progress_ms: 20000, duration_ms: 60000, is_playing: true };
+        spotify.followers.l = { uri: 'A', progress_ms: 21500, duration_ms: 60000, is_playing: true };
+        spotify.calls = [];
+        await controller.poll();
+        expect(spotify.calls).toEqual([]);
+        expect(controller.getFollowerSyncStatus('listener')?.status).toBe('in_sync');
+        spotify.followers.l = { uri: 'A', progress_ms: 0, duration_ms: 60000, is_playing: true };
+        await controller.poll();
+        expect(spotify.calls).toEqual([]);
+    });
+
+    await test('followers on another track are restarted and paused followers are left alone', async () => {
+        const { spotify, clock, controller } = setup(['A']);
+        await controller.resume();
+        clock.time += 10000;
+        spotify.player = { uri: 'A', progress_ms: 10000, duration_ms: 60000, is_playing: true };
+        spotify.followers.l = { uri: 'X', progress_ms: 4000, duration_ms: 60000, is_playing: true };
+        spotify.calls = [];
+        await controller.poll();
+        expect(spotify.calls).toEqual(['play l A @10000']);
+        clock.time += 10000;
+        spotify.player = { uri: 'A', progress_ms: 20000, duration_ms: 60000, is_playing: true };
+        spotify.followers.l = { uri: 'A', progress_ms: 4000, duration_ms: 60000, is_playing: false };
+        spotify.calls = [];
+        await controller.poll();
+        expect(spotify.calls).toEqual([]);
+        expect(controller.getFollowerSyncStatus('listener')?.status).toBe('paused');
+    });
+
+    await test('pause inside the track change grace period is ignored', async () => {
+        const { spotify, clock, controller } = setup(['A']);
+        await controller.resume();
+        clock.time += 1000;
+        spotify.player = { uri: 'A', progress_ms: 0, duration_ms: 10000, is_playing: false };
+        await controller.poll();
+        expect(controller.mode).toBe('master_play');
+        clock.time += 5000;
+        spotify.player = { uri: 'A', progress_ms: 100, duration_ms: 10000, is_playing: true };
+        await controller.poll();
+        spotify.player = { uri: 'A', progress_ms: 200, duration_ms: 10000, is_playing: false };
+        await controller.poll();
+        expect(controller.mode).toBe('master_pause');
+    });
+
+    await test('master playing an unrelated track is corrected after the grace period', async () => {
+        const { spotify, clock, controller } = setup(['A']);
+        await controller.resume();
+        spotify.calls = [];
+        spotify.player = { uri: 'X', progress_ms: 100, duration_ms: 10000, is_playing: true };
+        await controller.poll();
+        expect(spotify.calls).toEqual([]);
+        clock.time += 4000;
+        await controller.poll();
+        expect(spotify.calls).toEqual(['play m A']);
+    });
+
+    await test('master advancing into a queued track is followed', async () => {
+        const { spotify, clock, events, controller, queued } = setup(['A', 'B', 'C']);
+        await controller.resume();
+        spotify.player = { uri: 'A', progress_ms: 100, duration_ms: 10000, is_playing: true };
+        await controller.poll();
+        clock.time += 5000;
+        spotify.player = { uri: 'C', progress_ms: 100, duration_ms: 10000, is_playing: true };
+        await controller.poll();
+        expect(events).toEqual(['skipped_externally A', 'finished A', 'advanced C']);
+        expect(controller.currentTrack?.spotifyUri).toBe('C');
+        expect(queued()).toEqual(['B']);
+    });
+
+    await test('a track that never starts is reported and replaced', async () => {
+        const { spotify, clock, events, controller, queued } = setup(['A', 'B']);
+        await controller.resume();
+        spotify.player = { uri: null, progress_ms: 0, duration_ms: 0, is_playing: false };
+        clock.time += 1000;
+        await controller.poll();
+        expect(controller.isAwaitingPlayback()).toBe(true);
+        clock.time += 5000;
+        await controller.poll();
+        expect(events).toEqual(['error A']);
+        expect(controller.currentTrack?.spotifyUri).toBe('B');
+        expect(queued()).toEqual([]);
+    });
+
+    await test('missing device is reported for the failing session', async () => {
+        const { spotify, events, controller } = setup(['A']);
+        spotify.failPlayWith = 'Player command failed: No active device found';
+        await controller.resume();
+        expect(events).toEqual(['no device master', 'no device listener']);
+    });
+
+    await test('pause stops every session player', async () => {
+        const { spotify, controller } = setup(['A']);
+        await controller.resume();
+        spotify.calls = [];
+        expect(await controller.pause()).toBe(true);
+        expect(controller.mode).toBe('master_pause');
+        expect(spotify.calls).toEqual(['pause m', 'pause l']);
+        expect(await controller.pause()).toBe(false);
+    });
+
+    await test('commands go to the device picked for each session', async () => {
+        const { spotify, controller } = setup(['A'], { listener: 'speaker' });
+        await controller.resume();
+        await controller.startFollower({ sessionId: 'listener', accessToken: 'l', deviceId: 'speaker' });
+        await controller.pause();
+        expect(spotify.calls).toEqual(['play m A', 'play l A on speaker', 'play l A on speaker', 'pause m', 'pause l on speaker']);
+    });
+
+    console.log(`\nTest Results: ${passed} passed, ${failed} failed`);
+    return { passed, failed };
+}
+
+// Run tests if this file is executed directly
+if (require.main === module) {
+    runTests().then(({ failed }) => process.exit(failed > 0 ? 1 : 0));
+}
+
+export { runTests };
@@ -0,0 +1,103 @@
+import { QueueManager, SubmittedTrack } from '../queueManager';
+
+// Simple test runner
+function runTests() {
+    let passed = 0;
+    let failed = 0;
+
+    function test(name: string, testFn: () => void) {
+        try {
+            testFn();
+            console.log(`✅ ${name}`);
+            passed++;
+        } catch (error) {
+            console.log(`❌ ${name}: ${error}`);
+            failed++;
+        }
+    }
+
+    function expect(actual: any) {
+        return {
+            toEqual: (expected: any) => {
+                if (JSON.stringify(actual) !== JSON.stringify(expected)) {
+                    throw new Error(`Expected ${JSON.stringify(expected)}, got ${JSON.stringify(actual)}`);
+                }
+            },
+            toBe: (expected: any) => {
+                if (actual !== expected) {
+                    throw new Error(`Expected ${expected}, got ${actual}`);
+                }
+            }
+        };
+    }
+
+    function track(uri: string, user: string): SubmittedTrack {
+        return { spotifyUri: uri, userEmail: `${user}@example.com`, spotifyName: user, timestamp: 1 };
+    }
+
+    function submitters(qm: QueueManager): string[] {
+        return qm.getSubmittedTracks().map(t => `${t.spotifyUri}:${t.spotifyName}`);
+    }
+
+    // Test cases
+    test('every queued item gets its own id, even for the same track', () => {
+        const qm = new QueueManager();
+        qm.addTrack(track('A', 'alice'));
+        qm.addTrack(track('A', 'bob'));
+        const [first, second] = qm.getSubmittedTracks();
+        expect(typeof first.id).toBe('string');
+        expect(first.id === second.id).toBe(false);
+        expect(qm.getTrack(second.id!)?.spotifyName).toBe('bob');
+        expect(qm.getTrack('A')?.spotifyName).toBe('alice');
+    });
+
+    test('item ids pick out one copy of a track queued twice', () => {
+        const qm = new QueueManager();
+        qm.addTrack(track('A', 'alice'));
+        qm.addTrack(track('B', 'carol'));
+        qm.addTrack(track('A', 'bob'));
+        const bobs = qm.getSubmittedTracks()[2].id!;
+        qm.moveToFront(bobs);
+        expect(submitters(qm)).toEqual(['A:bob', 'A:alice', 'B:carol']);
+        qm.removeTrack('A');
+        expect(submitters(qm)).toEqual(['A:alice', 'B:carol']);
+        expect(qm.reorderTracks(['A', qm.getSubmittedTracks()[0].id!]).error).toBe('invalid_order');
+    });
+
+    test('tracks loaded without ids are given one', () => {
+        const qm = new QueueManager();
+        qm.setSubmittedTracks([track('A', 'alice'), { ...track('B', 'bob'), id: 'kept' }]);
+        const [first, second] = qm.getSubmittedTracks();
+        expect(typeof first.id).toBe('string');
+        expect(second.id).toBe('kept');
+    });
+
+    test('merging a duplicate counts it as a jam on the queued item', () => {
+        const qm = new QueueManager();
+        qm.addTrack({ ...track('A', 'alice'), jammers: ['carol@example.com'] });
+        const merged = qm.mergeDuplicate('A', 'bob@example.com');
+        expect(merged?.jamCounts).toEqual({ 'carol@example.com': 1, 'bob@example.com': 1 });
+        qm.mergeDuplicate('A', 'bob@example.com');
+        expect(qm.getTrack('A')?.jamCounts).toEqual({ 'carol@example.com': 1, 'bob@example.com': 2 });
+        expect(qm.getSubmittedTracks().length).toBe(1);
+        expect(qm.mergeDuplicate('B', 'bob@example.com')).toBe(null);
+    });
+
+    test('duplicates are rejected by default and unknown policies are ignored', () => {
+        const qm = new QueueManager();
+        expect(qm.getDuplicatePolicy()).toBe('reject');
+        qm.setDuplicatePolicy('merge');
+        qm.setDuplicatePolicy('replace' as any);
+        expect(qm.getDuplicatePolicy()).toBe('merge');
+    });
+
+    console.log(`\nTest Results: ${passed} passed, ${failed} failed`);
+    return { passed, failed };
+}
+
+// Run tests if this file is executed directly
+if (require.main === module) {
+    process.exit(runTests().failed > 0 ? 1 : 0);
+}
+
+export { runTests };
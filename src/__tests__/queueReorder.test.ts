@@ -0,0 +1,117 @@
+import { QueueManager, SubmittedTrack } from '../queueManager';
+
+// Simple test runner
+function runTests() {
+    let passed = 0;
+    let failed = 0;
+
+    function test(name: string, testFn: () => void) {
+        try {
+            testFn();
+            console.log(`✅ ${name}`);
+            passed++;
+        } catch (error) {
+            console.log(`❌ ${name}: ${error}`);
+            failed++;
+        }
+    }
+
+    function expect(actual: any) {
+        return {
+            toEqual: (expected: any) => {
+                if (JSON.stringify(actual) !== JSON.stringify(expected)) {
+                    throw new Error(`Expected ${JSON.stringify(expected)}, got ${JSON.stringify(actual)}`);
+                }
+            },
+            toBe: (expected: any) => {
+                if (actual !== expected) {
+                    throw new Error(`Expected ${expected}, got ${actual}`);
+                }
+            }
+        };
+    }
+
+    // Queue of the given URIs; the letter is the submitter (A1 and A2 are both u-a's)
+    function queue(...uris: string[]): QueueManager {
+        const qm = new QueueManager();
+        qm.setSubmittedTracks(uris.map((uri, i): SubmittedTrack => ({
+            spotifyUri: uri, userEmail: `u-${uri[0].toLowerCase()}@example.com`, spotifyName: uri[0], timestamp: i
+        })));
+        return qm;
+    }
+
+    function order(qm: QueueManager): string[] {
+        return qm.getSubmittedTracks().map(t => t.spotifyUri);
+    }
+
+    // Test cases
+    test('moves a track to a position and reports what shifted', () => {
+        const qm = queue('A1', 'B1', 'C1', 'A2');
+        const result = qm.moveTrack('A2', 1);
+        expect(order(qm)).toEqual(['A1', 'A2', 'B1', 'C1']);
+        expect(result.moves.map(({ spotifyUri, from, to }) => ({ spotifyUri, from, to })))
+            .toEqual([{ spotifyUri: 'A2', from: 3, to: 1 }, { spotifyUri: 'B1', from: 1, to: 2 }, { spotifyUri: 'C1', from: 2, to: 3 }]);
+    });
+
+    test('positions are clamped to the queue', () => {
+        const qm = queue('A1', 'B1', 'C1');
+        qm.moveTrack('A1', 99);
+        expect(order(qm)).toEqual(['B1', 'C1', 'A1']);
+        qm.moveTrack('A1', -5);
+        expect(order(qm)).toEqual(['A1', 'B1', 'C1']);
+        expect(qm.moveTrack('A1', 0)).toEqual({ moves: [] });
+    });
+
+    test('move to front, or behind the head while it plays', () => {
+        const qm = queue('A1', 'B1', 'C1');
+        qm.moveToFront('C1');
+        expect(order(qm)).toEqual(['C1', 'A1', 'B1']);
+        qm.moveToFront('B1', { keepHead: true });
+        expect(order(qm)).toEqual(['C1', 'B1', 'A1']);
+        expect(qm.moveTrack('C1', 2, { keepHead: true }).error).toBe('head_playing');
+    });
+
+    test('batch reorder fills the listed tracks\' slots and leaves the rest', () => {
+        const qm = queue('A1', 'B1', 'C1', 'D1', 'E1');
+        const result = qm.reorderTracks(['D1', 'B1']);
+        expect(order(qm)).toEqual(['A1', 'D1', 'C1', 'B1', 'E1']);
+        expect(result.moves.map(m => m.spotifyUri)).toEqual(['D1', 'B1']);
+        qm.reorderTracks(['E1', 'D1', 'C1', 'B1', 'A1']);
+        expect(order(qm)).toEqual(['E1', 'D1', 'C1', 'B1', 'A1']);
+    });
+
+    test('batch reorders with unknown or repeated tracks are refused', () => {
+        const qm = queue('A1', 'B1', 'C1');
+        expect(qm.reorderTracks(['C1', 'X1']).error).toBe('not_found');
+        expect(qm.reorderTracks(['C1', 'C1']).error).toBe('invalid_order');
+        expect(qm.reorderTracks(['B1', 'A1'], { keepHead: true }).error).toBe('head_playing');
+        expect(order(qm)).toEqual(['A1', 'B1', 'C1']);
+    });
+
+    test('fairness checks refuse jumping ahead of earlier rounds', () => {
+        const qm = queue('A1', 'B1', 'C1', 'A2', 'B2');
+        expect(qm.moveToFront('B2', { fair: true }).error).toBe('unfair');
+        expect(qm.reorderTracks(['A2', 'C1'], { fair: true }).error).toBe('unfair');
+        expect(order(qm)).toEqual(['A1', 'B1', 'C1', 'A2', 'B2']);
+        qm.moveToFront('C1', { fair: true });
+        qm.reorderTracks(['B2', 'A2'], { fair: true });
+        expect(order(qm)).toEqual(['C1', 'A1', 'B1', 'B2', 'A2']);
+    });
+
+    test('fairness checks only hold a move to the unfairness it adds', () => {
+        const qm = queue('A1', 'A2', 'B1', 'C1');
+        qm.moveTrack('C1', 2, { fair: true });
+        expect(order(qm)).toEqual(['A1', 'A2', 'C1', 'B1']);
+        expect(qm.moveTrack('B1', 0, { fair: true }).error).toBe(undefined);
+    });
+
+    console.log(`\nTest Results: ${passed} passed, ${failed} failed`);
+    return { passed, failed };
+}
+
+// Run tests if this file is executed directly
+if (require.main === module) {
+    process.exit(runTests().failed > 0 ? 1 : 0);
+}
+
+export { runTests };
@@ -0,0 +1,112 @@
+import { QueueManager, SubmittedTrack } from '../queueManager';
+
+// Simple test runner
+function runTests() {
+    let passed = 0;
+    let failed = 0;
+
+    function test(name: string, testFn: () => void) {
+        try {
+            testFn();
+            console.log(`✅ ${name}`);
+            passed++;
+        } catch (error) {
+            console.log(`❌ ${name}: ${error}`);
+            failed++;
+        }
+    }
+
+    function expect(actual: any) {
+        return {
+            toEqual: (expected: any) => {
+                if (JSON.stringify(actual) !== JSON.stringify(expected)) {
+                    throw new Error(`Expected ${JSON.stringify(expected)}, got ${JSON.stringify(actual)}`);
+                }
+            },
+            toBe: (expected: any) => {
+                if (actual !== expected) {
+                    throw new Error(`Expected ${expected}, got ${actual}`);
+                }
+            }
+        };
+    }
+
+    function track(uri: string, user: string): SubmittedTrack {
+        return { spotifyUri: uri, userEmail: `${user}@example.com`, spotifyName: user, timestamp: 1 };
+    }
+
+    const MINUTE = 60 * 1000;
+
+    // Test cases
+    test('submissions are unlimited by default', () => {
+        const qm = new QueueManager();
+        for (let i = 0; i < 20; i++) qm.addTrack(track(`A${i}`, 'alice'));
+        const quota = qm.getSubmissionQuota('alice@example.com');
+        expect(quota.remaining).toBe(null);
+        expect(quota.pending).toBe(20);
+        expect(quota.reason).toBe(null);
+    });
+
+    test('pending tracks per user are capped until one of them plays', () => {
+        const qm = new QueueManager();
+        qm.setSubmissionLimits({ maxPendingPerUser: 2 });
+        qm.addTrack(track('A1', 'alice'));
+        expect(qm.getSubmissionQuota('alice@example.com').remaining).toBe(1);
+        qm.addTrack(track('A2', 'alice'));
+        const quota = qm.getSubmissionQuota('alice@example.com');
+        expect(quota.remaining).toBe(0);
+        expect(quota.retryAfterMs).toBe(null);
+        expect(quota.reason).toBe('You already have 2 tracks waiting in the queue (limit 2).');
+        expect(qm.getSubmissionQuota('bob@example.com').remaining).toBe(2);
+        qm.consumeNextTrack(false);
+        expect(qm.getSubmissionQuota('alice@example.com').remaining).toBe(1);
+    });
+
+    test('submissions per window free up as the window rolls on', () => {
+        const qm = new QueueManager();
+        qm.setSubmissionLimits({ maxPerWindow: 3, windowMinutes: 10 });
+        for (let i = 0; i < 3; i++) qm.addTrack(track(`A${i}`, 'alice'));
+        const start = Date.now();
+        qm.removeTrack('A0');
+        const quota = qm.getSubmissionQuota('alice@example.com', start);
+        expect(quota.remaining).toBe(0);
+        expect(quota.recentSubmissions).toBe(3);
+        expect(quota.retryAfterMs! > 9 * MINUTE && quota.retryAfterMs! <= 10 * MINUTE).toBe(true);
+        expect(qm.getSubmissionQuota('alice@example.com', start + 11 * MINUTE).remaining).toBe(3);
+    });
+
+    test('a cooldown starts when a track of yours starts playing', () => {
+        const qm = new QueueManager();
+        qm.setSubmissionLimits({ cooldownSeconds: 30 });
+        qm.addTrack(track('A1', 'alice'));
+        expect(qm.getSubmissionQuota('alice@example.com').remaining).toBe(null);
+        qm.consumeNextTrack(false);
+        const now = Date.now();
+        const quota = qm.getSubmissionQuota('alice@example.com', now);
+        expect(quota.remaining).toBe(0);
+        expect(quota.cooldownUntil! - now <= 30 * 1000).toBe(true);
+        expect(quota.reason).toBe('You can add tracks again 30 seconds after one of yours started playing.');
+        expect(qm.getSubmissionQuota('bob@example.com', now).remaining).toBe(null);
+        expect(qm.getSubmissionQuota('alice@example.com', now + 31 * 1000).remaining).toBe(null);
+    });
+
+    test('the tightest limit decides what remains', () => {
+        const qm = new QueueManager();
+        qm.setSubmissionLimits({ maxPendingPerUser: 5, maxPerWindow: 2, windowMinutes: 60 });
+        qm.addTrack(track('A1', 'alice'));
+        expect(qm.getSubmissionQuota('alice@example.com').remaining).toBe(1);
+        qm.setSubmissionLimits({ maxPerWindow: 0, maxPendingPerUser: -1 });
+        expect(qm.getSubmissionLimits().maxPendingPerUser).toBe(5);
+        expect(qm.getSubmissionQuota('alice@example.com').remaining).toBe(4);
+    });
+
+    console.log(`\nTest Results: ${passed} passed, ${failed} failed`);
+    return { passed, failed };
+}
+
+// Run tests if this file is executed directly
+if (require.main === module) {
+    process.exit(runTests().failed > 0 ? 1 : 0);
+}
+
+export { runTests };
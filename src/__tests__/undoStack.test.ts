@@ -0,0 +1,110 @@
+import type { SubmittedTrack } from '../queueManager';
+
+// Simple async test runner
+async function runTests() {
+    // Fallback playlists load from the in-memory fake Spotify
+    process.env.SPOTIFY_DRIVER = 'fake';
+    process.env.LOG_LEVEL = process.env.LOG_LEVEL || 'warn';
+    const { QueueManager } = await import('../queueManager');
+    const { UndoStack, MAX_UNDO_ENTRIES } = await import('../undoStack');
+    const { fakeSpotifyBackend } = await import('../fakeSpotify');
+
+    let passed = 0;
+    let failed = 0;
+
+    async function test(name: string, testFn: () => Promise<void> | void) {
+        try {
+            await testFn();
+            console.log(`✅ ${name}`);
+            passed++;
+        } catch (error) {
+            console.log(`❌ ${name}: ${error}`);
+            failed++;
+        }
+    }
+
+    function expect(actual: any) {
+        return {
+            toEqual: (expected: any) => {
+                if (JSON.stringify(actual) !== JSON.stringify(expected)) {
+                    throw new Error(`Expected ${JSON.stringify(expected)}, got ${JSON.stringify(actual)}`);
+                }
+            },
+            toBe: (expected: any) => {
+                if (actual !== expected) {
+                    throw new Error(`Expected ${expected}, got ${actual}`);
+                }
+            }
+        };
+    }
+
+    const token = fakeSpotifyBackend.issueTokens('dj').access_token;
+
+    function track(uri: string): SubmittedTrack {
+        return { spotifyUri: uri, userEmail: 'alice@example.com', spotifyName: 'alice', timestamp: 1 };
+    }
+
+    // Test cases
+    await test('undo takes back the latest operation of that user only', () => {
+        const stack = new UndoStack();
+        stack.push('alice@example.com', { action: 'remove_track', track: track('A'), index: 0 }, 2000);
+        stack.push('alice@example.com', { action: 'delay_track', track: track('B'), index: 1 }, 2000);
+        stack.push('bob@example.com', { action: 'remove_track', track: track('C'), index: 2 }, 2000);
+        expect(stack.pop('alice@example.com', 1000)?.action).toBe('delay_track');
+        expect(stack.pop('alice@example.com', 1000)?.action).toBe('remove_track');
+        expect(stack.pop('alice@example.com', 1000)).toBe(null);
+        expect(stack.pop('bob@example.com', 1000)?.action).toBe('remove_track');
+    });
+
+    await test('operations can only be undone until they expire', () => {
+        const stack = new UndoStack();
+        stack.push('alice@example.com', { action: 'remove_track', track: track('A'), index: 0 }, 2000);
+        stack.push('alice@example.com', { action: 'remove_track', track: track('B'), index: 0 }, 3000);
+        expect(stack.pop('alice@example.com', 2500)?.action).toBe('remove_track');
+        expect(stack.pop('alice@example.com', 2500)).toBe(null);
+    });
+
+    await test('only the latest operations are kept', () => {
+        const stack = new UndoStack();
+        for (let i = 0; i <= MAX_UNDO_ENTRIES; i++) {
+            stack.push('alice@example.com', { action: 'remove_track', track: track(`T${i}`), index: i }, 2000);
+        }
+        let count = 0;
+        while (stack.pop('alice@example.com', 1000)) count++;
+        expect(count).toBe(MAX_UNDO_ENTRIES);
+    });
+
+    await test('a removed track goes back where it was with its jams', () => {
+        const qm = new QueueManager();
+        ['A', 'B', 'C'].forEach(uri => qm.addTrack(track(uri)));
+        const removed = qm.removeTrack('B')!;
+        removed.jamCounts = { 'bob@example.com': 2 };
+        expect(qm.restoreTrack(removed, 1)).toBe(1);
+        expect(qm.getSubmittedTracks().map(t => t.spotifyUri)).toEqual(['A', 'B', 'C']);
+        expect(qm.getTrack(removed.id!)?.jamCounts).toEqual({ 'bob@example.com': 2 });
+        expect(qm.restoreTrack(track('D'), 99)).toBe(3);
+    });
+
+    await test('a replaced fallback playlist can be put back without loading it again', async () => {
+        const qm = new QueueManager('spotify:playlist:main');
+        await qm.loadFallbackPlaylist('spotify:playlist:main', token);
+        const before = qm.getFallbackTracks().map(t => t.spotifyUri);
+        const state = qm.getFallbackPlaylistState();
+        await qm.loadFallbackPlaylist('spotify:playlist:other', token);
+        qm.setDefaultFallbackPlaylistUrl('spotify:playlist:other');
+        qm.restoreFallbackPlaylistState(state);
+        expect(qm.getFallbackPlaylistUrl()).toBe('spotify:playlist:main');
+        expect(qm.getDefaultFallbackPlaylistUrl()).toBe('spotify:playlist:main');
+        expect(qm.getFallbackTracks().map(t => t.spotifyUri)).toEqual(before);
+    });
+
+    console.log(`\nTest Results: ${passed} passed, ${failed} failed`);
+    return { passed, failed };
+}
+
+// Run tests if this file is executed directly
+if (require.main === module) {
+    runTests().then(({ failed }) => process.exit(failed > 0 ? 1 : 0));
+}
+
+export { runTests };
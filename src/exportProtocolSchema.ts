@@ -0,0 +1,8 @@
+import fs from 'fs';
+import path from 'path';
+import { getProtocolSchemaDocument } from './protocol';
+
+// Write the WebSocket protocol JSON Schema for the frontend: npm run protocol:schema [output file]
+const outFile = path.resolve(process.argv[2] || 'protocol.schema.json');
+fs.writeFileSync(outFile, JSON.stringify(getProtocolSchemaDocument(), null, 2) + '\n');
+console.log(`Wrote ${outFile}`);
@@ -0,0 +1,517 @@
+import crypto from 'crypto';
+import type { SpotifyWebApiClient } from './spotify';
+import type { Clock } from './playbackController';
+
+// Length of generated tracks unless FAKE_SPOTIFY_TRACK_MS says otherwise
+const DEFAULT_TRACK_DURATION_MS = 180000;
+// Lifetime of issued access tokens, as reported in expires_in
+const ACCESS_TOKEN_TTL_S = 3600;
+
+/**
+ * Error shaped like the ones spotify-web-api-node throws (statusCode, body.error)
+ */
+export class FakeSpotifyError extends Error {
+    readonly statusCode: number;
+    readonly body: { error: { status: number; message: string; reason?: string } };
+    readonly headers: Record<string, string> = {};
+
+    constructor(statusCode: number, message: string, reason?: string) {
+        super(message);
+        this.name = 'FakeSpotifyError';
+        this.statusCode = statusCode;
+        this.body = { error: { status: statusCode, message, reason } };
+    }
+}
+
+export interface FakeSpotifyUser {
+    id: string;
+    displayName: string;
+    email: string;
+    activeDeviceId: string | null; // Without an active device player commands that name no device fail with NO_ACTIVE_DEVICE
+}
+
+export interface FakeSpotifyDevice {
+    id: string;
+    name: string;
+    type: string;
+}
+
+export interface FakePlayerState {
+    uri: string | null;
+    positionMs: number;
+    durationMs: number;
+    isPlaying: boolean;
+}
+
+// Player as stored: position is as of updatedAt and advances while playing
+interface FakePlayer extends FakePlayerState {
+    updatedAt: number;
+}
+
+/**
+ * In-memory stand-in for the Spotify service: users, tokens, a generated catalog and one player per user.
+ * Catalog items are derived from their ids, so any id resolves to the same track, album or playlist every time.
+ * Players advance with the clock; at the end of a track they move on to the next queued one, or stop
+ * like Spotify does with nothing queued.
+ */
+export class FakeSpotifyBackend {
+    readonly trackDurationMs: number;
+    private clock: Pick<Clock, 'now'>;
+    private offsetMs = 0;
+    private users = new Map<string, FakeSpotifyUser>();
+    private players = new Map<string, FakePlayer>();
+    private queues = new Map<string, string[]>(); // user id -> URIs added to the player's queue
+    private accessTokens = new Map<string, { userId: string; expiresAt: number }>();
+    private refreshTokens = new Map<string, string>(); // refresh token -> user id
+    private rateLimitedUntil = 0;
+
+    constructor(clock: Pick<Clock, 'now'> = { now: () => Date.now() }, trackDurationMs: number = DEFAULT_TRACK_DURATION_MS) {
+        this.clock = clock;
+        this.trackDurationMs = trackDurationMs;
+    }
+
+    /**
+     * Current time as seen by the fake (the clock plus any advanceTime() calls)
+     */
+    now(): number {
+        return this.clock.now() + this.offsetMs;
+    }
+
+    /**
+     * Move the fake's time forward without waiting, e.g. to play a track to its end
+     */
+    advanceTime(ms: number): void {
+        this.offsetMs += ms;
+    }
+
+    /**
+     * Get a user, creating it on first use (the authorization code is the user id)
+     */
+    getUser(userId: string): FakeSpotifyUser {
+        let user = this.users.get(userId);
+        if (!user) {
+            user = { id: userId, displayName: userId, email: `${userId}@example.com`, activeDeviceId: `${userId}-device` };
+            this.users.set(userId, user);
+        }
+        return user;
+    }
+
+    /**
+     * Every user has the same two Spotify Connect devices; the first is active to begin with
+     */
+    getDevices(userId: string): FakeSpotifyDevice[] {
+        return [
+            { id: `${userId}-device`, name: 'Fake Player', type: 'Computer' },
+            { id: `${userId}-speaker`, name: 'Fake Speaker', type: 'Speaker' },
+        ];
+    }
+
+    setDeviceActive(userId: string, active: boolean): void {
+        this.getUser(userId).activeDeviceId = active ? `${userId}-device` : null;
+    }
+
+    /**
+     * Move the user's player to another of their devices, optionally resuming it there
+     */
+    transferPlayback(userId: string, deviceId: string, play: boolean = false): void {
+        this.requireDevice(userId, deviceId);
+        if (play) this.resume(userId);
+    }
+
+    /**
+     * Issue a new access/refresh token pair for a user
+     */
+    issueTokens(userId: string): { access_token: string; refresh_token: string; expires_in: number } {
+        this.getUser(userId);
+        const refreshToken = `fake-refresh-${crypto.randomBytes(8).toString('hex')}`;
+        this.refreshTokens.set(refreshToken, userId);
+        return { access_token: this.issueAccessToken(userId), refresh_token: refreshToken, expires_in: ACCESS_TOKEN_TTL_S };
+    }
+
+    /**
+     * Exchange a refresh token for a new access token
+     */
+    refresh(refreshToken: string | undefined): { access_token: string; expires_in: number } {
+        const userId = refreshToken ? this.refreshTokens.get(refreshToken) : undefined;
+        if (!userId) {
+            throw new FakeSpotifyError(400, 'Invalid refresh token', 'invalid_grant');
+        }
+        return { access_token: this.issueAccessToken(userId), expires_in: ACCESS_TOKEN_TTL_S };
+    }
+
+    /**
+     * Expire every access token a user holds, so their next call fails until refreshed
+     */
+    expireAccessTokens(userId: string): void {
+        for (const entry of this.accessTokens.values()) {
+            if (entry.userId === userId) entry.expiresAt = 0;
+        }
+    }
+
+    /**
+     * Answer every authenticated call with 429 (and a Retry-After) for the given time
+     */
+    rateLimit(ms: number): void {
+        this.rateLimitedUntil = this.now() + ms;
+    }
+
+    /**
+     * Resolve the user an access token belongs to, failing like Spotify for unknown or expired tokens
+     */
+    authenticate(accessToken: string | undefined): FakeSpotifyUser {
+        const rateLimitedMs = this.rateLimitedUntil - this.now();
+        if (rateLimitedMs > 0) {
+            const error = new FakeSpotifyError(429, 'API rate limit exceeded');
+            error.headers['retry-after'] = String(Math.ceil(rateLimitedMs / 1000));
+            throw error;
+        }
+        const entry = accessToken ? this.accessTokens.get(accessToken) : undefined;
+        if (!entry) {
+            throw new FakeSpotifyError(401, 'Invalid access token');
+        }
+        if (entry.expiresAt <= this.now()) {
+            throw new FakeSpotifyError(401, 'The access token expired');
+        }
+        return this.getUser(entry.userId);
+    }
+
+    /**
+     * Start a track (or episode) from the beginning on a user's player
+     */
+    play(userId: string, uri: string, positionMs: number = 0, deviceId?: string): void {
+        this.requireDevice(userId, deviceId);
+        this.players.set(userId, { uri, positionMs, durationMs: this.trackDurationMs, isPlaying: true, updatedAt: this.now() });
+    }
+
+    /**
+     * Add a track to the user's player queue, to be played when the current one ends
+     */
+    addToQueue(userId: string, uri: string, deviceId?: string): void {
+        this.requireDevice(userId, deviceId);
+        const queue = this.queues.get(userId) || [];
+        queue.push(uri);
+        this.queues.set(userId, queue);
+    }
+
+    /**
+     * Move on to the next queued track right away (the player stops if nothing is queued)
+     */
+    skipToNext(userId: string, deviceId?: string): void {
+        this.requireDevice(userId, deviceId);
+        const next = this.queues.get(userId)?.shift();
+        if (next) {
+            this.play(userId, next);
+        } else {
+            this.pause(userId);
+        }
+    }
+
+    getQueue(userId: string): string[] {
+        return [...(this.queues.get(userId) || [])];
+    }
+
+    /**
+     * Resume whatever the user's player has loaded
+     */
+    resume(userId: string, deviceId?: string): void {
+        this.requireDevice(userId, deviceId);
+        const player = this.settle(userId);
+        if (player && player.uri) {
+            player.isPlaying = true;
+        }
+    }
+
+    pause(userId: string, deviceId?: string): void {
+        this.requireDevice(userId, deviceId);
+        const player = this.settle(userId);
+        if (player) {
+            player.isPlaying = false;
+        }
+    }
+
+    /**
+     * Jump to a position in the current track, e.g. just before its end
+     */
+    seek(userId: string, positionMs: number, deviceId?: string): void {
+        if (deviceId) this.requireDevice(userId, deviceId);
+        const player = this.settle(userId);
+        if (player) {
+            player.positionMs = Math.max(0, Math.min(positionMs, player.durationMs));
+        }
+    }
+
+    /**
+     * Get a user's player state with progress brought up to the current time
+     */
+    getPlayerState(userId: string): FakePlayerState | null {
+        const player = this.settle(userId);
+        return player ? { uri: player.uri, positionMs: player.positionMs, durationMs: player.durationMs, isPlaying: player.isPlaying } : null;
+    }
+
+    /**
+     * Generated track (or episode) for an id; ids containing "explicit" are marked explicit
+     */
+    getTrack(id: string, type: 'track' | 'episode' = 'track') {
+        const artistId = `artist${this.pick(id, 5)}`;
+        const albumId = `album${this.pick(id, 8)}`;
+        return {
+            id,
+            uri: `spotify:${type}:${id}`,
+            type,
+            name: `Fake ${type === 'episode' ? 'Episode' : 'Track'} ${id}`,
+            duration_ms: this.trackDurationMs,
+            explicit: id.includes('explicit'),
+            popularity: this.pick(id, 101),
+            artists: [{ id: artistId, name: `Fake Artist ${artistId}` }],
+            album: { id: albumId, name: `Fake Album ${albumId}`, images: [{ url: `https://fake.spotify.test/${albumId}.jpg` }] },
+        };
+    }
+
+    /**
+     * Generated items of a collection (album, playlist, artist top tracks, show, saved tracks)
+     */
+    getCollectionTracks(collectionId: string, count: number, type: 'track' | 'episode' = 'track') {
+        return Array.from({ length: count }, (_, i) => this.getTrack(`${collectionId}x${i + 1}`, type));
+    }
+
+    private issueAccessToken(userId: string): string {
+        const token = `fake-access-${crypto.randomBytes(8).toString('hex')}`;
+        this.accessTokens.set(token, { userId, expiresAt: this.now() + ACCESS_TOKEN_TTL_S * 1000 });
+        return token;
+    }
+
+    // A command naming a device makes it the active one, like Spotify does; one without needs an active device
+    private requireDevice(userId: string, deviceId?: string): void {
+        const user = this.getUser(userId);
+        if (deviceId) {
+            if (!this.getDevices(userId).some(device => device.id === deviceId)) {
+                throw new FakeSpotifyError(404, 'Device not found');
+            }
+            user.activeDeviceId = deviceId;
+        } else if (!user.activeDeviceId) {
+            throw new FakeSpotifyError(404, 'Player command failed: No active device found', 'NO_ACTIVE_DEVICE');
+        }
+    }
+
+    // Bring a player's position up to now; a track that reaches its end continues into the queue or stops at position 0
+    private settle(userId: string): FakePlayer | undefined {
+        const player = this.players.get(userId);
+        if (!player) return undefined;
+        const now = this.now();
+        if (player.isPlaying) {
+            player.positionMs += now - player.updatedAt;
+            while (player.isPlaying && player.positionMs >= player.durationMs) {
+                const next = this.queues.get(userId)?.shift();
+                if (next) {
+                    player.positionMs -= player.durationMs;
+                    player.uri = next;
+                    player.durationMs = this.trackDurationMs;
+                } else {
+                    player.positionMs = 0;
+                    player.isPlaying = false;
+                }
+            }
+        }
+        player.updatedAt = now;
+        return player;
+    }
+
+    // Stable number in [1, n] derived from an id
+    private pick(id: string, n: number): number {
+        return (crypto.createHash('md5').update(id).digest()[0] % n) + 1;
+    }
+}
+
+// Backend shared by every FakeSpotifyWebApi, so tests running in the same process can inspect and steer it
+export const fakeSpotifyBackend = new FakeSpotifyBackend(
+    undefined,
+    process.env.FAKE_SPOTIFY_TRACK_MS ? parseInt(process.env.FAKE_SPOTIFY_TRACK_MS, 10) : DEFAULT_TRACK_DURATION_MS
+);
+
+function respond<T>(body: T) {
+    return { body, headers: {}, statusCode: 200 };
+}
+
+/**
+ * Drop-in replacement for the spotify-web-api-node client, backed by a FakeSpotifyBackend.
+ * Selected with SPOTIFY_DRIVER=fake for offline development and end-to-end tests.
+ */
+export class FakeSpotifyWebApi implements SpotifyWebApiClient {
+    private backend: FakeSpotifyBackend;
+    private redirectUri: string;
+    private accessToken?: string;
+    private refreshToken?: string;
+
+    constructor(credentials: { redirectUri?: string } = {}, backend: FakeSpotifyBackend = fakeSpotifyBackend) {
+        this.redirectUri = credentials.redirectUri || 'http://localhost:3001/api/spotify/callback';
+        this.backend = backend;
+    }
+
+    setAccessToken(accessToken: string): void {
+        this.accessToken = accessToken;
+    }
+
+    setRefreshToken(refreshToken: string): void {
+        this.refreshToken = refreshToken;
+    }
+
+    // Skips the consent screen: "authorizes" a user called fake-user straight away
+    createAuthorizeURL(scopes: ReadonlyArray<string>, state: string): string {
+        return `${this.redirectUri}?code=fake-user&state=${encodeURIComponent(state)}`;
+    }
+
+    // The authorization code is used as the user id
+    async authorizationCodeGrant(code: string): Promise<any> {
+        return respond(this.backend.issueTokens(code));
+    }
+
+    async refreshAccessToken(): Promise<any> {
+        return respond(this.backend.refresh(this.refreshToken));
+    }
+
+    async getMe(): Promise<any> {
+        const user = this.backend.authenticate(this.accessToken);
+        return respond({ id: user.id, display_name: user.displayName, email: user.email });
+    }
+
+    async getTrack(trackId: string): Promise<any> {
+        this.backend.authenticate(this.accessToken);
+        return respond(this.backend.getTrack(trackId));
+    }
+
+    async getEpisode(episodeId: string): Promise<any> {
+        this.backend.authenticate(this.accessToken);
+        const episode = this.backend.getTrack(episodeId, 'episode');
+        return respond({ ...episode, images: [], show: this.getShowBody(`show${episode.album.id}`) });
+    }
+
+    async play(options: { uris?: ReadonlyArray<string>; position_ms?: number; device_id?: string } = {}): Promise<any> {
+        const user = this.backend.authenticate(this.accessToken);
+        if (options.uris && options.uris.length > 0) {
+            this.backend.play(user.id, options.uris[0], options.position_ms, options.device_id);
+        } else {
+            this.backend.resume(user.id, options.device_id);
+        }
+        return respond({});
+    }
+
+    async pause(options: { device_id?: string } = {}): Promise<any> {
+        const user = this.backend.authenticate(this.accessToken);
+        this.backend.pause(user.id, options.device_id);
+        return respond({});
+    }
+
+    async seek(positionMs: number, options: { device_id?: string } = {}): Promise<any> {
+        const user = this.backend.authenticate(this.accessToken);
+        this.backend.seek(user.id, positionMs, options.device_id);
+        return respond({});
+    }
+
+    async addToQueue(uri: string, options: { device_id?: string } = {}): Promise<any> {
+        const user = this.backend.authenticate(this.accessToken);
+        this.backend.addToQueue(user.id, uri, options.device_id);
+        return respond({});
+    }
+
+    async skipToNext(options: { device_id?: string } = {}): Promise<any> {
+        const user = this.backend.authenticate(this.accessToken);
+        this.backend.skipToNext(user.id, options.device_id);
+        return respond({});
+    }
+
+    async getMyDevices(): Promise<any> {
+        const user = this.backend.authenticate(this.accessToken);
+        return respond({
+            devices: this.backend.getDevices(user.id).map(device => ({
+                ...device,
+                is_active: device.id === user.activeDeviceId,
+                is_private_session: false,
+                is_restricted: false,
+                volume_percent: 100,
+            })),
+        });
+    }
+
+    async transferMyPlayback(deviceIds: ReadonlyArray<string>, options: { play?: boolean } = {}): Promise<any> {
+        const user = this.backend.authenticate(this.accessToken);
+        this.backend.transferPlayback(user.id, deviceIds[0], options.play);
+        return respond({});
+    }
+
+    async getMyCurrentPlaybackState(): Promise<any> {
+        const user = this.backend.authenticate(this.accessToken);
+        const state = this.backend.getPlayerState(user.id);
+        // Spotify answers 204 with no body when nothing is loaded
+        if (!state || !state.uri) return respond({});
+        const [, type, id] = state.uri.split(':');
+        const item = this.backend.getTrack(id, type === 'episode' ? 'episode' : 'track');
+        return respond({
+            is_playing: state.isPlaying,
+            progress_ms: state.positionMs,
+            item: { ...item, duration_ms: state.durationMs },
+            device: this.getActiveDevice(user),
+        });
+    }
+
+    async getMySavedTracks(options: { limit?: number } = {}): Promise<any> {
+        const user = this.backend.authenticate(this.accessToken);
+        const tracks = this.backend.getCollectionTracks(`saved${user.id.replace(/[^a-zA-Z0-9]/g, '')}`, Math.min(options.limit || 20, 20));
+        return respond({ items: tracks.map(track => ({ added_at: new Date(0).toISOString(), track })), total: tracks.length });
+    }
+
+    async getPlaylist(playlistId: string): Promise<any> {
+        this.backend.authenticate(this.accessToken);
+        return respond({
+            id: playlistId,
+            name: `Fake Playlist ${playlistId}`,
+            description: 'Generated by the fake Spotify backend',
+            owner: { display_name: 'Fake Owner' },
+            tracks: { total: 10 },
+            images: [],
+        });
+    }
+
+    async getPlaylistTracks(playlistId: string, options: { offset?: number; limit?: number } = {}): Promise<any> {
+        this.backend.authenticate(this.accessToken);
+        const offset = options.offset || 0;
+        const tracks = this.backend.getCollectionTracks(playlistId, 10).slice(offset, offset + (options.limit || 100));
+        return respond({ items: tracks.map(track => ({ track })), offset, total: 10 });
+    }
+
+    async getAlbum(albumId: string): Promise<any> {
+        this.backend.authenticate(this.accessToken);
+        const tracks = this.backend.getCollectionTracks(albumId, 6);
+        return respond({ id: albumId, name: `Fake Album ${albumId}`, images: [], tracks: { items: tracks, total: tracks.length } });
+    }
+
+    async getAlbumTracks(albumId: string, options: { offset?: number; limit?: number } = {}): Promise<any> {
+        this.backend.authenticate(this.accessToken);
+        const offset = options.offset || 0;
+        return respond({ items: this.backend.getCollectionTracks(albumId, 6).slice(offset, offset + (options.limit || 50)) });
+    }
+
+    async getArtistTopTracks(artistId: string): Promise<any> {
+        this.backend.authenticate(this.accessToken);
+        return respond({ tracks: this.backend.getCollectionTracks(artistId, 10) });
+    }
+
+    async getShow(showId: string): Promise<any> {
+        this.backend.authenticate(this.accessToken);
+        return respond(this.getShowBody(showId));
+    }
+
+    async getShowEpisodes(showId: string, options: { limit?: number } = {}): Promise<any> {
+        this.backend.authenticate(this.accessToken);
+        const episodes = this.backend.getCollectionTracks(showId, 8, 'episode').map(episode => ({ ...episode, images: [] }));
+        return respond({ items: episodes.slice(0, options.limit || 20) });
+    }
+
+    private getActiveDevice(user: FakeSpotifyUser) {
+        const device = this.backend.getDevices(user.id).find(d => d.id === user.activeDeviceId);
+        return device ? { ...device, is_active: true } : null;
+    }
+
+    private getShowBody(showId: string) {
+        return { id: showId, name: `Fake Show ${showId}`, publisher: 'Fake Publisher', images: [] };
+    }
+}
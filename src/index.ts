@@ -4,10 +4,16 @@ import { WebSocketServer, WebSocket } from 'ws';
 import { v4 as uuidv4 } from 'uuid';
 import dotenv from 'dotenv';
 import logger from './logger';
-import { createSpotifyRouter, getSpotifyTrackInfo, spotifyDelegate } from './spotify';
-import { QueueManager, SubmittedTrack } from './queueManager';
-import fs from 'fs';
-import path from 'path';
+import { createSpotifyRouter, getSpotifyTrackInfo, spotifyDelegate, SpotifyDevice } from './spotify';
+import { DEFAULT_CONTENT_FILTER, DEFAULT_FALLBACK_SOURCES, DEFAULT_NO_REPEAT, DUPLICATE_POLICIES, DuplicatePolicy, FallbackScheduleEntry, FallbackSource, NoRepeatSettings, PlayedTrack, QueueManager, QueueOrderingPolicy, ReorderError, ReorderOptions, ReorderResult, SubmissionLimits, SubmissionQuota, SubmittedTrack } from './queueManager';
+import { Room, RoomManager } from './roomManager';
+import { DEFAULT_ROOM_ID } from './roomIds';
+import { PlaybackController, PlaybackTarget, PollCadence, TrackEvent, FollowerSyncStatus, DEFAULT_POLL_INTERVALS, DEFAULT_FOLLOWER_SYNC } from './playbackController';
+import { createStorage } from './storage';
+import { PermissionManager, PermissionAction, Role } from './permissions';
+import { UndoEntry } from './undoStack';
+import { publicSessionId, signSessionToken, verifySessionToken } from './sessionToken';
+import { LoginMessage, Message, ProtocolErrorCode, UNAUTHENTICATED_MESSAGE_TYPES, PROTOCOL_VERSION, validateInboundMessage, validateOutboundMessage, negotiateProtocolVersion, getProtocolSchemaDocument } from './protocol';
 import http from 'http';
 // Import types if available
 // import { SpotifyApi } from 'spotify-web-api-node';
@@ -30,121 +36,10 @@ interface Session {
     userId: string | null;
     state: Record<string, any>;
     lastHeartbeat: number;
+    roomId: string;
+    connectedAt?: number; // When the current WebSocket was bound (seniority in master failover)
 }
 
-interface HistoryEvent {
-    type: 'track_added' | 'jam' | 'unjam' | 'airhorn' | 'fallback_play' | 'track_play' | 'user_connected' | 'user_disconnected' | 'message' | 'track_skip';
-    timestamp: number;
-    userName: string;
-    userEmail: string;
-    details: any;
-}
-
-interface PlayHistoryEntry {
-    timestamp: number;
-    track: any;
-    startedBy?: string;
-}
-
-// Message interfaces for each type
-interface LoginMessage {
-    type: 'login';
-    userId: string;
-}
-
-interface GenericMessage {
-    type: 'message';
-    message: string;
-}
-
-interface PlayTrackMessage {
-    type: 'play_track';
-    trackId: string;
-}
-
-interface GetTracksMessage {
-    type: 'get_tracks';
-}
-
-interface JamMessage {
-    type: 'jam';
-    spotifyUri: string;
-    sessionId: string;
-    unjam?: boolean; // true for shift-click to unjam
-}
-
-interface PlayMessage {
-    type: 'master_play';
-}
-
-interface PauseMessage {
-    type: 'master_pause';
-}
-
-interface SessionPlayMessage {
-    type: 'session_play';
-    sessionId: string;
-}
-
-interface SessionPauseMessage {
-    type: 'session_pause';
-    sessionId: string;
-}
-
-interface GetSessionsMessage {
-    type: 'get_sessions';
-}
-
-interface RemoveTrackMessage {
-    type: 'remove_track';
-    spotifyUri: string;
-    sessionId: string;
-}
-
-interface DelayTrackMessage {
-    type: 'delay_track';
-    spotifyUri: string;
-    sessionId: string;
-}
-
-interface AirhornMessage {
-    type: 'airhorn';
-    airhorn: string;
-}
-
-interface GetPlayHistoryMessage {
-    type: 'get_play_history';
-}
-
-interface MasterSkipMessage {
-    type: 'master_skip';
-    sessionId: string;
-}
-
-interface StartFallbackMessage {
-    type: 'start_fallback';
-    sessionId: string;
-}
-
-interface TakeMasterControlMessage {
-    type: 'take_master_control';
-    sessionId: string;
-}
-
-interface HistoryMessageMessage {
-    type: 'history_message';
-    message: string;
-    sessionId: string;
-}
-
-interface PingMessage {
-    type: 'ping';
-    sessionId: string;
-}
-
-// Union type for all messages
-type Message = LoginMessage | GenericMessage | PlayTrackMessage | GetTracksMessage | JamMessage | PlayMessage | PauseMessage | SessionPlayMessage | SessionPauseMessage | GetSessionsMessage | RemoveTrackMessage | DelayTrackMessage | AirhornMessage | GetPlayHistoryMessage | MasterSkipMessage | StartFallbackMessage | TakeMasterControlMessage | HistoryMessageMessage | PingMessage;
-
 // Middleware
 // CORS configuration - must be before other middleware
 app.use((req: Request, res: Response, next: NextFunction) => {
@@ -158,7 +53,8 @@ app.use((req: Request, res: Response, next: NextFunction) => {
     
     res.header('Access-Control-Allow-Origin', '*');
     res.header('Access-Control-Allow-Methods', 'GET, POST, PUT, DELETE, OPTIONS, PATCH');
-    res.header('Access-Control-Allow-Headers', '*');
+    // Authorization is not covered by the wildcard
+    res.header('Access-Control-Allow-Headers', '*, Authorization');
     res.header('Access-Control-Max-Age', '86400');
     
     // Handle preflight
@@ -176,49 +72,72 @@ app.use(express.json());
 const sessions = new Map<string, Session>();
 const sessionCleanupTimers = new Map<string, NodeJS.Timeout>();
 
-// Queue manager handles all track queuing logic
-const queueManager = new QueueManager(process.env.FALLBACK_PLAYLIST_URL);
+// Rooms: each one has its own queue manager, master user, playback state and history
+const QUEUE_ORDERING_POLICY: QueueOrderingPolicy = process.env.QUEUE_ORDERING_POLICY === 'jam_weighted' ? 'jam_weighted' : 'fair';
+const JAM_MAX_PROMOTION = process.env.JAM_MAX_PROMOTION ? parseInt(process.env.JAM_MAX_PROMOTION, 10) : undefined;
+// How long (minutes) a played track is kept from coming back, and whether submissions of it are rejected or only warned about
+const NO_REPEAT: Partial<NoRepeatSettings> = {
+    windowMinutes: process.env.NO_REPEAT_WINDOW_MINUTES ? parseFloat(process.env.NO_REPEAT_WINDOW_MINUTES) : undefined,
+    submissions: process.env.NO_REPEAT_SUBMISSIONS === 'reject' ? 'reject' : undefined,
+};
+// The no-repeat settings a new room starts with
+const NEW_ROOM_NO_REPEAT: NoRepeatSettings = {
+    windowMinutes: NO_REPEAT.windowMinutes !== undefined && NO_REPEAT.windowMinutes >= 0 ? NO_REPEAT.windowMinutes : DEFAULT_NO_REPEAT.windowMinutes,
+    submissions: NO_REPEAT.submissions || DEFAULT_NO_REPEAT.submissions,
+};
+// Per-user submission limits (0 or unset leaves a limit off)
+const SUBMISSION_LIMITS: Partial<SubmissionLimits> = {
+    maxPendingPerUser: process.env.MAX_PENDING_TRACKS_PER_USER ? parseInt(process.env.MAX_PENDING_TRACKS_PER_USER, 10) : undefined,
+    maxPerWindow: process.env.SUBMISSIONS_PER_WINDOW ? parseInt(process.env.SUBMISSIONS_PER_WINDOW, 10) : undefined,
+    windowMinutes: process.env.SUBMISSION_WINDOW_MINUTES ? parseFloat(process.env.SUBMISSION_WINDOW_MINUTES) : undefined,
+    cooldownSeconds: process.env.SUBMISSION_COOLDOWN_SECONDS ? parseFloat(process.env.SUBMISSION_COOLDOWN_SECONDS) : undefined,
+};
+// What happens when a track that is already queued is submitted again: reject (default), merge (as a jam) or allow
+const DUPLICATE_POLICY: DuplicatePolicy | undefined = DUPLICATE_POLICIES.find(policy => policy === process.env.DUPLICATE_TRACKS);
+// Polling intervals for master playback state (ms): normal around track changes, fast near a track's end, slow mid-track and paused
+const POLL_INTERVAL_MS = process.env.POLL_INTERVAL_MS ? parseInt(process.env.POLL_INTERVAL_MS, 10) : DEFAULT_POLL_INTERVALS.normalMs;
+const POLL_INTERVALS = {
+    normalMs: POLL_INTERVAL_MS,
+    fastMs: process.env.POLL_INTERVAL_FAST_MS ? parseInt(process.env.POLL_INTERVAL_FAST_MS, 10) : Math.min(DEFAULT_POLL_INTERVALS.fastMs, POLL_INTERVAL_MS),
+    slowMs: process.env.POLL_INTERVAL_SLOW_MS ? parseInt(process.env.POLL_INTERVAL_SLOW_MS, 10) : Math.max(DEFAULT_POLL_INTERVALS.slowMs, POLL_INTERVAL_MS),
+};
+// How often session_play followers are checked against the master, and how much drift (ms) is corrected with a seek
+const FOLLOWER_SYNC = {
+    intervalMs: process.env.FOLLOWER_SYNC_INTERVAL_MS ? parseInt(process.env.FOLLOWER_SYNC_INTERVAL_MS, 10) : DEFAULT_FOLLOWER_SYNC.intervalMs,
+    driftThresholdMs: process.env.FOLLOWER_DRIFT_THRESHOLD_MS ? parseInt(process.env.FOLLOWER_DRIFT_THRESHOLD_MS, 10) : DEFAULT_FOLLOWER_SYNC.driftThresholdMs,
+};
+// How often rooms check whether a scheduled fallback playlist window started or ended
+const FALLBACK_SCHEDULE_CHECK_INTERVAL_MS = process.env.FALLBACK_SCHEDULE_CHECK_INTERVAL_MS ? parseInt(process.env.FALLBACK_SCHEDULE_CHECK_INTERVAL_MS, 10) : 60000;
+// How long the master has to answer a request_master before it is approved for them
+const MASTER_REQUEST_TIMEOUT_MS = process.env.MASTER_REQUEST_TIMEOUT_MS ? parseInt(process.env.MASTER_REQUEST_TIMEOUT_MS, 10) : 30000;
+// How long a remove, delay, skip or fallback playlist replacement can be undone by the user who did it
+const UNDO_WINDOW_MS = process.env.UNDO_WINDOW_MS ? parseInt(process.env.UNDO_WINDOW_MS, 10) : 60000;
+const roomManager = new RoomManager({
+    fallbackUrl: process.env.FALLBACK_PLAYLIST_URL,
+    orderingPolicy: QUEUE_ORDERING_POLICY,
+    maxJamPromotion: JAM_MAX_PROMOTION,
+    noRepeat: NO_REPEAT,
+    submissionLimits: SUBMISSION_LIMITS,
+    duplicatePolicy: DUPLICATE_POLICY,
+    createPlayback: createRoomPlayback
+});
+
+// Helper to get the room a session belongs to (falls back to the default room)
+function getSessionRoom(sessionId: string | null | undefined): Room {
+    const session = sessionId ? sessions.get(sessionId) : undefined;
+    return (session && roomManager.getRoom(session.roomId)) || roomManager.getDefaultRoom();
+}
 
-// Global playback mode state
-let mode: 'master_play' | 'master_pause' = 'master_pause';
+// Helper to list the sessions that are members of a room
+function getRoomSessions(room: Room): [string, Session][] {
+    return Array.from(sessions.entries()).filter(([, session]) => session.roomId === room.id);
+}
 
 // Per-session playback mode
 const sessionModes = new Map<string, 'session_play' | 'session_pause'>();
 
-// Shared currently playing track
-let currentlyPlayingTrack: SubmittedTrack | null = null;
-let currentTrackIsFallback: boolean = false;
-let currentTrackConsumed: boolean = false; // Track whether current track was removed from queue
-
-// Shared master user state
-let masterUserSessionId: string | null = null;
-let lastMasterPlaybackState: 'play' | 'pause' | null = null;
-let masterTrackStarted: boolean = false;
-
-// Track previous playback state for robust track-end detection
-let lastPlaybackState: {
-    uri: string | null;
-    progress_ms: number | null;
-    duration_ms: number | null;
-    is_playing: boolean | null;
-} | null = null;
-
-// Track when we last commanded a track change (to allow grace period)
-let lastTrackChangeCommand: number = 0;
-const TRACK_CHANGE_GRACE_PERIOD_MS = 3000; // 3 seconds for Spotify to respond
-// Additional guard to suppress end detection right after manual skip
-let lastManualSkipAt: number = 0;
-
-// Playback failure tracking
-let playbackFailureCheckTime: number = 0;
-let expectedPlayingUri: string | null = null;
-const PLAYBACK_FAILURE_TIMEOUT_MS = 5000; // 5 seconds to detect playback failure
-
-// Event history
-const history: HistoryEvent[] = [];
-
-// Play history
-const playHistory: PlayHistoryEntry[] = [];
+// Votes needed for vote_skip: >= 1 is an absolute number of users, < 1 a fraction of active users
+const VOTE_SKIP_THRESHOLD = process.env.VOTE_SKIP_THRESHOLD ? parseFloat(process.env.VOTE_SKIP_THRESHOLD) : 0.5;
 
 // Spotify API setup
 // const spotifyApi = new SpotifyWebApi({
@@ -227,120 +146,222 @@ const playHistory: PlayHistoryEntry[] = [];
 //     redirectUri: process.env.SPOTIFY_REDIRECT_URI,
 // });
 
-// JSON persistence for submittedTracks, sessions, and history
+// Persistence for submittedTracks, sessions, rooms, history and play history
 // Use DATA_DIR environment variable if set, otherwise use __dirname for local development
 const DATA_DIR = process.env.DATA_DIR || __dirname;
-const TRACKS_FILE = path.join(DATA_DIR, 'tracks.json');
-const SESSIONS_FILE = path.join(DATA_DIR, 'sessions.json');
-const HISTORY_FILE = path.join(DATA_DIR, 'history.json');
+const storage = createStorage(DATA_DIR);
+const permissions = new PermissionManager();
 const MAX_HISTORY_EVENTS = 500;
-function saveTracksToFile() {
-    try {
-        fs.writeFileSync(TRACKS_FILE, JSON.stringify(queueManager.getSubmittedTracks(), null, 2));
-    } catch (err) {
-        logger.error('Failed to save tracks to file:', err);
+const MAX_PLAY_HISTORY_ENTRIES = 500;
+
+function saveTracks(room: Room) {
+    storage.saveTracks(room.id, room.queueManager.getSubmittedTracks());
+}
+
+function saveHistory(room: Room) {
+    // Keep only the last MAX_HISTORY_EVENTS
+    storage.saveHistory(room.id, room.history.slice(-MAX_HISTORY_EVENTS));
+}
+
+async function loadHistory(room: Room) {
+    const arr = await storage.loadHistory(room.id);
+    // Load history events, keeping only the last MAX_HISTORY_EVENTS
+    room.history.push(...arr.slice(-MAX_HISTORY_EVENTS));
+    if (arr.length > 0) {
+        logger.info(`Loaded ${room.history.length} history events for room ${room.id}`);
     }
 }
 
-function saveHistoryToFile() {
-    try {
-        // Keep only the last MAX_HISTORY_EVENTS
-        const historyToSave = history.slice(-MAX_HISTORY_EVENTS);
-        fs.writeFileSync(HISTORY_FILE, JSON.stringify(historyToSave, null, 2));
-    } catch (err) {
-        logger.error('Failed to save history to file:', err);
+function savePlayHistory(room: Room) {
+    storage.savePlayHistory(room.id, room.playHistory.slice(-MAX_PLAY_HISTORY_ENTRIES));
+}
+
+async function loadPlayHistory(room: Room) {
+    const arr = await storage.loadPlayHistory(room.id);
+    room.playHistory.push(...arr.slice(-MAX_PLAY_HISTORY_ENTRIES));
+    if (arr.length > 0) {
+        logger.info(`Loaded ${room.playHistory.length} play history entries for room ${room.id}`);
     }
 }
 
-function loadHistoryFromFile() {
-    if (fs.existsSync(HISTORY_FILE)) {
-        try {
-            const data = fs.readFileSync(HISTORY_FILE, 'utf-8');
-            const arr = JSON.parse(data);
-            if (Array.isArray(arr)) {
-                // Load history events, keeping only the last MAX_HISTORY_EVENTS
-                history.push(...arr.slice(-MAX_HISTORY_EVENTS));
-                logger.info(`Loaded ${history.length} history events from file`);
-            }
-        } catch (err) {
-            logger.error('Failed to load history from file:', err);
+// Whether a room's fallback schedule, sources, content filter, no-repeat settings or duplicate policy differ from a fresh room's
+function hasRoomSettings(room: Room): boolean {
+    return room.queueManager.getFallbackSchedule().length > 0
+        || JSON.stringify(room.queueManager.getFallbackSources()) !== JSON.stringify(DEFAULT_FALLBACK_SOURCES)
+        || JSON.stringify(room.queueManager.getContentFilter()) !== JSON.stringify(DEFAULT_CONTENT_FILTER)
+        || JSON.stringify(room.queueManager.getNoRepeatSettings()) !== JSON.stringify(NEW_ROOM_NO_REPEAT)
+        || room.queueManager.getDuplicatePolicy() !== (DUPLICATE_POLICY || 'reject');
+}
+
+// Persist the list of non-default rooms so they survive restarts (the default room only for its settings)
+function saveRooms() {
+    storage.saveRooms(roomManager.getRooms()
+        .filter(room => room.id !== DEFAULT_ROOM_ID || hasRoomSettings(room))
+        .map(room => ({
+            id: room.id,
+            name: room.name,
+            ...(room.createdBy ? { createdBy: room.createdBy } : {}),
+            fallbackPlaylistUrl: room.queueManager.getDefaultFallbackPlaylistUrl(),
+            fallbackSchedule: room.queueManager.getFallbackSchedule(),
+            fallbackSources: room.queueManager.getFallbackSources(),
+            contentFilter: room.queueManager.getContentFilter(),
+            noRepeat: room.queueManager.getNoRepeatSettings(),
+            duplicatePolicy: room.queueManager.getDuplicatePolicy()
+        })));
+}
+
+async function loadRooms() {
+    const arr = await storage.loadRooms();
+    for (const r of arr) {
+        // The default room already exists, with its playlist from FALLBACK_PLAYLIST_URL
+        const room = roomManager.getRoom(r.id) || roomManager.createRoom(r.id, r.name, r.fallbackPlaylistUrl);
+        if (room && r.createdBy) {
+            room.createdBy = r.createdBy;
+        }
+        room?.queueManager.setFallbackSchedule(r.fallbackSchedule || []);
+        if (r.fallbackSources && r.fallbackSources.length > 0) {
+            room?.queueManager.setFallbackSources(r.fallbackSources);
+        }
+        if (r.contentFilter) {
+            room?.queueManager.setContentFilter(r.contentFilter);
+        }
+        if (r.noRepeat) {
+            room?.queueManager.setNoRepeatSettings(r.noRepeat);
+        }
+        if (r.duplicatePolicy) {
+            room?.queueManager.setDuplicatePolicy(r.duplicatePolicy);
         }
     }
+    if (arr.length > 0) {
+        logger.info(`Loaded ${arr.length} rooms from ${storage.kind} storage`);
+    }
 }
-async function loadTracksFromFile() {
-    if (fs.existsSync(TRACKS_FILE)) {
-        try {
-            const data = fs.readFileSync(TRACKS_FILE, 'utf-8');
-            const arr = JSON.parse(data);
-            if (Array.isArray(arr)) {
-                const loadedTracks: SubmittedTrack[] = [];
-                let needsMigration = false;
-                for (const t of arr) {
-                    // Migration: convert sessionId to userEmail if needed
-                    if (t.sessionId && !t.userEmail) {
-                        needsMigration = true;
-                        // Try to find the session to get the email
-                        const session = sessions.get(t.sessionId);
-                        if (session) {
-                            const email = session.state?.spotify?.email || session.state?.listener?.email;
-                            if (email) {
-                                t.userEmail = email;
-                                delete t.sessionId;
-                            } else {
-                                // If we can't find the email, use a placeholder
-                                t.userEmail = 'unknown@migration.com';
-                                delete t.sessionId;
-                            }
-                        } else {
-                            // Session not found, use placeholder
-                            t.userEmail = 'unknown@migration.com';
-                            delete t.sessionId;
-                        }
+
+function getFallbackScheduleState(room: Room) {
+    return {
+        schedule: room.queueManager.getFallbackSchedule(),
+        activeEntry: room.queueManager.getActiveScheduleEntry(),
+        defaultPlaylistUrl: room.queueManager.getDefaultFallbackPlaylistUrl(),
+        fallbackPlaylist: room.queueManager.getFallbackInfo()
+    };
+}
+
+// A validated schedule entry from a request, keeping only known fields and giving it an id if it has none
+function toScheduleEntry(entry: any): FallbackScheduleEntry {
+    return {
+        id: typeof entry.id === 'string' && entry.id ? entry.id : uuidv4(),
+        playlistUrl: entry.playlistUrl,
+        startTime: entry.startTime,
+        endTime: entry.endTime,
+        ...(entry.days !== undefined ? { days: entry.days } : {}),
+        ...(entry.label !== undefined ? { label: entry.label } : {})
+    };
+}
+
+async function updateFallbackSchedule(room: Room, schedule: FallbackScheduleEntry[]) {
+    room.queueManager.setFallbackSchedule(schedule);
+    saveRooms();
+    await refreshScheduledFallback(room);
+    broadcastMode(room);
+}
+
+// Load the playlist of the fallback schedule's active window if it changed (needs the master's token)
+async function refreshScheduledFallback(room: Room) {
+    const masterSession = room.masterUserSessionId ? sessions.get(room.masterUserSessionId) : null;
+    const accessToken = masterSession?.state?.spotify?.access_token;
+    if (!accessToken) return;
+    if (await room.queueManager.refreshScheduledFallback(accessToken)) {
+        broadcastMode(room);
+        broadcastTrackList(room);
+    }
+}
+
+async function loadTracks(room: Room) {
+    try {
+        const arr: any[] = await storage.loadTracks(room.id);
+        const loadedTracks: SubmittedTrack[] = [];
+        let needsMigration = false;
+        for (const t of arr) {
+            // Migration: convert sessionId to userEmail if needed
+            if (t.sessionId && !t.userEmail) {
+                needsMigration = true;
+                // Try to find the session to get the email
+                const session = sessions.get(t.sessionId);
+                if (session) {
+                    const email = session.state?.spotify?.email || session.state?.listener?.email;
+                    if (email) {
+                        t.userEmail = email;
+                        delete t.sessionId;
+                    } else {
+                        // If we can't find the email, use a placeholder
+                        t.userEmail = 'unknown@migration.com';
+                        delete t.sessionId;
                     }
-                    
-                    // Migration: fetch missing album art
-                    if (t.spotifyUri && !t.albumArtUrl && t.name && t.artist) {
-                        needsMigration = true;
-                        logger.info(`Fetching missing album art for: ${t.name}`);
-                        const masterSession = masterUserSessionId ? sessions.get(masterUserSessionId) : null;
-                        const masterAccessToken = masterSession?.state?.spotify?.access_token;
-                        if (masterAccessToken) {
-                            try {
-                                const match = t.spotifyUri.match(/spotify:track:([a-zA-Z0-9]+)/);
-                                const trackId = match ? match[1] : t.spotifyUri;
-                                const trackInfo = await getSpotifyTrackInfo(masterAccessToken, trackId);
-                                if (trackInfo.albumArtUrl) {
-                                    t.albumArtUrl = trackInfo.albumArtUrl;
-                                    logger.info(`✓ Added album art for: ${t.name}`);
-                                }
-                            } catch (err) {
-                                logger.warn(`Failed to fetch album art for ${t.name}:`, err);
-                            }
+                } else {
+                    // Session not found, use placeholder
+                    t.userEmail = 'unknown@migration.com';
+                    delete t.sessionId;
+                }
+            }
+            
+            // Migration: fetch missing album art
+            if (t.spotifyUri && !t.albumArtUrl && t.name && t.artist) {
+                needsMigration = true;
+                logger.info(`Fetching missing album art for: ${t.name}`);
+                const masterSession = room.masterUserSessionId ? sessions.get(room.masterUserSessionId) : null;
+                const masterAccessToken = masterSession?.state?.spotify?.access_token;
+                if (masterAccessToken) {
+                    try {
+                        const match = t.spotifyUri.match(/spotify:track:([a-zA-Z0-9]+)/);
+                        const trackId = match ? match[1] : t.spotifyUri;
+                        const trackInfo = await getSpotifyTrackInfo(masterAccessToken, trackId);
+                        if (trackInfo.albumArtUrl) {
+                            t.albumArtUrl = trackInfo.albumArtUrl;
+                            logger.info(`✓ Added album art for: ${t.name}`);
                         }
+                    } catch (err) {
+                        logger.warn(`Failed to fetch album art for ${t.name}:`, err);
                     }
-                    
-                    loadedTracks.push(t);
-                }
-                queueManager.setSubmittedTracks(loadedTracks);
-                // Save the migrated tracks back to file
-                if (needsMigration) {
-                    saveTracksToFile();
-                    logger.info('Migrated tracks: updated userEmail and album art');
                 }
             }
-        } catch (err) {
-            logger.error('Failed to load tracks from file:', err);
+            
+            loadedTracks.push(t);
+        }
+        room.queueManager.setSubmittedTracks(loadedTracks);
+        // Save the migrated tracks back to storage
+        if (needsMigration) {
+            saveTracks(room);
+            logger.info('Migrated tracks: updated userEmail and album art');
+        }
+    } catch (err) {
+        logger.error(`Failed to load tracks for room ${room.id}:`, err);
+    }
+}
+
+// Send a protocol message; in debug mode payloads are checked against the outbound schemas
+function sendMessage(ws: WebSocket, payload: { type: string; [key: string]: unknown }) {
+    if (isDebug()) {
+        const problems = validateOutboundMessage(payload);
+        if (problems.length > 0) {
+            logger.warn(`Outbound ${payload.type} message does not match its schema: ${problems.join('; ')}`);
         }
     }
+    ws.send(JSON.stringify(payload));
+}
+
+// Reply to a rejected message with a structured error frame
+function sendError(ws: WebSocket, code: ProtocolErrorCode, error: string, messageType?: string) {
+    sendMessage(ws, { type: 'error', code, error, ...(messageType ? { messageType } : {}) });
 }
 
 // Helper to build track list with fallback tracks when needed
-function getDisplayTrackList() {
-    const submittedTracks = queueManager.getSubmittedTracks();
-    const fallbackInfo = queueManager.getFallbackInfo();
+function getDisplayTrackList(room: Room) {
+    const submittedTracks = room.queueManager.getSubmittedTracks();
+    const fallbackInfo = room.queueManager.getFallbackInfo();
     
     // Start with user-submitted tracks (marked as not fallback)
     const trackList = submittedTracks.map(t => ({
+        id: t.id,
         spotifyUri: t.spotifyUri,
         userEmail: t.userEmail,
         spotifyName: t.spotifyName,
@@ -348,6 +369,9 @@ function getDisplayTrackList() {
         artist: t.artist,
         album: t.album,
         albumArtUrl: t.albumArtUrl,
+        explicit: t.explicit,
+        durationMs: t.durationMs,
+        artistIds: t.artistIds,
         jammers: t.jammers || [],
         jamCounts: t.jamCounts || {},
         isFallback: false
@@ -355,19 +379,23 @@ function getDisplayTrackList() {
     
     // If we have fewer than 10 user tracks, add fallback tracks to reach 10
     if (submittedTracks.length < 10 && fallbackInfo) {
-        const fallbackTracks = queueManager.getFallbackTracks();
+        const fallbackTracks = room.queueManager.getFallbackTracks();
         const neededFallbackCount = Math.min(10 - submittedTracks.length, fallbackTracks.length);
         
         for (let i = 0; i < neededFallbackCount; i++) {
             const fallbackTrack = fallbackTracks[i];
             trackList.push({
+                id: fallbackTrack.id,
                 spotifyUri: fallbackTrack.spotifyUri,
                 userEmail: '',
-                spotifyName: fallbackInfo.name || 'Fallback Playlist',
+                spotifyName: fallbackTrack.spotifyName || fallbackInfo.name || 'Fallback Playlist',
                 name: fallbackTrack.name,
                 artist: fallbackTrack.artist,
                 album: fallbackTrack.album,
                 albumArtUrl: fallbackTrack.albumArtUrl,
+                explicit: fallbackTrack.explicit,
+                durationMs: fallbackTrack.durationMs,
+                artistIds: fallbackTrack.artistIds,
                 jammers: fallbackTrack.jammers || [],
                 jamCounts: fallbackTrack.jamCounts || {},
                 isFallback: true
@@ -379,60 +407,328 @@ function getDisplayTrackList() {
 }
 
 // Helper to broadcast the full track list to all connected clients
-function broadcastTrackList() {
-    const trackList = getDisplayTrackList();
+function broadcastTrackList(room: Room) {
+    const trackList = getDisplayTrackList(room);
     
     logger.info('=== BROADCASTING TRACK LIST ===', {
-        userTracks: queueManager.getSubmittedCount(),
-        fallbackTracksAdded: trackList.length - queueManager.getSubmittedCount(),
+        userTracks: room.queueManager.getSubmittedCount(),
+        fallbackTracksAdded: trackList.length - room.queueManager.getSubmittedCount(),
         totalTracks: trackList.length,
         totalSessions: sessions.size,
     });
     
     let broadcastCount = 0;
-    for (const [sessionId, session] of sessions.entries()) {
+    for (const [sessionId, session] of getRoomSessions(room)) {
         if (!session.ws || session.ws.readyState !== 1) { // 1 = OPEN
             logger.info(`Skipping broadcast to session ${sessionId} (WebSocket not open, state: ${session.ws?.readyState})`);
             // Do NOT remove closed sessions here; let the cleanup timer handle it
             continue;
         }
         logger.info(`Broadcasting tracks to session: ${sessionId}`);
-        session.ws && session.ws.send(JSON.stringify({ type: 'tracks_list', tracks: trackList }));
+        session.ws && sendMessage(session.ws, { type: 'tracks_list', tracks: trackList });
         broadcastCount++;
     }
     
     logger.info(`Broadcast complete: sent to ${broadcastCount} sessions`);
 }
 
-function broadcastMode() {
-    for (const [sessionId, session] of sessions.entries()) {
+// Helper to build the 'mode' payload for a room as seen by a given user
+function buildModePayload(room: Room, userEmail: string | undefined) {
+    return {
+        type: 'mode',
+        roomId: room.id,
+        mode: room.mode,
+        currentlyPlayingTrack: room.currentlyPlayingTrack,
+        masterUserSessionId: room.masterUserSessionId ? publicSessionId(room.masterUserSessionId) : null,
+        canTakeMasterControl: canTakeMasterControl(userEmail),
+        role: permissions.getRole(userEmail),
+        fallbackPlaylist: room.queueManager.getFallbackInfo(),
+        skipVotes: getSkipVoteTally(room, userEmail),
+        // Pending request_master, so a reconnecting master can still answer it
+        masterRequest: room.masterRequest
+            ? { sessionId: publicSessionId(room.masterRequest.sessionId), name: room.masterRequest.name, email: room.masterRequest.email, expiresAt: room.masterRequest.expiresAt }
+            : null,
+        queueOrdering: {
+            policy: room.queueManager.getOrderingPolicy(),
+            maxJamPromotion: room.queueManager.getMaxJamPromotion(),
+        },
+        noRepeat: room.queueManager.getNoRepeatSettings(),
+        duplicatePolicy: room.queueManager.getDuplicatePolicy(),
+        contentFilter: room.queueManager.getContentFilter(),
+        submissionQuota: userEmail ? room.queueManager.getSubmissionQuota(userEmail) : null,
+    };
+}
+
+// Votes only count for the queue item they were cast on; drop them once another one plays
+function getSkipVoters(room: Room): Map<string, string> {
+    // Submitted and fallback tracks alike get an item id when they are queued
+    const itemId = room.currentlyPlayingTrack?.id || null;
+    if (room.skipVoteItemId !== itemId) {
+        room.skipVotes.clear();
+        room.skipVoteItemId = itemId;
+    }
+    return room.skipVotes;
+}
+
+// Number of votes needed to skip: VOTE_SKIP_THRESHOLD >= 1 is an absolute count, below 1 a fraction of active users
+function getRequiredSkipVotes(room: Room): number {
+    if (VOTE_SKIP_THRESHOLD >= 1) {
+        return Math.floor(VOTE_SKIP_THRESHOLD);
+    }
+    const activeUsers = getSessionListEntries(room).length;
+    return Math.max(1, Math.ceil(activeUsers * VOTE_SKIP_THRESHOLD));
+}
+
+function getSkipVoteTally(room: Room, userEmail: string | undefined) {
+    const voters = getSkipVoters(room);
+    return {
+        trackUri: room.currentlyPlayingTrack?.spotifyUri || null,
+        itemId: room.currentlyPlayingTrack?.id || null,
+        count: voters.size,
+        required: getRequiredSkipVotes(room),
+        voters: Array.from(voters.values()),
+        hasVoted: !!userEmail && voters.has(userEmail),
+    };
+}
+
+function broadcastMode(room: Room) {
+    for (const [sessionId, session] of getRoomSessions(room)) {
         if (!session.ws || session.ws.readyState !== 1) continue;
         const userEmail = session.state?.spotify?.email || session.state?.listener?.email;
-        const canTakeControl = canTakeMasterControl(userEmail);
-        session.ws && session.ws.send(JSON.stringify({
-            type: 'mode',
-            mode,
-            currentlyPlayingTrack,
-            masterUserSessionId,
-            canTakeMasterControl: canTakeControl,
-            fallbackPlaylist: queueManager.getFallbackInfo(),
-        }));
+        session.ws && sendMessage(session.ws, buildModePayload(room, userEmail));
+    }
+}
+
+// Helper to send the full state of a room to a single client (on login or room join)
+function sendRoomState(ws: WebSocket, room: Room, userEmail: string | undefined) {
+    sendMessage(ws, {
+        type: 'tracks_list',
+        tracks: getDisplayTrackList(room)
+    });
+    sendMessage(ws, buildModePayload(room, userEmail));
+    // Send history to newly connected user
+    sendMessage(ws, {
+        type: 'history',
+        history: room.history.slice(-100) // Send last 100 events
+    });
+    sendMessage(ws, { type: 'play_history', playHistory: room.playHistory.slice(-100) });
+}
+
+// Helper to broadcast the list of rooms to every connected client
+function broadcastRoomList() {
+    const rooms = getRoomList();
+    for (const session of sessions.values()) {
+        if (!session.ws || session.ws.readyState !== 1) continue;
+        sendMessage(session.ws, { type: 'rooms_list', rooms });
+    }
+}
+
+function getRoomList() {
+    return roomManager.getRooms().map(room => room.getSummary(getRoomSessions(room).length));
+}
+
+// Who takes over as master: a connected Spotify session in the room, admins first (MASTER_CONTROL_EMAILS
+// seeds them), then whoever has been connected longest
+function electMaster(room: Room, excludeSessionId?: string): string | null {
+    let elected: { sessionId: string; preferred: boolean; connectedAt: number } | null = null;
+    for (const [sid, sess] of getRoomSessions(room)) {
+        if (sid === excludeSessionId || !sess.state?.spotify?.access_token || !sess.ws || sess.ws.readyState !== 1) continue;
+        const candidate = { sessionId: sid, preferred: canTakeMasterControl(sess.state.spotify.email), connectedAt: sess.connectedAt ?? Date.now() };
+        const outranks = !elected
+            || (candidate.preferred && !elected.preferred)
+            || (candidate.preferred === elected.preferred && candidate.connectedAt < elected.connectedAt);
+        if (outranks) elected = candidate;
+    }
+    return elected ? elected.sessionId : null;
+}
+
+type MasterChangeReason = 'disconnected' | 'left_room' | 'released' | 'request_approved' | 'request_timeout';
+type MasterRequestOutcome = 'approved' | 'denied' | 'timeout' | 'master_idle' | 'master_changed';
+
+function getMasterIdentity(sessionId: string | null): { name: string; email: string } {
+    const spotify = sessionId ? sessions.get(sessionId)?.state?.spotify : undefined;
+    return { name: spotify?.name || 'Unknown', email: spotify?.email || '' };
+}
+
+/**
+ * Make another session (or nobody) the room's master: playback and polling are handed over to its
+ * player and the change is announced. Any pending master request is settled by the change.
+ */
+async function changeMaster(room: Room, newMasterId: string | null, reason: MasterChangeReason, previousMaster: { name: string; email: string }) {
+    const request = room.masterRequest;
+    if (request) {
+        clearTimeout(request.timer);
+        room.masterRequest = null;
+        if (request.sessionId !== newMasterId) {
+            sendMasterRequestResult(request.sessionId, false, 'master_changed');
+        }
+    }
+    room.masterUserSessionId = null;
+    stopPolling(room);
+    const target = newMasterId ? getPlaybackTarget(newMasterId) : null;
+    if (newMasterId && target) {
+        room.masterUserSessionId = newMasterId;
+        logger.info(`Master of room ${room.id} changed to ${newMasterId} (${reason})`);
+        await room.playback.handOverMaster(target);
+        if (room.masterUserSessionId === newMasterId && room.mode === 'master_play') {
+            startPolling(room);
+        }
+    } else {
+        logger.warn(`Room ${room.id} lost its master (${reason}) and no connected Spotify session can take over`);
     }
+    const spotify = room.masterUserSessionId ? sessions.get(room.masterUserSessionId)?.state?.spotify : undefined;
+    room.history.push({
+        type: 'master_changed',
+        timestamp: Date.now(),
+        userName: spotify?.name || 'System',
+        userEmail: spotify?.email || 'playback@system',
+        details: { reason, previousMaster, masterUserSessionId: room.masterUserSessionId ? publicSessionId(room.masterUserSessionId) : null }
+    });
+    broadcastHistory(room);
+    broadcastMode(room);
+    broadcastSessionList(room);
+}
+
+/**
+ * Replace a master that disconnected, left the room or stepped down with the elected successor.
+ * Without a candidate the room waits for the next Spotify user to log in.
+ */
+async function failOverMaster(room: Room, reason: 'disconnected' | 'left_room' | 'released', previousMaster: { name: string; email: string }, excludeSessionId?: string) {
+    await changeMaster(room, electMaster(room, excludeSessionId), reason, previousMaster);
+}
+
+function sendMasterRequestResult(sessionId: string, approved: boolean, outcome: MasterRequestOutcome) {
+    const session = sessions.get(sessionId);
+    if (session?.ws && session.ws.readyState === 1) {
+        sendMessage(session.ws, { type: 'master_request_result', approved, outcome });
+    }
+}
+
+/**
+ * Ask the master to hand control over to a session. The master is prompted with 'master_request' and the
+ * request is approved if they don't answer within MASTER_REQUEST_TIMEOUT_MS; with no connected master to
+ * ask it is approved right away.
+ */
+async function requestMaster(room: Room, sessionId: string) {
+    const { name, email } = getMasterIdentity(sessionId);
+    room.history.push({ type: 'master_requested', timestamp: Date.now(), userName: name, userEmail: email, details: {} });
+    broadcastHistory(room);
+    const master = room.masterUserSessionId ? sessions.get(room.masterUserSessionId) : undefined;
+    if (!master?.ws || master.ws.readyState !== 1) {
+        sendMasterRequestResult(sessionId, true, 'master_idle');
+        await changeMaster(room, sessionId, 'request_approved', getMasterIdentity(room.masterUserSessionId));
+        return;
+    }
+    const expiresAt = Date.now() + MASTER_REQUEST_TIMEOUT_MS;
+    const timer = setTimeout(() => {
+        answerMasterRequest(room, true, 'timeout').catch(err => logger.error(`Failed to settle master request in room ${room.id}:`, err));
+    }, MASTER_REQUEST_TIMEOUT_MS);
+    room.masterRequest = { sessionId, name, email, expiresAt, timer };
+    logger.info(`${name} asked for master control of room ${room.id}`);
+    sendMessage(master.ws, { type: 'master_request', sessionId: publicSessionId(sessionId), name, email, expiresAt });
+    broadcastMode(room);
+}
+
+/**
+ * Settle the pending master request: hand control to the requester, or record the refusal
+ */
+async function answerMasterRequest(room: Room, approve: boolean, outcome: 'approved' | 'denied' | 'timeout') {
+    const request = room.masterRequest;
+    if (!request) return;
+    // The requester may have gone in the meantime
+    const stillHere = sessions.has(request.sessionId) && getSessionRoom(request.sessionId) === room && !!getPlaybackTarget(request.sessionId);
+    if (approve && stillHere) {
+        sendMasterRequestResult(request.sessionId, true, outcome);
+        await changeMaster(room, request.sessionId, outcome === 'timeout' ? 'request_timeout' : 'request_approved', getMasterIdentity(room.masterUserSessionId));
+        return;
+    }
+    clearTimeout(request.timer);
+    room.masterRequest = null;
+    if (stillHere) {
+        sendMasterRequestResult(request.sessionId, false, outcome);
+        const master = getMasterIdentity(room.masterUserSessionId);
+        room.history.push({
+            type: 'master_request_denied',
+            timestamp: Date.now(),
+            userName: master.name,
+            userEmail: master.email,
+            details: { requestedBy: { name: request.name, email: request.email } }
+        });
+        broadcastHistory(room);
+    }
+    broadcastMode(room);
+}
+
+// Helper to clean up a room after a session has left it (hands off master, updates member lists)
+function handleSessionLeftRoom(sessionId: string, room: Room) {
+    if (room.masterUserSessionId === sessionId) {
+        const session = sessions.get(sessionId);
+        const previousMaster = {
+            name: session?.state?.spotify?.name || 'Unknown',
+            email: session?.state?.spotify?.email || ''
+        };
+        failOverMaster(room, 'left_room', previousMaster)
+            .catch(err => logger.error(`Master failover failed in room ${room.id}:`, err));
+    }
+    broadcastSessionList(room);
+}
+
+// Move a session into another room, recording the change in both rooms' history
+function moveSessionToRoom(sessionId: string, targetRoom: Room) {
+    const session = sessions.get(sessionId);
+    if (!session || session.roomId === targetRoom.id) return;
+    const previousRoom = getSessionRoom(sessionId);
+    const userName = session.state?.spotify?.name || session.state?.listener?.name || 'Unknown';
+    const userEmail = session.state?.spotify?.email || session.state?.listener?.email || '';
+
+    session.roomId = targetRoom.id;
+    logger.info(`Session ${sessionId} moved from room ${previousRoom.id} to room ${targetRoom.id}`);
+
+    previousRoom.history.push({
+        type: 'room_left',
+        timestamp: Date.now(),
+        userName,
+        userEmail,
+        details: { roomId: previousRoom.id, toRoomId: targetRoom.id }
+    });
+    broadcastHistory(previousRoom);
+    handleSessionLeftRoom(sessionId, previousRoom);
+
+    targetRoom.history.push({
+        type: 'room_joined',
+        timestamp: Date.now(),
+        userName,
+        userEmail,
+        details: { roomId: targetRoom.id, fromRoomId: previousRoom.id }
+    });
+    assignMasterUserIfNeeded(targetRoom)
+        .then(() => broadcastMode(targetRoom))
+        .catch(err => logger.error(`Failed to assign a master in room ${targetRoom.id}:`, err));
+    if (session.ws && session.ws.readyState === 1) {
+        sendMessage(session.ws, { type: 'room_joined', roomId: targetRoom.id, name: targetRoom.name });
+        sendRoomState(session.ws, targetRoom, userEmail || undefined);
+    }
+    broadcastHistory(targetRoom);
+    broadcastSessionList(targetRoom);
+    broadcastRoomList();
+    serializeSessions();
 }
 
 function sendSessionMode(sessionId: string) {
     const session = sessions.get(sessionId);
     if (session && session.ws && session.ws.readyState === 1) {
-        session.ws && session.ws.send(JSON.stringify({ type: 'session_mode', sessionMode: sessionModes.get(sessionId) || 'session_pause' }));
+        session.ws && sendMessage(session.ws, { type: 'session_mode', sessionMode: sessionModes.get(sessionId) || 'session_pause' });
     }
 }
 
 // Helper to broadcast the list of connected sessions
-function broadcastSessionList() {
+// Build the user list shown in 'sessions_list' (one entry per email, keeping the most recent session).
+// Sessions are listed by public id; the session id itself would let anyone act as that session.
+function getSessionListEntries(room: Room) {
     // Create a map to deduplicate by email, keeping the most recent session
-    const emailToSession = new Map<string, { sessionId: string; userId: string | null; name: string; email: string; isMaster: boolean }>();
+    const emailToSession = new Map<string, { rawSessionId: string; sessionId: string; name: string; email: string; isMaster: boolean; role: Role; sync: FollowerSyncStatus | null }>();
     
-    for (const [sessionId, session] of sessions.entries()) {
+    for (const [sessionId, session] of getRoomSessions(room)) {
         const spotifyName = session.state?.spotify?.name || '';
         const spotifyEmail = session.state?.spotify?.email;
         const listenerName = session.state?.listener?.name;
@@ -454,31 +750,38 @@ function broadcastSessionList() {
         
         // If we already have a session for this email, only replace if this session is newer
         // (we'll use sessionId as a proxy for recency since newer sessions have newer UUIDs)
-        if (!emailToSession.has(email) || sessionId > emailToSession.get(email)!.sessionId) {
+        if (!emailToSession.has(email) || sessionId > emailToSession.get(email)!.rawSessionId) {
             emailToSession.set(email, {
-                sessionId,
-                userId: session.userId,
+                rawSessionId: sessionId,
+                sessionId: publicSessionId(sessionId),
                 name,
                 email,
-                isMaster: sessionId === masterUserSessionId
+                isMaster: sessionId === room.masterUserSessionId,
+                role: permissions.getRole(email),
+                // How this session's player kept up with the master at the last drift check (session_play only)
+                sync: sessionModes.get(sessionId) === 'session_play' ? room.playback.getFollowerSyncStatus(sessionId) : null
             });
         }
     }
     
-    const sessionList = Array.from(emailToSession.values());
+    return Array.from(emailToSession.values(), ({ rawSessionId, ...entry }) => entry);
+}
+
+function broadcastSessionList(room: Room) {
+    const sessionList = getSessionListEntries(room);
     
-    for (const [sessionId, session] of sessions.entries()) {
+    for (const [sessionId, session] of getRoomSessions(room)) {
         if (!session.ws || session.ws.readyState !== 1) continue;
-        session.ws && session.ws.send(JSON.stringify({ type: 'sessions_list', sessions: sessionList }));
+        session.ws && sendMessage(session.ws, { type: 'sessions_list', sessions: sessionList });
     }
 }
 
 // Helper to assign master user if not set
-async function assignMasterUserIfNeeded() {
-    if (!masterUserSessionId) {
-        for (const [sessionId, session] of sessions.entries()) {
+async function assignMasterUserIfNeeded(room: Room) {
+    if (!room.masterUserSessionId) {
+        for (const [sessionId, session] of getRoomSessions(room)) {
             if (session.state?.spotify?.access_token) {
-                masterUserSessionId = sessionId;
+                room.masterUserSessionId = sessionId;
                 logger.info(`Assigned master user: ${sessionId}`);
                 // Fetch current playback state and set currentlyPlayingTrack if a track is playing
                 try {
@@ -487,7 +790,7 @@ async function assignMasterUserIfNeeded() {
                     if (item && item.type === 'track') {
                         // Fetch full track info
                         const trackInfo = await getSpotifyTrackInfo(session.state.spotify.access_token, item.id);
-                        currentlyPlayingTrack = {
+                        room.playback.currentTrack = {
                             spotifyUri: item.uri,
                             userEmail: session.state.spotify.email || '',
                             spotifyName: session.state.spotify.name || '',
@@ -502,14 +805,15 @@ async function assignMasterUserIfNeeded() {
                                 duration_ms: item.duration_ms
                             } : null
                         };
+                        room.playback.currentTrackConsumed = true; // Not from our queue, nothing to consume
                         logger.info(`Set currentlyPlayingTrack from master user's current playback: ${trackInfo.name} by ${trackInfo.artist}`);
                         // Set play mode based on detected playback state
                         if (typeof playback.body.is_playing === 'boolean') {
-                            mode = playback.body.is_playing ? 'master_play' : 'master_pause';
-                            logger.info(`Set play mode to ${mode} based on detected master playback state`);
-                            broadcastMode();
-                            if (mode === 'master_play') {
-                                startPolling();
+                            room.mode = playback.body.is_playing ? 'master_play' : 'master_pause';
+                            logger.info(`Set play mode to ${room.mode} based on detected master playback state`);
+                            broadcastMode(room);
+                            if (room.mode === 'master_play') {
+                                startPolling(room);
                             }
                         }
                     }
@@ -518,10 +822,10 @@ async function assignMasterUserIfNeeded() {
                 }
                 
                 // Load fallback playlist if not already loaded
-                if (queueManager.getFallbackPlaylistUrl() && queueManager.getFallbackCount() === 0) {
+                if (room.queueManager.getFallbackPlaylistUrl() && room.queueManager.getFallbackCount() === 0) {
                     logger.info('Master user assigned, loading fallback playlist');
                     const accessToken = session.state.spotify.access_token;
-                    await queueManager.loadFallbackPlaylist(queueManager.getFallbackPlaylistUrl(), accessToken);
+                    await room.queueManager.loadFallbackPlaylist(room.queueManager.getFallbackPlaylistUrl(), accessToken);
                 }
                 
                 break;
@@ -534,37 +838,234 @@ async function assignMasterUserIfNeeded() {
 function notifyUserToActivateDevice(sessionId: string) {
     const session = sessions.get(sessionId);
     if (session && session.ws && session.ws.readyState === 1) {
-        session.ws.send(JSON.stringify({
+        sendMessage(session.ws, {
             type: 'prominent_message',
-            message: 'Spotify needs to be activated. Please hit play on your Spotify client to activate your device.'
-        }));
+            message: 'Spotify needs to be activated. Please hit play on your Spotify client or pick one of your devices.'
+        });
+        // Offer the devices Spotify knows about, so one can be picked instead
+        sendDeviceList(sessionId).catch(err => logger.warn(`Could not list Spotify devices for session ${sessionId}:`, err));
+    }
+}
+
+// The Spotify player a session controls: its token and the device it picked, if any
+function getPlaybackTarget(sessionId: string): PlaybackTarget | null {
+    const spotify = sessions.get(sessionId)?.state?.spotify;
+    if (!spotify?.access_token) return null;
+    return { sessionId, accessToken: spotify.access_token, ...(spotify.deviceId ? { deviceId: spotify.deviceId } : {}) };
+}
+
+async function getDeviceList(sessionId: string): Promise<{ devices: SpotifyDevice[]; selectedDeviceId: string | null } | null> {
+    const target = getPlaybackTarget(sessionId);
+    if (!target) return null;
+    const devices = await spotifyDelegate.getMyDevices(target.accessToken);
+    return { devices, selectedDeviceId: target.deviceId ?? null };
+}
+
+async function sendDeviceList(sessionId: string) {
+    const session = sessions.get(sessionId);
+    const list = await getDeviceList(sessionId);
+    if (list && session?.ws && session.ws.readyState === 1) {
+        sendMessage(session.ws, { type: 'devices_list', ...list });
+    }
+}
+
+type DeviceSelectionResult = { ok: true } | { ok: false; code: ProtocolErrorCode; error: string };
+
+/**
+ * Point a session's playback at one of its Spotify Connect devices: playback moves there now, and the
+ * playback engine sends every later command for the session to it
+ */
+async function selectDevice(sessionId: string, deviceId: string): Promise<DeviceSelectionResult> {
+    const session = sessions.get(sessionId);
+    const target = getPlaybackTarget(sessionId);
+    if (!session || !target) {
+        return { ok: false, code: 'invalid_state', error: 'Only Spotify sessions have devices to pick from.' };
+    }
+    // Keep playing on the new device if this session is following a playing room
+    const room = getSessionRoom(sessionId);
+    const following = room.masterUserSessionId === sessionId || sessionModes.get(sessionId) === 'session_play';
+    const play = following && room.mode === 'master_play' && !!room.currentlyPlayingTrack;
+    let device: SpotifyDevice | undefined;
+    try {
+        device = (await spotifyDelegate.getMyDevices(target.accessToken)).find(d => d.id === deviceId);
+        if (device) {
+            await spotifyDelegate.transferMyPlayback(target.accessToken, deviceId, play);
+        }
+    } catch (err) {
+        logger.error(`Failed to transfer playback for session ${sessionId} to device ${deviceId}:`, err);
+        return { ok: false, code: 'invalid_state', error: `Spotify could not transfer playback: ${getErrorMessage(err)}` };
+    }
+    if (!device) {
+        return { ok: false, code: 'not_found', error: `Spotify device "${deviceId}" is not available.` };
     }
+    session.state.spotify.deviceId = deviceId;
+    serializeSessions();
+    logger.info(`Session ${sessionId} picked Spotify device ${device.name} (${deviceId})${play ? ', playback transferred' : ''}`);
+    return { ok: true };
 }
 
 // Debug mode flag
 const DEBUG = process.env.DEBUG === '1' || process.env.DEBUG === 'true';
 function isDebug() { return DEBUG; }
 
-// Master control backdoor - comma-separated list of emails
+// Admins seeded on first start (before any roles are stored) - comma-separated list of emails
 const MASTER_CONTROL_EMAILS = process.env.MASTER_CONTROL_EMAILS 
-    ? process.env.MASTER_CONTROL_EMAILS.split(',').map(e => e.trim().toLowerCase())
+    ? process.env.MASTER_CONTROL_EMAILS.split(',').map(e => e.trim().toLowerCase()).filter(e => e)
     : [];
 
 function canTakeMasterControl(email: string | undefined): boolean {
-    if (!email) return false;
-    return MASTER_CONTROL_EMAILS.includes(email.toLowerCase());
+    return permissions.can('take_master_control', { email });
+}
+
+async function loadRoles() {
+    const stored = await storage.loadRoles();
+    if (stored.length > 0) {
+        permissions.setRoles(stored);
+        logger.info(`Loaded ${stored.length} role assignments`);
+    } else if (MASTER_CONTROL_EMAILS.length > 0) {
+        // Nothing stored yet: the legacy env list becomes the initial admins
+        permissions.setRoles(MASTER_CONTROL_EMAILS.map(email => ({ email, role: 'admin' as Role })));
+        saveRoles();
+        logger.info(`Seeded ${MASTER_CONTROL_EMAILS.length} admins from MASTER_CONTROL_EMAILS`);
+    }
 }
 
-// Helper to initiate playback failure tracking
-function startPlaybackFailureTracking(uri: string) {
-    expectedPlayingUri = uri;
-    playbackFailureCheckTime = Date.now();
-    logger.info(`Started playback failure tracking for ${uri}`);
+function saveRoles() {
+    storage.saveRoles(permissions.getRoles());
+}
+
+// Helper to get the email a session acts as (Spotify or listener login)
+function getSessionEmail(sessionId: string | undefined): string | undefined {
+    const session = sessionId ? sessions.get(sessionId) : undefined;
+    return session?.state?.spotify?.email || session?.state?.listener?.email || undefined;
+}
+
+// Check an action for a session in a room; master status comes from the room
+function sessionCan(action: PermissionAction, sessionId: string | undefined, room: Room, trackOwnerEmail?: string | null): boolean {
+    return permissions.can(action, {
+        email: getSessionEmail(sessionId),
+        isMaster: !!sessionId && sessionId === room.masterUserSessionId,
+        trackOwnerEmail
+    });
+}
+
+// Reply to a play, pause, skip or start_fallback from someone who may not control playback
+const PLAYBACK_CONTROL_REFUSAL = 'Only the master, moderators and admins can control playback.';
+// Reply to a room settings change from someone who may not make it
+const ROOM_SETTINGS_REFUSAL = 'Only the master, moderators and admins can change room settings.';
+
+// How refused moves and reorders are reported over WebSocket and REST
+const REORDER_ERRORS: Record<ReorderError, { code: ProtocolErrorCode; status: number; message: string }> = {
+    not_found: { code: 'not_found', status: 404, message: 'Track is not in the queue.' },
+    invalid_order: { code: 'invalid_message', status: 400, message: 'Each track may only be listed once.' },
+    head_playing: { code: 'invalid_state', status: 409, message: 'The first track in the queue is playing and stays first.' },
+    unfair: { code: 'invalid_state', status: 409, message: 'That would put a track ahead of other users\' earlier tracks.' }
+};
+
+// Move or reorder tracks for a session, leaving the head alone while it plays, and record who moved what.
+// Single moves name the queue item that was moved (by id or URI); every other track it passed shifts by one.
+function reorderQueue(room: Room, sessionId: string, fair: boolean | undefined, reorder: (options: ReorderOptions) => ReorderResult, movedRef?: string): ReorderResult {
+    // Resolved before the move, since a URI means the first queued item of the track
+    const movedId = movedRef ? room.queueManager.getTrack(movedRef)?.id : undefined;
+    const result = reorder({ fair: !!fair, keepHead: isQueueHeadPlaying(room) });
+    if (result.moves.length === 0) return result;
+
+    saveTracks(room);
+    const session = sessions.get(sessionId);
+    const userName = session?.state?.spotify?.name || session?.state?.listener?.name || 'Unknown User';
+    const userEmail = getSessionEmail(sessionId) || '';
+    const trackName = (id: string) => room.queueManager.getTrack(id)?.name || id;
+    const move = movedId ? result.moves.find(m => m.id === movedId) : undefined;
+    room.history.push(move
+        ? { type: 'track_moved', timestamp: Date.now(), userName, userEmail, details: { track: trackName(move.id), spotifyUri: move.spotifyUri, itemId: move.id, from: move.from, to: move.to } }
+        : { type: 'queue_reordered', timestamp: Date.now(), userName, userEmail, details: { count: result.moves.length, tracks: result.moves.map(m => trackName(m.id)) } });
+    logger.info(`Queue reordered by ${userName} (${userEmail}): ${result.moves.map(m => `${m.spotifyUri} ${m.from}->${m.to}`).join(', ')}`);
+    broadcastTrackList(room);
+    broadcastHistory(room);
+    return result;
+}
+
+// Whether the first submitted track is the one playing and still in the queue, so it has to stay first
+function isQueueHeadPlaying(room: Room): boolean {
+    return !!room.playback.currentTrack && !room.playback.currentTrackConsumed && !room.playback.currentTrackIsFallback;
+}
+
+// Let a user undo an operation for the next UNDO_WINDOW_MS (users without an email can't undo)
+function recordUndo(room: Room, userEmail: string | undefined, entry: UndoEntry) {
+    if (!userEmail) return;
+    room.undoStack.push(userEmail, entry, Date.now() + UNDO_WINDOW_MS);
+}
+
+// Put the queue back as it was before an operation. Returns why it can't be, or null once it is done.
+async function applyUndo(room: Room, entry: UndoEntry): Promise<string | null> {
+    const queueManager = room.queueManager;
+    switch (entry.action) {
+        case 'remove_track':
+            if (queueManager.getDuplicatePolicy() !== 'allow' && queueManager.hasTrack(entry.track.spotifyUri)) {
+                return 'That track has been queued again since.';
+            }
+            // The same item, so it keeps its id and jams; it goes no further forward than behind a playing head
+            queueManager.restoreTrack(entry.track, isQueueHeadPlaying(room) ? Math.max(entry.index, 1) : entry.index);
+            saveTracks(room);
+            broadcastTrackList(room);
+            return null;
+        case 'delay_track': {
+            if (!queueManager.getSubmittedTracks().some(t => t.id === entry.track.id)) {
+                return 'That track is no longer in the queue.';
+            }
+            const moved = queueManager.moveTrack(entry.track.id!, entry.index, { keepHead: isQueueHeadPlaying(room) });
+            if (moved.error) {
+                return REORDER_ERRORS[moved.error].message;
+            }
+            saveTracks(room);
+            broadcastTrackList(room);
+            return null;
+        }
+        case 'skip': {
+            if (room.currentlyPlayingTrack?.id !== entry.skippedTo.id) {
+                return 'Playback has moved on since the skip.';
+            }
+            // The skipped track goes on playing, so it hasn't been played yet
+            const playedAt = room.playHistory.map(played => played.track?.id).lastIndexOf(entry.track.id);
+            if (playedAt !== -1) {
+                room.playHistory.splice(playedAt, 1);
+                broadcastPlayHistory(room);
+            }
+            await room.playback.restoreSkippedTrack(entry.track, entry.isFallback, entry.positionMs);
+            return null;
+        }
+        case 'replace_fallback_playlist':
+            if (queueManager.getFallbackPlaylistUrl() !== entry.playlistUrl) {
+                return 'The fallback playlist has changed again since.';
+            }
+            queueManager.restoreFallbackPlaylistState(entry.previous);
+            saveRooms();
+            broadcastTrackList(room);
+            broadcastMode(room);
+            return null;
+    }
+}
+
+// Apply a role change and push the new permissions to every connected client
+function applyRoleChange(email: string, role: Role) {
+    permissions.setRole(email, role);
+    saveRoles();
+    for (const room of roomManager.getRooms()) {
+        broadcastMode(room);
+        broadcastSessionList(room);
+    }
+}
+
+// Helper to get the name the master user is shown as (for play history "started by")
+function getMasterUserName(room: Room): string | undefined {
+    if (!room.masterUserSessionId) return undefined;
+    const masterSession = sessions.get(room.masterUserSessionId);
+    return masterSession?.state?.spotify?.name || masterSession?.state?.listener?.name || '';
 }
 
 // Helper to record a fallback play history event and broadcast
-function recordFallbackPlay(track: SubmittedTrack) {
-    history.push({
+function recordFallbackPlay(room: Room, track: SubmittedTrack) {
+    room.history.push({
         type: 'fallback_play',
         timestamp: Date.now(),
         userName: 'System',
@@ -574,459 +1075,150 @@ function recordFallbackPlay(track: SubmittedTrack) {
             playlist: track.spotifyName || 'Fallback Playlist'
         }
     });
-    broadcastHistory();
+    broadcastHistory(room);
 }
 
-// Helper to play a track for sessions
-async function playTrackForSessions(track: SubmittedTrack, onlySessionPlay: boolean) {
-    for (const [sid, sess] of sessions.entries()) {
-        if (onlySessionPlay) {
-            const sessionMode = sessionModes.get(sid);
-            if (sessionMode !== 'session_play') continue;
-        }
-        const accessToken = sess.state?.spotify?.access_token;
-        if (accessToken) {
-            try {
-                await spotifyDelegate.play(accessToken, { uris: [track.spotifyUri] });
-                logger.info(`Started playback for session ${sid}${onlySessionPlay ? ' (session_play mode)' : ''}`);
-            } catch (err) {
-                logger.error(`Failed to start playback for session ${sid}:`, err);
-                const errMsg = getErrorMessage(err);
-                if (errMsg.includes('NO_ACTIVE_DEVICE') || errMsg.includes('No active device found')) {
-                    notifyUserToActivateDevice(sid);
-                }
-            }
-        }
+// Helper to add a track that left the player to play history and broadcast
+function recordPlayHistory(room: Room, track: SubmittedTrack) {
+    logger.info('Adding to play history:', JSON.stringify({ 
+        name: track.name, 
+        artist: track.artist, 
+        album: track.album,
+        albumArtUrl: track.albumArtUrl,
+        spotifyUri: track.spotifyUri
+    }));
+    room.playHistory.push({
+        timestamp: Date.now(),
+        track,
+        startedBy: getMasterUserName(room)
+    });
+    broadcastPlayHistory(room);
+}
+
+// Helper to record the master's player moving on to a queued track by itself
+function recordMasterAdvance(room: Room, track: SubmittedTrack, afterManualSkip: boolean) {
+    // Only add if track has actual details (name, artist, etc.) and not manually skipped
+    if (!afterManualSkip && track.name && track.artist) {
+        const masterSession = room.masterUserSessionId ? sessions.get(room.masterUserSessionId) : undefined;
+        room.history.push({
+            type: 'track_play',
+            timestamp: Date.now(),
+            userName: masterSession?.state?.spotify?.name || masterSession?.state?.listener?.name || 'Unknown',
+            userEmail: masterSession?.state?.spotify?.email || masterSession?.state?.listener?.email || '',
+            details: { track: { ...track } }
+        });
+        broadcastHistory(room);
     }
 }
 
-// Helper to set current track, record/history/log, start failure tracking, play, and broadcast
-// NOTE: Track should be peeked but NOT consumed yet - consumption happens after playback confirmation
-async function setCurrentTrackAndStart(newTrack: SubmittedTrack, isFallback: boolean, onlySessionPlay: boolean) {
-    currentlyPlayingTrack = newTrack;
-    currentTrackIsFallback = isFallback;
-    currentTrackConsumed = false; // Mark as not yet consumed
-    
-    if (isFallback) {
-        logger.info(`Playing from fallback: ${newTrack.name || newTrack.spotifyUri} (not consumed from queue yet)`);
-        recordFallbackPlay(newTrack);
-    } else {
-        logger.info(`Now playing: ${newTrack.name || newTrack.spotifyUri} (not consumed from queue yet)`);
-        // Don't save tracks yet - track still in queue until playback confirmed
-    }
-    masterTrackStarted = false;
-    lastTrackChangeCommand = Date.now();
-    startPlaybackFailureTracking(newTrack.spotifyUri);
-    await playTrackForSessions(newTrack, onlySessionPlay);
-    broadcastTrackList();
-    broadcastMode();
-}
-
-// Poll master user's playback state
-async function pollMasterUserPlayback() {
-    if (!masterUserSessionId) return;
-    const masterSession = sessions.get(masterUserSessionId);
-    if (!masterSession || !masterSession.state?.spotify?.access_token) return;
-    try {
-        const playback = await spotifyDelegate.getMyCurrentPlaybackState(masterSession.state.spotify.access_token);
-        if (isDebug()) {
-            logger.info('Spotify playback state: ' + JSON.stringify({
-                is_playing: playback.body?.is_playing,
-                item_uri: playback.body?.item?.uri,
-                progress_ms: playback.body?.progress_ms,
-                duration_ms: playback.body?.item?.duration_ms,
-                item_name: playback.body?.item?.name,
-                item_id: playback.body?.item?.id,
-            }));
+// Helper to record what happened to the current track on the master's player (ended, skipped there, seeked)
+function recordTrackEvent(room: Room, event: TrackEvent) {
+    const masterSession = room.masterUserSessionId ? sessions.get(room.masterUserSessionId) : undefined;
+    const byMaster = event.type !== 'ended';
+    room.history.push({
+        type: event.type === 'ended' ? 'track_ended' : event.type === 'seeked' ? 'track_seeked' : 'track_skipped_externally',
+        timestamp: Date.now(),
+        userName: byMaster ? (masterSession?.state?.spotify?.name || masterSession?.state?.listener?.name || 'Unknown') : 'System',
+        userEmail: byMaster ? (masterSession?.state?.spotify?.email || masterSession?.state?.listener?.email || '') : 'playback@system',
+        details: {
+            track: event.track,
+            positionMs: event.positionMs,
+            ...(event.fromPositionMs !== undefined ? { fromPositionMs: event.fromPositionMs } : {}),
+            ...(event.nextTrackUri ? { nextTrackUri: event.nextTrackUri } : {})
         }
+    });
+    broadcastHistory(room);
+}
 
-        // Track-end detection: compare with previous state
-        const prev = lastPlaybackState;
-        const curr = {
-            uri: playback.body?.item?.uri || null,
-            progress_ms: typeof playback.body?.progress_ms === 'number' ? playback.body.progress_ms : null,
-            duration_ms: typeof playback.body?.item?.duration_ms === 'number' ? playback.body.item.duration_ms : null,
-            is_playing: typeof playback.body?.is_playing === 'boolean' ? playback.body.is_playing : null,
-        };
-        lastPlaybackState = curr;
-
-        // Check for playback failure
-        if (expectedPlayingUri && playbackFailureCheckTime > 0) {
-            const timeSinceCommand = Date.now() - playbackFailureCheckTime;
-            
-            if (timeSinceCommand > PLAYBACK_FAILURE_TIMEOUT_MS) {
-                // Check if the expected track is playing
-                if (curr.uri !== expectedPlayingUri || !curr.is_playing) {
-                    logger.error(`Playback failure detected: Expected ${expectedPlayingUri} to be playing, but current state is: ${JSON.stringify(curr)}`);
-                    
-                    // Broadcast error to all clients
-                    for (const [sid, sess] of sessions.entries()) {
-                        if (sess.ws && sess.ws.readyState === 1) {
-                            sess.ws.send(JSON.stringify({
-                                type: 'playback_error',
-                                message: 'Playback failed to start. The track may be unavailable or restricted in your region.',
-                                track: currentlyPlayingTrack
-                            }));
-                        }
-                    }
-                    
-                    // Clear the current track and reset state
-                    currentlyPlayingTrack = null;
-                    expectedPlayingUri = null;
-                    playbackFailureCheckTime = 0;
-                    broadcastTrackList();
-                    
-                    // Try to play next track
-                    const masterAccessToken = masterSession?.state?.spotify?.access_token;
-                    const nextTrackInfo = await queueManager.peekNextTrack(masterAccessToken);
-                    
-                    if (nextTrackInfo) {
-                        const newTrack = nextTrackInfo.track;
-                        currentlyPlayingTrack = newTrack;
-                        expectedPlayingUri = newTrack.spotifyUri;
-                        playbackFailureCheckTime = Date.now();
-                        
-                        if (!nextTrackInfo.isFallback) {
-                            saveTracksToFile();
-                            logger.info(`Attempting next track after failure: ${newTrack.name || newTrack.spotifyUri}`);
-                        } else {
-                            logger.info(`Attempting fallback track after failure: ${newTrack.name || newTrack.spotifyUri}`);
-                        }
-                        
-                        // Try to play on all sessions
-                        for (const [sid, sess] of sessions.entries()) {
-                            const accessToken = sess.state?.spotify?.access_token;
-                            if (accessToken) {
-                                try {
-                                    await spotifyDelegate.play(accessToken, { uris: [newTrack.spotifyUri] });
-                                    logger.info(`Started next track on session ${sid} after failure`);
-                                } catch (err) {
-                                    logger.error(`Failed to start next track on session ${sid}:`, err);
-                                }
-                            }
-                        }
-                        
-                        broadcastTrackList();
-                    }
-                } else {
-                    // Playback started successfully, clear failure detection
-                    logger.info(`Playback confirmed: ${curr.uri} is playing`);
-                    expectedPlayingUri = null;
-                    playbackFailureCheckTime = 0;
-                }
-            }
+// Helper to tell a room's clients that the current track failed to start
+function broadcastPlaybackError(room: Room, track: SubmittedTrack | null) {
+    for (const [sid, sess] of getRoomSessions(room)) {
+        if (sess.ws && sess.ws.readyState === 1) {
+            sendMessage(sess.ws, {
+                type: 'playback_error',
+                message: 'Playback failed to start. The track may be unavailable or restricted in your region.',
+                track
+            });
         }
+    }
+}
 
-        let detectedTrackEnd = false;
-        // Detect progress_ms reset to 0 after being near the end
-        if (
-            prev &&
-            prev.uri && curr.uri && prev.uri === curr.uri &&
-            prev.progress_ms !== null && curr.progress_ms === 0 &&
-            prev.duration_ms && prev.progress_ms > 0.9 * prev.duration_ms
-        ) {
-            logger.info('Detected track end by progress_ms reset to 0');
-            detectedTrackEnd = true;
-        }
-        // Detect track URI change
-        if (
-            prev && prev.uri && curr.uri && prev.uri !== curr.uri && prev.progress_ms !== null && prev.duration_ms && prev.progress_ms > 0.9 * prev.duration_ms
-        ) {
-            logger.info(`Detected track change from ${prev.uri} to ${curr.uri}`);
-            detectedTrackEnd = true;
-        }
-        // If detected, advance to next track
-        if (detectedTrackEnd) {
-            // Suppress auto-advance if we just manually skipped within grace window
-            if (lastManualSkipAt && (Date.now() - lastManualSkipAt) < TRACK_CHANGE_GRACE_PERIOD_MS) {
-                logger.info('Detected end right after manual skip - suppressing auto-advance');
-                lastManualSkipAt = 0;
-            } else {
-                logger.info('Advancing to next track due to detected end.');
-                
-                // Before changing currentlyPlayingTrack, push to playHistory
-                if (currentlyPlayingTrack) {
-                    playHistory.push({
-                        timestamp: Date.now(),
-                        track: { ...currentlyPlayingTrack },
-                        startedBy: masterUserSessionId ? (sessions.get(masterUserSessionId)?.state?.spotify?.name || sessions.get(masterUserSessionId)?.state?.listener?.name || '') : undefined
-                    });
-                    broadcastPlayHistory();
-                }
-                
-                // Get master user's access token for fallback playlist loading
-                const masterAccessToken = masterSession?.state?.spotify?.access_token;
-                const nextTrackInfo = await queueManager.peekNextTrack(masterAccessToken);
-                
-                if (nextTrackInfo) {
-                    const newTrack = nextTrackInfo.track;
-                    await setCurrentTrackAndStart(newTrack, nextTrackInfo.isFallback, true);
-                    // Immediately consume since this is a natural track progression (previous track ended)
-                    queueManager.consumeNextTrack(nextTrackInfo.isFallback);
-                    currentTrackConsumed = true;
-                    if (!nextTrackInfo.isFallback) {
-                        saveTracksToFile();
-                    }
-                    logger.info(`✓ Track consumed from queue (natural progression)`);
-                    // Broadcast updated track list after consumption
-                    broadcastTrackList();
-                } else {
-                    currentlyPlayingTrack = null;
-                    masterTrackStarted = false;
-                    currentTrackConsumed = true; // No track to consume
-                    if (mode !== 'master_pause') {
-                        mode = 'master_pause';
-                        logger.info('No more tracks in queue and no fallback playlist, stopping playback');
-                        broadcastTrackList();
-                        broadcastMode();
-                    }
+// Build the playback engine for a room, wired to this server's sessions, storage and broadcasts
+function createRoomPlayback(room: Room): PlaybackController {
+    return new PlaybackController(room.queueManager, {
+        spotify: spotifyDelegate,
+        pollIntervals: POLL_INTERVALS,
+        followerSync: FOLLOWER_SYNC,
+        hooks: {
+            getMaster: () => room.masterUserSessionId ? getPlaybackTarget(room.masterUserSessionId) : null,
+            getTargets: (onlySessionPlay) => {
+                const targets: PlaybackTarget[] = [];
+                for (const [sid] of getRoomSessions(room)) {
+                    if (onlySessionPlay && sessionModes.get(sid) !== 'session_play') continue;
+                    const target = getPlaybackTarget(sid);
+                    if (target) targets.push(target);
                 }
-                return; // Skip the rest of the function for this poll
-            }
-        }
-        
-        if (mode === 'master_pause' as typeof mode) {
-            // Only update progress info, do not check for track end
-            if (currentlyPlayingTrack && curr.progress_ms !== null && curr.duration_ms !== null) {
-                currentlyPlayingTrack.progress = {
-                    position_ms: curr.progress_ms,
-                    duration_ms: curr.duration_ms
-                };
-            } else if (currentlyPlayingTrack) {
-                currentlyPlayingTrack.progress = null;
-            }
-            broadcastMode();
-            return;
-        }
-        
-        if (curr.is_playing !== null && curr.is_playing !== undefined) {
-            const newState = curr.is_playing ? 'play' : 'pause';
-            
-            // Check if master is playing the correct track
-            // BUT: Don't correct if the track they're playing is in our queue (natural transition case)
-            // AND: Don't correct if we just commanded a track change (grace period for Spotify to respond)
-            if (currentlyPlayingTrack && curr.uri) {
-                const masterTrackUri = curr.uri;
-                const isTrackInQueue = queueManager.getSubmittedTracks().some(t => t.spotifyUri === masterTrackUri);
-                const timeSinceLastCommand = Date.now() - lastTrackChangeCommand;
-                const inGracePeriod = timeSinceLastCommand < TRACK_CHANGE_GRACE_PERIOD_MS;
-                
-                if (masterTrackUri !== currentlyPlayingTrack.spotifyUri) {
-                    if (inGracePeriod) {
-                        // We just commanded a track change, give Spotify time to respond
-                        logger.info(`Track mismatch but within grace period (${timeSinceLastCommand}ms), waiting for Spotify to catch up...`);
-                    } else if (isTrackInQueue) {
-                        // Check if this is right after a manual skip
-                        const timeSinceManualSkip = lastManualSkipAt ? Date.now() - lastManualSkipAt : Infinity;
-                        const justManuallySkipped = timeSinceManualSkip < TRACK_CHANGE_GRACE_PERIOD_MS;
-                        
-                        if (justManuallySkipped) {
-                            // This is the result of a manual skip, don't add duplicate track_play event
-                            logger.info(`Master advanced to ${masterTrackUri} after manual skip - suppressing duplicate track_play event`);
-                            lastManualSkipAt = 0; // Reset the flag
-                        } else {
-                            // Master has naturally advanced to a track in our queue - update our state to match
-                            logger.info(`Master naturally advanced to ${masterTrackUri} which is in queue. Syncing state...`);
-                        }
-                        
-                        // Find and set as current, remove from queue (do this regardless)
-                        const queueIndex = queueManager.getSubmittedTracks().findIndex(t => t.spotifyUri === masterTrackUri);
-                        if (queueIndex !== -1) {
-                            // Add old track to play history
-                            if (currentlyPlayingTrack) {
-                                playHistory.push({
-                                    timestamp: Date.now(),
-                                    track: { ...currentlyPlayingTrack },
-                                    startedBy: masterUserSessionId ? (sessions.get(masterUserSessionId)?.state?.spotify?.name || sessions.get(masterUserSessionId)?.state?.listener?.name || '') : undefined
-                                });
-                            }
-                            // Set new current track
-                            const newTrack = queueManager.getSubmittedTracks().splice(queueIndex, 1)[0];
-                            currentlyPlayingTrack = newTrack;
-                            masterTrackStarted = true;
-                            saveTracksToFile();
-                            
-                            // Add track play event to history ONLY if NOT after manual skip
-                            // Only add if track has actual details (name, artist, etc.) and not manually skipped
-                            if (!justManuallySkipped && newTrack.name && newTrack.artist) {
-                                const startingUserName = masterUserSessionId ? (sessions.get(masterUserSessionId)?.state?.spotify?.name || sessions.get(masterUserSessionId)?.state?.listener?.name || 'Unknown') : 'Unknown';
-                                const startingUserEmail = masterUserSessionId ? (sessions.get(masterUserSessionId)?.state?.spotify?.email || sessions.get(masterUserSessionId)?.state?.listener?.email || '') : '';
-                                const trackPlayEvent = {
-                                    type: 'track_play' as const,
-                                    timestamp: Date.now(),
-                                    userName: startingUserName,
-                                    userEmail: startingUserEmail,
-                                    details: { track: { ...newTrack } }
-                                };
-                                logger.info('Adding track_play to history:', JSON.stringify({
-                                    name: newTrack.name,
-                                    artist: newTrack.artist,
-                                    album: newTrack.album,
-                                    hasAlbumArt: !!newTrack.albumArtUrl,
-                                    albumArtUrl: newTrack.albumArtUrl ? newTrack.albumArtUrl.substring(0, 50) + '...' : null
-                                }));
-                                history.push(trackPlayEvent);
-                            }
-                            
-                            broadcastTrackList();
-                            broadcastMode();
-                            broadcastPlayHistory();
-                            broadcastHistory();
-                        }
-                    } else {
-                        // Master is playing something not in our queue - try to correct
-                        logger.warn(`Master user is playing ${masterTrackUri} but should be playing ${currentlyPlayingTrack.spotifyUri}. Attempting to correct...`);
-                        try {
-                            await spotifyDelegate.play(masterSession.state.spotify.access_token, { uris: [currentlyPlayingTrack.spotifyUri] });
-                            logger.info(`Successfully started correct track (${currentlyPlayingTrack.spotifyUri}) for master user.`);
-                        } catch (err) {
-                            logger.error(`Failed to start correct track for master user:`, err);
-                            const errMsg = getErrorMessage(err);
-                            if (errMsg.includes('NO_ACTIVE_DEVICE') || errMsg.includes('No active device found')) {
-                                notifyUserToActivateDevice(masterUserSessionId);
-                            }
-                        }
-                    }
-                }
-            }
-            
-            // Update currentlyPlayingTrack with progress info
-            if (currentlyPlayingTrack && curr.progress_ms !== null && curr.duration_ms !== null) {
-                currentlyPlayingTrack.progress = {
-                    position_ms: curr.progress_ms,
-                    duration_ms: curr.duration_ms
-                };
-            } else if (currentlyPlayingTrack) {
-                currentlyPlayingTrack.progress = null;
-            }
-            
-            // Check if track has finished playing (progress is near the end)
-            if (masterTrackStarted && currentlyPlayingTrack?.progress && 
-                currentlyPlayingTrack.progress.position_ms > 0 && 
-                currentlyPlayingTrack.progress.duration_ms > 0) {
-                const progressPercentage = currentlyPlayingTrack.progress.position_ms / currentlyPlayingTrack.progress.duration_ms;
-                if (isDebug()) {
-                    logger.info('Track progress check: ' + JSON.stringify({
-                        position_ms: currentlyPlayingTrack.progress.position_ms,
-                        duration_ms: currentlyPlayingTrack.progress.duration_ms,
-                        progressPercentage,
-                        masterTrackStarted,
-                        currentlyPlayingTrack: currentlyPlayingTrack.spotifyUri,
-                    }));
-                }
-                // If track is 100% complete, consider it finished
-                if (progressPercentage >= 1.0) {
-                    logger.info(`Track "${currentlyPlayingTrack.name}" has finished playing, moving to next track`);
-                    
-                    // Before changing currentlyPlayingTrack, push to playHistory
-                    if (currentlyPlayingTrack) {
-                        playHistory.push({
-                            timestamp: Date.now(),
-                            track: { ...currentlyPlayingTrack },
-                            startedBy: masterUserSessionId ? (sessions.get(masterUserSessionId)?.state?.spotify?.name || sessions.get(masterUserSessionId)?.state?.listener?.name || '') : undefined
-                        });
-                        broadcastPlayHistory();
-                    }
-                    
-                    // Get master user's access token for fallback playlist loading
-                    const masterAccessToken = masterSession?.state?.spotify?.access_token;
-                    const nextTrackInfo = await queueManager.peekNextTrack(masterAccessToken);
-                    
-                    if (nextTrackInfo) {
-                        const newTrack = nextTrackInfo.track;
-                        await setCurrentTrackAndStart(newTrack, nextTrackInfo.isFallback, true);
-                        // Immediately consume since track is 100% complete (natural progression)
-                        queueManager.consumeNextTrack(nextTrackInfo.isFallback);
-                        currentTrackConsumed = true;
-                        if (!nextTrackInfo.isFallback) {
-                            saveTracksToFile();
-                        }
-                        logger.info(`✓ Track consumed from queue (100% complete)`);
-                        // Broadcast updated track list after consumption
-                        broadcastTrackList();
-                    } else {
-                        // No more tracks in queue and no fallback
-                        currentlyPlayingTrack = null;
-                        masterTrackStarted = false;
-                        currentTrackConsumed = true; // No track to consume
-                        if (mode !== 'master_pause') {
-                            mode = 'master_pause';
-                            logger.info('No more tracks in queue and no fallback playlist, stopping playback');
-                            broadcastTrackList();
-                            broadcastMode();
-                        }
-                    }
-                }
-            }
-            
-            if (newState !== lastMasterPlaybackState) {
-                lastMasterPlaybackState = newState;
-                if (newState === 'play' && mode !== 'master_play') {
-                    mode = 'master_play';
-                    logger.info('Master user is playing, setting mode to master_play');
-                    // Mark that the track has started playing
-                    if (currentlyPlayingTrack) {
-                        masterTrackStarted = true;
-                        logger.info(`Master user started playing track: ${currentlyPlayingTrack.name}`);
-                        
-                        // Consume track from queue now that playback is confirmed
-                        if (!currentTrackConsumed) {
-                            queueManager.consumeNextTrack(currentTrackIsFallback);
-                            currentTrackConsumed = true;
-                            if (!currentTrackIsFallback) {
-                                saveTracksToFile(); // Save after consuming submitted track
-                            }
-                            logger.info(`✓ Track consumed from queue after playback confirmation`);
-                        }
-                    }
-                    broadcastMode();
-                } else if (newState === 'pause' && mode !== 'master_pause') {
-                    // Check if we just commanded a track change (grace period)
-                    const timeSinceLastCommand = Date.now() - lastTrackChangeCommand;
-                    const inGracePeriod = timeSinceLastCommand < TRACK_CHANGE_GRACE_PERIOD_MS;
-                    
-                    if (inGracePeriod) {
-                        // We just commanded a track change, this pause is temporary during transition
-                        logger.info(`Pause detected but within grace period (${timeSinceLastCommand}ms), ignoring (likely track transition)`);
-                        return; // Don't change to master_pause
-                    }
-                    
-                    // Check if pause is due to track completion before changing mode
-                    if (masterTrackStarted && currentlyPlayingTrack?.progress && 
-                        currentlyPlayingTrack.progress.position_ms > 0 && 
-                        currentlyPlayingTrack.progress.duration_ms > 0) {
-                        const progressPercentage = currentlyPlayingTrack.progress.position_ms / currentlyPlayingTrack.progress.duration_ms;
-                        if (progressPercentage >= 1.0) {
-                            // Track completed, don't change mode, let the completion logic handle it
-                            logger.info(`Track "${currentlyPlayingTrack.name}" completed and paused, advancing to next track (not setting master_pause).`);
-                            return; // Skip mode change, let completion logic handle advancement
-                        }
-                    }
-                    // Normal pause (not due to completion or track transition)
-                    mode = 'master_pause';
-                    logger.info('Master user is paused, setting mode to master_pause');
-                    broadcastMode();
-                }
-            } else if (currentlyPlayingTrack?.progress) {
-                // Always broadcast progress updates
-                broadcastMode();
-            }
+                return targets;
+            },
+            onTrackFinished: (track) => recordPlayHistory(room, track),
+            onFallbackPlay: (track) => recordFallbackPlay(room, track),
+            onMasterAdvanced: (track, afterManualSkip) => recordMasterAdvance(room, track, afterManualSkip),
+            onTrackEvent: (event) => recordTrackEvent(room, event),
+            onPlaybackError: (track) => broadcastPlaybackError(room, track),
+            onNoActiveDevice: (sid) => notifyUserToActivateDevice(sid),
+            saveQueue: () => saveTracks(room),
+            broadcastTrackList: () => broadcastTrackList(room),
+            broadcastMode: () => broadcastMode(room),
+            broadcastSessionList: () => broadcastSessionList(room),
+            isDebug,
         }
-    } catch (err) {
-        logger.error('Error polling master user playback:', err);
+    });
+}
+
+// Skip the current track and advance to the next one (used by master_skip and vote_skip).
+// The skip is recorded, and can be undone, under the skipper: the sender of the message, not the master.
+async function skipCurrentTrack(room: Room, skipper: { name: string; email: string }, skipDetails: Record<string, any> = {}) {
+    const skipped = room.currentlyPlayingTrack;
+    const skippedIsFallback = room.playback.currentTrackIsFallback;
+    const positionMs = room.playback.getMasterPositionMs();
+    if (room.currentlyPlayingTrack) {
+        room.history.push({
+            type: 'track_skip',
+            timestamp: Date.now(),
+            userName: skipper.name,
+            userEmail: skipper.email,
+            details: { track: { ...room.currentlyPlayingTrack }, ...skipDetails }
+        });
+        broadcastHistory(room);
+    }
+    // A vote skip is the room's decision: no single voter may take it back, so only master_skip can be undone
+    if (await room.playback.skip() && skipped && room.currentlyPlayingTrack && !skipDetails.voteSkip) {
+        recordUndo(room, skipper.email, { action: 'skip', track: skipped, isFallback: skippedIsFallback, positionMs, skippedTo: room.currentlyPlayingTrack });
     }
 }
 
-// Polling interval for master playback state (ms)
-const POLL_INTERVAL_MS = process.env.POLL_INTERVAL_MS ? parseInt(process.env.POLL_INTERVAL_MS, 10) : 1000;
+// When to poll a room's master next: the playback engine's cadence, held back while Spotify is rate limiting us
+function getPollCadence(room: Room): PollCadence {
+    const cadence = room.playback.getPollCadence();
+    const { retryAfterMs } = spotifyDelegate.getThrottleState();
+    return retryAfterMs > cadence.delayMs ? { delayMs: retryAfterMs, reason: 'rate_limited' } : cadence;
+}
 
-// Instead, manage polling interval based on mode changes:
-let pollInterval: NodeJS.Timeout | null = null;
-function startPolling() {
-    if (!pollInterval) pollInterval = setInterval(pollMasterUserPlayback, POLL_INTERVAL_MS);
+// Poll the master's player in a loop (one per room), each poll scheduling the next once it is done
+function startPolling(room: Room) {
+    if (room.pollTimer) return;
+    const scheduleNextPoll = () => {
+        const timer = setTimeout(async () => {
+            await room.playback.poll();
+            // Stopped (or restarted) while this poll was in flight
+            if (room.pollTimer === timer) scheduleNextPoll();
+        }, getPollCadence(room).delayMs);
+        room.pollTimer = timer;
+    };
+    scheduleNextPoll();
 }
-function stopPolling() {
-    if (pollInterval) { clearInterval(pollInterval); pollInterval = null; }
+function stopPolling(room: Room) {
+    if (room.pollTimer) { clearTimeout(room.pollTimer); room.pollTimer = null; }
 }
 
 // Function to start WebSocket server with retry
@@ -1045,20 +1237,66 @@ function startWebSocketServer(server: http.Server): void {
         });
         logger.info(`WebSocket server started on path /websocket`);
 
-        wss.on('connection', (ws: WebSocket) => {
+        wss.on('connection', (ws: WebSocket, req: http.IncomingMessage) => {
             logger.info('=== NEW WEBSOCKET CONNECTION ===');
             let sessionId: string = '';
             let session: Session | null = null;
+            let protocolVersion = PROTOCOL_VERSION;
+            // Token may be presented during the handshake (/websocket?token=...) or in the login message
+            const handshakeToken = new URL(req.url || '', 'http://localhost').searchParams.get('token');
 
             // Wait for login message to associate session
             ws.on('message', async (data: Buffer) => {
                 try {
-                    const message: Message = JSON.parse(data.toString());
+                    const validation = validateInboundMessage(data.toString());
+                    if (!validation.ok) {
+                        logger.warn(`Rejected WebSocket message: ${validation.error}`, { sessionId: sessionId || 'none', messageType: validation.messageType });
+                        sendError(ws, validation.code, validation.error, validation.messageType);
+                        return;
+                    }
+                    const message: Message = validation.message;
                     logger.info(`WebSocket message received: ${message.type}`, { sessionId: sessionId || 'none' });
+                    // Everything after login acts as the session bound to this socket
+                    if (message.type !== 'login') {
+                        const claimedSessionId = (message as { sessionId?: string }).sessionId;
+                        if (!sessionId && !UNAUTHENTICATED_MESSAGE_TYPES.has(message.type)) {
+                            sendError(ws, 'not_authenticated', 'Not logged in', message.type);
+                            return;
+                        }
+                        if (claimedSessionId !== undefined && claimedSessionId !== sessionId) {
+                            logger.warn(`Rejected ${message.type}: sessionId ${claimedSessionId} does not match bound session ${sessionId || 'none'}`);
+                            sendError(ws, 'session_mismatch', 'sessionId does not match this connection', message.type);
+                            return;
+                        }
+                        if (sessionId) {
+                            (message as { sessionId?: string }).sessionId = sessionId;
+                        }
+                    }
+                    // Every message is scoped to the room the connection's session is in
+                    let room = getSessionRoom(sessionId);
                     
                     switch (message.type) {
-                        case 'login':
-                            sessionId = message.userId || '';
+                        case 'login': {
+                            const negotiatedVersion = negotiateProtocolVersion(message.protocolVersion);
+                            if (negotiatedVersion === null) {
+                                logger.warn(`Rejected login with unsupported protocol version ${message.protocolVersion}`);
+                                sendMessage(ws, { type: 'login_error', code: 'unsupported_version', error: `Protocol version ${message.protocolVersion} is not supported (server speaks ${PROTOCOL_VERSION}).` });
+                                ws.close();
+                                break;
+                            }
+                            protocolVersion = negotiatedVersion;
+                            const tokenSessionId = verifySessionToken(message.token || handshakeToken);
+                            if (!tokenSessionId || (message.userId && message.userId !== tokenSessionId)) {
+                                logger.warn(`Rejected login without a valid session token for ${message.userId || 'unknown session'}`);
+                                sendMessage(ws, { type: 'login_error', code: 'not_authenticated', error: 'Invalid session token. Please log in again.' });
+                                ws.close();
+                                break;
+                            }
+                            if (sessionId && sessionId !== tokenSessionId) {
+                                sendMessage(ws, { type: 'login_error', code: 'session_mismatch', error: 'This connection is already bound to another session.' });
+                                break;
+                            }
+                            sessionId = tokenSessionId;
                             logger.info('=== WEBSOCKET LOGIN ATTEMPT ===', { sessionId });
                             
                             let isNewSession = false;
@@ -1066,13 +1304,14 @@ function startWebSocketServer(server: http.Server): void {
                                 session = sessions.get(sessionId)!;
                                 session.ws = ws;
                                 session.lastHeartbeat = Date.now(); // Update heartbeat on reconnect
+                                session.connectedAt = Date.now();
                                 logger.info(`Reusing existing session: ${sessionId}`, {
                                     hasSpotify: !!session.state?.spotify,
                                     hasListener: !!session.state?.listener,
                                 });
                                 isNewSession = false; // Reconnection, not a new session
                             } else if (sessionId) {
-                                session = { ws, userId: sessionId, state: {}, lastHeartbeat: Date.now() };
+                                session = { ws, userId: sessionId, state: {}, lastHeartbeat: Date.now(), roomId: DEFAULT_ROOM_ID, connectedAt: Date.now() };
                                 sessions.set(sessionId, session);
                                 logger.warn(`Created new empty session (should not happen): ${sessionId}`);
                                 isNewSession = true;
@@ -1085,7 +1324,7 @@ function startWebSocketServer(server: http.Server): void {
                             if (!session) {
                                 logger.warn(`Rejected null session on login: ${sessionId}`);
                                 sessions.delete(sessionId);
-                                ws.send(JSON.stringify({ type: 'login_error', error: 'Invalid session. Please log in again.' }));
+                                sendMessage(ws, { type: 'login_error', code: 'not_authenticated', error: 'Invalid session. Please log in again.' });
                                 ws.close();
                                 break;
                             }
@@ -1097,7 +1336,7 @@ function startWebSocketServer(server: http.Server): void {
                             if (!(spotifyName && spotifyEmail) && !(listenerName && listenerEmail)) {
                                 logger.warn(`Rejected invalid session on login: ${sessionId}`);
                                 sessions.delete(sessionId);
-                                ws.send(JSON.stringify({ type: 'login_error', error: 'Invalid session. Please log in again.' }));
+                                sendMessage(ws, { type: 'login_error', code: 'not_authenticated', error: 'Invalid session. Please log in again.' });
                                 ws.close();
                                 break;
                             }
@@ -1106,6 +1345,7 @@ function startWebSocketServer(server: http.Server): void {
                             // Policy: Only one session per email address is allowed
                             const currentUserEmail = spotifyEmail || listenerEmail;
                             let masterWasTransferred = false;
+                            const previousRoomId = session.roomId;
                             
                             if (currentUserEmail) {
                                 const duplicateSessions: string[] = [];
@@ -1124,18 +1364,23 @@ function startWebSocketServer(server: http.Server): void {
                                 for (const duplicateSessionId of duplicateSessions) {
                                     const duplicateSession = sessions.get(duplicateSessionId);
                                     const duplicateWs = duplicateSession?.ws;
+                                    const duplicateRoom = getSessionRoom(duplicateSessionId);
                                     
-                                    // If this duplicate session is the master, transfer master status to new session
-                                    if (duplicateSessionId === masterUserSessionId && spotifyEmail && session.state?.spotify?.access_token) {
-                                        logger.info(`Transferring master status from old session ${duplicateSessionId} to new session ${sessionId} (same user: ${currentUserEmail})`);
-                                        masterUserSessionId = sessionId;
+                                    // If this duplicate session is the master, transfer master status (and its room) to new session
+                                    if (duplicateSessionId === duplicateRoom.masterUserSessionId && spotifyEmail && session.state?.spotify?.access_token) {
+                                        logger.info(`Transferring master status of room ${duplicateRoom.id} from old session ${duplicateSessionId} to new session ${sessionId} (same user: ${currentUserEmail})`);
+                                        duplicateRoom.masterUserSessionId = sessionId;
+                                        session.roomId = duplicateRoom.id;
                                         masterWasTransferred = true;
                                         
                                         // Restart polling if we're in play mode
-                                        if (mode === 'master_play') {
-                                            stopPolling();
-                                            startPolling();
+                                        if (duplicateRoom.mode === 'master_play') {
+                                            stopPolling(duplicateRoom);
+                                            startPolling(duplicateRoom);
                                         }
+                                    } else if (duplicateSession && !message.roomId) {
+                                        // Reconnecting user stays in the room they were in
+                                        session.roomId = duplicateSession.roomId;
                                     }
                                     
                                     // Delete the duplicate session
@@ -1153,38 +1398,36 @@ function startWebSocketServer(server: http.Server): void {
                                 }
                             }
                             
-                            assignMasterUserIfNeeded();
+                            // Join the requested room if one was given on login
+                            if (message.roomId && roomManager.hasRoom(message.roomId)) {
+                                session.roomId = message.roomId;
+                            } else if (!roomManager.hasRoom(session.roomId)) {
+                                session.roomId = DEFAULT_ROOM_ID;
+                            }
+                            room = getSessionRoom(sessionId);
+                            if (previousRoomId && previousRoomId !== room.id && roomManager.hasRoom(previousRoomId)) {
+                                handleSessionLeftRoom(sessionId, roomManager.getRoom(previousRoomId)!);
+                            }
+                            
+                            assignMasterUserIfNeeded(room).catch(err => logger.error(`Failed to assign a master in room ${room.id}:`, err));
                             
                             // If master was transferred, broadcast the mode update to all clients
                             if (masterWasTransferred) {
-                                broadcastMode();
+                                broadcastMode(room);
                             }
                             
-                                    ws.send(JSON.stringify({
+                                    sendMessage(ws, {
                                         type: 'login_success',
                                         sessionId,
-                                        userId: message.userId
-                                    }));
+                                        publicSessionId: publicSessionId(sessionId),
+                                        userId: message.userId,
+                                        roomId: room.id,
+                                        protocolVersion
+                                    });
                             // Send initial state
-                            ws.send(JSON.stringify({
-                                type: 'tracks_list',
-                                tracks: getDisplayTrackList()
-                            }));
-                            ws.send(JSON.stringify({
-                                type: 'mode',
-                                mode,
-                                currentlyPlayingTrack,
-                                masterUserSessionId,
-                                canTakeMasterControl: canTakeMasterControl(currentUserEmail),
-                                fallbackPlaylist: queueManager.getFallbackInfo(),
-                            }));
-                            // Send history to newly connected user
-                            ws.send(JSON.stringify({
-                                type: 'history',
-                                history: history.slice(-100) // Send last 100 events
-                            }));
+                            sendRoomState(ws, room, currentUserEmail);
                             if (sessionId) sendSessionMode(sessionId);
-                            broadcastSessionList();
+                            broadcastSessionList(room);
                             serializeSessions();
                             
                             // Add user connected event to history ONLY for new sessions (not reconnections)
@@ -1198,75 +1441,55 @@ function startWebSocketServer(server: http.Server): void {
                                     details: { loginType }
                                 };
                                 logger.info('Adding user_connected event to history (new session):', JSON.stringify(connectEvent));
-                                history.push(connectEvent);
-                                broadcastHistory();
+                                room.history.push(connectEvent);
+                                broadcastHistory(room);
                             } else {
                                 logger.info(`Skipping user_connected event for ${currentUserEmail} (reconnection, not new session)`);
                             }
                             break;
+                        }
                         case 'get_tracks':
                             // Respond with the current track list
-                            ws.send(JSON.stringify({
+                            sendMessage(ws, {
                                 type: 'tracks_list',
-                                tracks: getDisplayTrackList()
-                            }));
+                                tracks: getDisplayTrackList(room)
+                            });
                             break;
                         case 'get_sessions':
                             // Respond with the current session list (deduplicated by email)
-                            const emailToSession = new Map<string, { sessionId: string; userId: string | null; name: string; email: string; isMaster: boolean }>();
-                            
-                            for (const [sessionId, session] of sessions.entries()) {
-                                let name = 'Unknown';
-                                let email = 'No email';
-                                
-                                // Check for Spotify session first
-                                if (session.state?.spotify?.name) {
-                                    name = session.state.spotify.name;
-                                    email = session.state.spotify.email || 'No email';
-                                } else if (session.state?.listener?.name) {
-                                    // Check for listener session
-                                    name = session.state.listener.name;
-                                    email = session.state.listener.email || 'No email';
-                                } else {
-                                    // Invalid session, skip
-                                    continue;
-                                }
-                                
-                                // If we already have a session for this email, only replace if this session is newer
-                                if (!emailToSession.has(email) || sessionId > emailToSession.get(email)!.sessionId) {
-                                    emailToSession.set(email, {
-                                        sessionId,
-                                        userId: session.userId,
-                                        name,
-                                        email,
-                                        isMaster: sessionId === masterUserSessionId
-                                    });
-                                }
-                            }
-                            
-                            const sessionList = Array.from(emailToSession.values());
-                            ws.send(JSON.stringify({ type: 'sessions_list', sessions: sessionList }));
+                            sendMessage(ws, { type: 'sessions_list', sessions: getSessionListEntries(room) });
                             break;
                         case 'remove_track':
-                            // Remove track from the queue
-                            if (message.spotifyUri && message.sessionId) {
-                                const removedTrack = queueManager.removeTrack(message.spotifyUri);
+                            // Remove track from the queue, by queue item id or URI
+                            if ((message.itemId || message.spotifyUri) && message.sessionId) {
+                                const ref = (message.itemId || message.spotifyUri)!;
+                                const trackToRemove = room.queueManager.getTrack(ref);
+                                if (trackToRemove && !sessionCan('remove_track', message.sessionId, room, trackToRemove.userEmail)) {
+                                    logger.warn(`Session ${message.sessionId} is not allowed to remove ${ref}`);
+                                    sendError(ws, 'permission_denied', 'You can only remove your own tracks.', 'remove_track');
+                                    break;
+                                }
+                                const removedIndex = trackToRemove ? room.queueManager.getSubmittedTracks().indexOf(trackToRemove) : -1;
+                                const removedTrack = room.queueManager.removeTrack(ref);
                                 if (removedTrack) {
-                                    saveTracksToFile();
+                                    saveTracks(room);
+                                    recordUndo(room, getSessionEmail(message.sessionId), { action: 'remove_track', track: removedTrack, index: removedIndex });
                                     const removerSession = sessions.get(message.sessionId);
-                                    const removerName = removerSession?.state?.spotify?.name || 'Unknown User';
-                                    const removerEmail = removerSession?.state?.spotify?.email || 'No email';
+                                    const removerName = removerSession?.state?.spotify?.name || removerSession?.state?.listener?.name || 'Unknown User';
+                                    const removerEmail = getSessionEmail(message.sessionId) || 'No email';
                                     const trackName = removedTrack.name || 'Unknown Track';
                                     const trackArtist = removedTrack.artist || 'Unknown Artist';
                                     const trackAlbum = removedTrack.album || 'Unknown Album';
                                     
-                                    logger.info(`Track removed: "${trackName}" by ${trackArtist} (${trackAlbum}) [${message.spotifyUri}] - Removed by ${removerName} (${removerEmail}) [${message.sessionId}]`);
-                                    broadcastTrackList();
+                                    logger.info(`Track removed: "${trackName}" by ${trackArtist} (${trackAlbum}) [${removedTrack.spotifyUri} ${removedTrack.id}] - Removed by ${removerName} (${removerEmail}) [${message.sessionId}]`);
+                                    broadcastTrackList(room);
                                 }
                             }
                             break;
                         case 'jam':
-                            if (message.spotifyUri && message.sessionId) {
+                            if ((message.itemId || message.spotifyUri) && message.sessionId) {
+                                // Queue item id, or the track's URI (the first queued item of it)
+                                const ref = (message.itemId || message.spotifyUri)!;
                                 let updated = false;
                                 // Get the user's email
                                 const jammerSession = sessions.get(message.sessionId);
@@ -1275,20 +1498,35 @@ function startWebSocketServer(server: http.Server): void {
                                 if (!jammerEmail) return; // Don't allow jam if no email
                                 
                                 // Check if this is a fallback track (not currently playing)
-                                const fallbackTrack = queueManager.getFallbackTracks().find(t => t.spotifyUri === message.spotifyUri);
-                                const isCurrentlyPlaying = currentlyPlayingTrack && currentlyPlayingTrack.spotifyUri === message.spotifyUri;
+                                const fallbackTrack = room.queueManager.getFallbackTrack(ref);
+                                const isCurrentlyPlaying = !!room.currentlyPlayingTrack && (message.itemId
+                                    ? room.currentlyPlayingTrack.id === message.itemId
+                                    : room.currentlyPlayingTrack.spotifyUri === message.spotifyUri);
                                 
                                 if (fallbackTrack && !isCurrentlyPlaying) {
                                     // For fallback tracks NOT currently playing: jamming means adding to the real queue
-                                    logger.info(`User ${jammerEmail} is adding fallback track ${message.spotifyUri} to real queue`);
+                                    logger.info(`User ${jammerEmail} is adding fallback track ${fallbackTrack.spotifyUri} to real queue`);
                                     
-                                    // Check if already in submitted tracks
-                                    if (!queueManager.hasTrack(message.spotifyUri)) {
+                                    // Adding it counts as a submission of the jammer's
+                                    const quota = room.queueManager.getSubmissionQuota(jammerEmail);
+                                    if (quota.remaining === 0) {
+                                        sendError(ws, 'quota_exceeded', quota.reason || 'Submission limit reached', message.type);
+                                        break;
+                                    }
+                                    // The filter may have changed since the track was drawn
+                                    const filterReason = room.queueManager.getContentFilterReason(fallbackTrack);
+                                    if (filterReason) {
+                                        sendError(ws, 'content_filtered', filterReason, message.type);
+                                        break;
+                                    }
+                                    // Check if already in submitted tracks; then it is only queued again or merged as the room's policy says
+                                    const duplicatePolicy = room.queueManager.getDuplicatePolicy();
+                                    if (!room.queueManager.hasTrack(fallbackTrack.spotifyUri) || duplicatePolicy === 'allow') {
                                         // Remove from fallback queue to avoid playing it twice
-                                        queueManager.removeFallbackTrack(message.spotifyUri);
+                                        room.queueManager.removeFallbackTrack(fallbackTrack.id!);
                                         
                                         // Add to real queue
-                                        queueManager.addTrack({
+                                        room.queueManager.addTrack({
                                             spotifyUri: fallbackTrack.spotifyUri,
                                             userEmail: jammerEmail,
                                             spotifyName: jammerName,
@@ -1297,20 +1535,38 @@ function startWebSocketServer(server: http.Server): void {
                                             artist: fallbackTrack.artist || '',
                                             album: fallbackTrack.album || '',
                                             albumArtUrl: fallbackTrack.albumArtUrl || '',
+                                            explicit: fallbackTrack.explicit,
+                                            durationMs: fallbackTrack.durationMs,
+                                            popularity: fallbackTrack.popularity,
+                                            artistIds: fallbackTrack.artistIds,
                                             jamCounts: { [jammerEmail]: 1 } // Start with 1 jam from the user who added it
                                         });
-                                        saveTracksToFile();
-                                        history.push({
+                                        saveTracks(room);
+                                        room.history.push({
                                             type: 'track_added',
                                             timestamp: Date.now(),
                                             userName: jammerName,
                                             userEmail: jammerEmail,
-                                            details: { track: fallbackTrack.name || message.spotifyUri }
+                                            details: { track: fallbackTrack.name || fallbackTrack.spotifyUri }
+                                        });
+                                        broadcastTrackList(room);
+                                        broadcastHistory(room);
+                                    } else if (duplicatePolicy === 'merge') {
+                                        // It counts as a jam on the queued one
+                                        const merged = room.queueManager.mergeDuplicate(fallbackTrack.spotifyUri, jammerEmail)!;
+                                        room.queueManager.removeFallbackTrack(fallbackTrack.id!);
+                                        saveTracks(room);
+                                        room.history.push({
+                                            type: 'jam',
+                                            timestamp: Date.now(),
+                                            userName: jammerName,
+                                            userEmail: jammerEmail,
+                                            details: { track: merged.name || merged.spotifyUri, jammed: true }
                                         });
-                                        broadcastTrackList();
-                                        broadcastHistory();
+                                        broadcastTrackList(room);
+                                        broadcastHistory(room);
                                     } else {
-                                        logger.info(`Fallback track ${message.spotifyUri} already in submitted queue`);
+                                        logger.info(`Fallback track ${fallbackTrack.spotifyUri} already in submitted queue`);
                                     }
                                     break; // Exit early for fallback tracks in queue
                                 }
@@ -1330,7 +1586,7 @@ function startWebSocketServer(server: http.Server): void {
                                 };
                                 
                                 // Update in queue (for regular submitted tracks)
-                                const track = queueManager.getSubmittedTracks().find(t => t.spotifyUri === message.spotifyUri);
+                                const track = room.queueManager.getTrack(ref);
                                 let jammed = false;
                                 if (track) {
                                     migrateJammers(track);
@@ -1353,217 +1609,274 @@ function startWebSocketServer(server: http.Server): void {
                                     }
                                 }
                                 // Update currently playing track if it matches
-                                if (
-                                    currentlyPlayingTrack &&
-                                    currentlyPlayingTrack.spotifyUri === message.spotifyUri
-                                ) {
-                                    migrateJammers(currentlyPlayingTrack);
+                                if (room.currentlyPlayingTrack && isCurrentlyPlaying) {
+                                    migrateJammers(room.currentlyPlayingTrack);
                                     if (message.unjam) {
                                         // Shift-click: unjam (decrement or remove)
-                                        if (currentlyPlayingTrack.jamCounts![jammerEmail] && currentlyPlayingTrack.jamCounts![jammerEmail] > 0) {
-                                            currentlyPlayingTrack.jamCounts![jammerEmail]--;
-                                            if (currentlyPlayingTrack.jamCounts![jammerEmail] === 0) {
-                                                delete currentlyPlayingTrack.jamCounts![jammerEmail];
+                                        if (room.currentlyPlayingTrack.jamCounts![jammerEmail] && room.currentlyPlayingTrack.jamCounts![jammerEmail] > 0) {
+                                            room.currentlyPlayingTrack.jamCounts![jammerEmail]--;
+                                            if (room.currentlyPlayingTrack.jamCounts![jammerEmail] === 0) {
+                                                delete room.currentlyPlayingTrack.jamCounts![jammerEmail];
                                             }
                                             updated = true;
                                             jammed = false;
                                         }
                                     } else {
                                         // Regular click: jam (increment)
-                                        if (!currentlyPlayingTrack.jamCounts![jammerEmail]) currentlyPlayingTrack.jamCounts![jammerEmail] = 0;
-                                        currentlyPlayingTrack.jamCounts![jammerEmail]++;
+                                        if (!room.currentlyPlayingTrack.jamCounts![jammerEmail]) room.currentlyPlayingTrack.jamCounts![jammerEmail] = 0;
+                                        room.currentlyPlayingTrack.jamCounts![jammerEmail]++;
                                         updated = true;
                                         jammed = true;
                                     }
                                 }
                                 if (updated) {
                                     const action = message.unjam ? 'unjammed' : 'jammed';
-                                    logger.info(`User ${jammerEmail} ${action} track ${message.spotifyUri}`);
-                                    history.push({
+                                    logger.info(`User ${jammerEmail} ${action} track ${ref}`);
+                                    room.history.push({
                                         type: jammed ? 'jam' : 'unjam',
                                         timestamp: Date.now(),
                                         userName: jammerName,
                                         userEmail: jammerEmail,
-                                        details: { track: (track?.name || currentlyPlayingTrack?.name || message.spotifyUri), jammed }
+                                        details: { track: (track?.name || room.currentlyPlayingTrack?.name || ref), jammed }
                                     });
-                                    saveTracksToFile(); // Save the updated jam counts
-                                    broadcastTrackList();
-                                    broadcastMode();
-                                    broadcastHistory();
+                                    // In jam_weighted mode the jam may move the track up the queue
+                                    if (track) room.queueManager.applyJamOrdering();
+                                    saveTracks(room); // Save the updated jam counts
+                                    broadcastTrackList(room);
+                                    broadcastMode(room);
+                                    broadcastHistory(room);
                                 }
                             }
                             break;
                         
                         case 'delay_track':
                             // Move track back by one position in the queue
-                            if (message.spotifyUri && message.sessionId) {
-                                const moved = queueManager.moveTrackBackOne(message.spotifyUri);
-                                if (moved) {
-                                    saveTracksToFile();
-                                    logger.info(`Track delayed one position: ${message.spotifyUri} by ${message.sessionId}`);
-                                    broadcastTrackList();
+                            if ((message.itemId || message.spotifyUri) && message.sessionId) {
+                                const ref = (message.itemId || message.spotifyUri)!;
+                                const trackToDelay = room.queueManager.getTrack(ref);
+                                if (trackToDelay && !sessionCan('delay_track', message.sessionId, room, trackToDelay.userEmail)) {
+                                    logger.warn(`Session ${message.sessionId} is not allowed to delay ${ref}`);
+                                    sendError(ws, 'permission_denied', 'You can only delay your own tracks.', 'delay_track');
+                                    break;
+                                }
+                                const delayedIndex = trackToDelay ? room.queueManager.getSubmittedTracks().indexOf(trackToDelay) : -1;
+                                const moved = room.queueManager.moveTrackBackOne(ref);
+                                if (moved && trackToDelay) {
+                                    saveTracks(room);
+                                    recordUndo(room, getSessionEmail(message.sessionId), { action: 'delay_track', track: trackToDelay, index: delayedIndex });
+                                    logger.info(`Track delayed one position: ${ref} by ${message.sessionId}`);
+                                    broadcastTrackList(room);
                                 } else {
-                                    logger.info(`Delay request ignored (not found or last item): ${message.spotifyUri}`);
+                                    logger.info(`Delay request ignored (not found or last item): ${ref}`);
                                 }
                             }
                             break;
                         
+                        case 'move_track':
+                        case 'reorder_queue': {
+                            // Moderators move tracks anywhere in the queue
+                            if (!sessionCan('reorder_queue', message.sessionId, room)) {
+                                sendError(ws, 'permission_denied', 'Only the master, moderators and admins can reorder the queue.', message.type);
+                                break;
+                            }
+                            const refs = message.type === 'move_track'
+                                ? [message.itemId || message.spotifyUri].filter((ref): ref is string => !!ref)
+                                : (message.itemIds || message.spotifyUris || []).map(String);
+                            if (refs.length === 0) {
+                                sendError(ws, 'invalid_message', 'Give the tracks to move by itemId or spotifyUri.', message.type);
+                                break;
+                            }
+                            const result = message.type === 'move_track'
+                                ? reorderQueue(room, message.sessionId, message.fair, options => message.toIndex === undefined
+                                    ? room.queueManager.moveToFront(refs[0], options)
+                                    : room.queueManager.moveTrack(refs[0], message.toIndex, options), refs[0])
+                                : reorderQueue(room, message.sessionId, message.fair, options => room.queueManager.reorderTracks(refs, options));
+                            if (result.error) {
+                                sendError(ws, REORDER_ERRORS[result.error].code, REORDER_ERRORS[result.error].message, message.type);
+                            }
+                            break;
+                        }
+
+                        case 'undo': {
+                            // Take back this user's latest remove, delay, skip or fallback playlist replacement
+                            const undoerEmail = getSessionEmail(message.sessionId);
+                            const entry = undoerEmail ? room.undoStack.pop(undoerEmail) : null;
+                            if (!undoerEmail || !entry) {
+                                sendError(ws, 'not_found', 'Nothing to undo.', 'undo');
+                                break;
+                            }
+                            const refusal = await applyUndo(room, entry);
+                            if (refusal) {
+                                sendError(ws, 'invalid_state', refusal, 'undo');
+                                break;
+                            }
+                            const undoerSession = sessions.get(message.sessionId);
+                            const undoerName = undoerSession?.state?.spotify?.name || undoerSession?.state?.listener?.name || 'Unknown User';
+                            logger.info(`${entry.action} undone by ${undoerName} (${undoerEmail})`);
+                            room.history.push({
+                                type: 'undo',
+                                timestamp: Date.now(),
+                                userName: undoerName,
+                                userEmail: undoerEmail,
+                                details: entry.action === 'replace_fallback_playlist'
+                                    ? { action: entry.action, playlist: entry.previous.name || entry.previous.url }
+                                    : { action: entry.action, track: entry.track.name || entry.track.spotifyUri, itemId: entry.track.id }
+                            });
+                            broadcastHistory(room);
+                            break;
+                        }
+
                         case 'play_track':
                             // Broadcast play_track to all clients
                             if (message.trackId) {
-                                for (const s of sessions.values()) {
-                                    if (s.ws) s.ws.send(JSON.stringify({ type: 'play_track', trackId: message.trackId }));
+                                for (const [, s] of getRoomSessions(room)) {
+                                    if (s.ws) sendMessage(s.ws, { type: 'play_track', trackId: message.trackId });
                                 }
                             }
                             break;
                         case 'master_play':
-                            if (mode !== 'master_play') {
-                                mode = 'master_play';
-                                logger.info('Playback mode set to master_play');
-                                // If no currently playing track, try to get the next track (submitted or fallback)
-                                if (!currentlyPlayingTrack) {
-                                    const masterSession = masterUserSessionId ? sessions.get(masterUserSessionId) : null;
-                                    const masterAccessToken = masterSession?.state?.spotify?.access_token;
-                                    const nextTrackInfo = await queueManager.peekNextTrack(masterAccessToken);
-                                    if (nextTrackInfo) {
-                                        const newTrack = nextTrackInfo.track;
-                                        currentlyPlayingTrack = newTrack;
-                                        currentTrackIsFallback = nextTrackInfo.isFallback;
-                                        currentTrackConsumed = false; // Track not yet consumed
-                                        if (!nextTrackInfo.isFallback) {
-                                            logger.info(`Now playing: ${newTrack.name || newTrack.spotifyUri} (not consumed yet)`);
-                                        } else {
-                                            logger.info(`Now playing fallback track: ${newTrack.name || newTrack.spotifyUri} (not consumed yet)`);
-                                            // Don't add fallback plays to history per user request
-                                        }
-                                        broadcastTrackList();
-                                    }
-                                }
-                                // Play/resume the current track on Spotify for each session
-                                if (currentlyPlayingTrack && currentlyPlayingTrack.spotifyUri) {
-                                    lastTrackChangeCommand = Date.now(); // Mark that we commanded playback
-                                    startPlaybackFailureTracking(currentlyPlayingTrack.spotifyUri);
-                                    await playTrackForSessions(currentlyPlayingTrack, false);
-                                }
-                                broadcastMode();
-                                startPolling();
+                            if (!sessionCan('control_playback', message.sessionId, room)) {
+                                sendError(ws, 'permission_denied', PLAYBACK_CONTROL_REFUSAL, 'master_play');
+                                break;
+                            }
+                            if (await room.playback.resume()) {
+                                startPolling(room);
                             }
                             break;
                         case 'master_pause':
-                            if (mode !== 'master_pause') {
-                                mode = 'master_pause';
-                                logger.info('Playback mode set to master_pause');
-                                // Pause all Spotify sessions
-                                for (const [sid, sess] of sessions.entries()) {
-                                    const accessToken = sess.state?.spotify?.access_token;
-                                    if (accessToken) {
-                                        try {
-                                            await spotifyDelegate.pause(accessToken);
-                                            logger.info(`Paused Spotify playback for session ${sid}`);
-                                        } catch (err) {
-                                            logger.error(`Failed to pause Spotify for session ${sid}:`, err);
-                                        }
-                                    }
-                                }
-                                broadcastMode();
-                                stopPolling();
+                            if (!sessionCan('control_playback', message.sessionId, room)) {
+                                sendError(ws, 'permission_denied', PLAYBACK_CONTROL_REFUSAL, 'master_pause');
+                                break;
+                            }
+                            if (await room.playback.pause()) {
+                                stopPolling(room);
                             }
                             break;
                         case 'master_skip':
                             // Skip to next track (user-submitted or fallback)
                             logger.info('Master skip requested');
-                            if (mode === 'master_play') {
-                                lastManualSkipAt = Date.now();
-                                // Before changing currentlyPlayingTrack, push to playHistory and history
-                                if (currentlyPlayingTrack) {
-                                    const trackCopy = { ...currentlyPlayingTrack };
-                                    logger.info('Adding to play history:', JSON.stringify({ 
-                                        name: trackCopy.name, 
-                                        artist: trackCopy.artist, 
-                                        album: trackCopy.album,
-                                        albumArtUrl: trackCopy.albumArtUrl,
-                                        spotifyUri: trackCopy.spotifyUri
-                                    }));
-                                    playHistory.push({
-                                        timestamp: Date.now(),
-                                        track: trackCopy,
-                                        startedBy: masterUserSessionId ? (sessions.get(masterUserSessionId)?.state?.spotify?.name || sessions.get(masterUserSessionId)?.state?.listener?.name || '') : undefined
-                                    });
-                                    broadcastPlayHistory();
-                                    
-                                    // Add skip event to history
-                                    const skipperName = masterUserSessionId ? (sessions.get(masterUserSessionId)?.state?.spotify?.name || sessions.get(masterUserSessionId)?.state?.listener?.name || 'Unknown') : 'Unknown';
-                                    const skipperEmail = masterUserSessionId ? (sessions.get(masterUserSessionId)?.state?.spotify?.email || sessions.get(masterUserSessionId)?.state?.listener?.email || '') : '';
-                                    history.push({
-                                        type: 'track_skip',
-                                        timestamp: Date.now(),
-                                        userName: skipperName,
-                                        userEmail: skipperEmail,
-                                        details: { track: { ...currentlyPlayingTrack } }
-                                    });
-                                    broadcastHistory();
-                                }
-                                
-                                // Get master user's access token for fallback playlist loading
-                                const masterSession = masterUserSessionId ? sessions.get(masterUserSessionId) : null;
-                                const masterAccessToken = masterSession?.state?.spotify?.access_token;
-                                const nextTrackInfo = await queueManager.peekNextTrack(masterAccessToken);
-                                
-                                if (nextTrackInfo) {
-                                    const newTrack = nextTrackInfo.track;
-                                    await setCurrentTrackAndStart(newTrack, nextTrackInfo.isFallback, false);
-                                    // Immediately consume since this is a manual skip
-                                    queueManager.consumeNextTrack(nextTrackInfo.isFallback);
-                                    currentTrackConsumed = true;
-                                    if (!nextTrackInfo.isFallback) {
-                                        saveTracksToFile();
-                                    }
-                                    logger.info(`✓ Track consumed from queue (manual skip)`);
-                                    // Broadcast updated track list after consumption
-                                    broadcastTrackList();
-                                } else {
-                                    logger.info('No more tracks to skip to');
-                                }
+                            if (!sessionCan('control_playback', message.sessionId, room)) {
+                                sendError(ws, 'permission_denied', PLAYBACK_CONTROL_REFUSAL, 'master_skip');
+                                break;
+                            }
+                            if (room.mode === 'master_play') {
+                                const skipperSession = sessions.get(message.sessionId);
+                                await skipCurrentTrack(room, {
+                                    name: skipperSession?.state?.spotify?.name || skipperSession?.state?.listener?.name || 'Unknown',
+                                    email: getSessionEmail(message.sessionId) || ''
+                                });
                             } else {
                                 logger.info('Cannot skip when playback is paused');
                             }
                             break;
+                        case 'vote_skip': {
+                            // Listeners vote to skip the current track; enough votes advance like master_skip
+                            const voterSession = sessions.get(message.sessionId);
+                            const voterEmail = voterSession?.state?.spotify?.email || voterSession?.state?.listener?.email;
+                            const voterName = voterSession?.state?.spotify?.name || voterSession?.state?.listener?.name || 'Unknown';
+                            if (!voterEmail) {
+                                sendError(ws, 'not_authenticated', 'You must be logged in to vote', 'vote_skip');
+                                break;
+                            }
+                            if (room.mode !== 'master_play' || !room.currentlyPlayingTrack) {
+                                sendError(ws, 'invalid_state', 'Nothing is playing', 'vote_skip');
+                                break;
+                            }
+                            // Ignore votes cast for a track that has already changed
+                            if ((message.itemId && message.itemId !== room.currentlyPlayingTrack.id)
+                                || (message.spotifyUri && message.spotifyUri !== room.currentlyPlayingTrack.spotifyUri)) {
+                                logger.info(`Ignoring stale skip vote from ${voterEmail} for ${message.itemId || message.spotifyUri}`);
+                                break;
+                            }
+                            const voters = getSkipVoters(room);
+                            if (message.unvote) {
+                                voters.delete(voterEmail);
+                            } else {
+                                voters.set(voterEmail, voterName);
+                            }
+                            const required = getRequiredSkipVotes(room);
+                            logger.info(`Skip votes for ${room.currentlyPlayingTrack.name || room.currentlyPlayingTrack.spotifyUri}: ${voters.size}/${required}`);
+                            if (voters.size >= required) {
+                                const voterNames = Array.from(voters.values());
+                                const voterEmails = Array.from(voters.keys());
+                                voters.clear();
+                                // Recorded under all the voters rather than whoever cast the deciding vote
+                                await skipCurrentTrack(room, { name: voterNames.join(', '), email: 'vote@system' }, { voteSkip: true, voters: voterNames, voterEmails, required });
+                            }
+                            broadcastMode(room);
+                            break;
+                        }
+                        case 'set_queue_ordering':
+                            // Switch between fair and jam-weighted queue ordering
+                            if (!sessionCan('configure_room', message.sessionId, room)) {
+                                sendError(ws, 'permission_denied', ROOM_SETTINGS_REFUSAL, 'set_queue_ordering');
+                                break;
+                            }
+                            if (message.policy !== 'fair' && message.policy !== 'jam_weighted') {
+                                sendError(ws, 'invalid_message', `Unknown queue ordering policy: ${message.policy}`, 'set_queue_ordering');
+                                break;
+                            }
+                            room.queueManager.setOrderingPolicy(message.policy, message.maxJamPromotion);
+                            saveTracks(room);
+                            broadcastTrackList(room);
+                            broadcastMode(room);
+                            break;
+                        case 'set_no_repeat':
+                            // Change how long played tracks are kept from coming back
+                            if (!sessionCan('configure_room', message.sessionId, room)) {
+                                sendError(ws, 'permission_denied', ROOM_SETTINGS_REFUSAL, 'set_no_repeat');
+                                break;
+                            }
+                            if (message.windowMinutes !== undefined && !(Number.isFinite(message.windowMinutes) && message.windowMinutes >= 0)) {
+                                sendError(ws, 'invalid_message', 'windowMinutes must be 0 or more.', 'set_no_repeat');
+                                break;
+                            }
+                            room.queueManager.setNoRepeatSettings({ windowMinutes: message.windowMinutes, submissions: message.submissions });
+                            saveRooms();
+                            broadcastMode(room);
+                            break;
+                        case 'set_duplicate_policy':
+                            // Change what happens to submissions of tracks that are already queued
+                            if (!sessionCan('configure_room', message.sessionId, room)) {
+                                sendError(ws, 'permission_denied', ROOM_SETTINGS_REFUSAL, 'set_duplicate_policy');
+                                break;
+                            }
+                            if (!DUPLICATE_POLICIES.includes(message.policy)) {
+                                sendError(ws, 'invalid_message', `Unknown duplicate policy: ${message.policy}`, 'set_duplicate_policy');
+                                break;
+                            }
+                            room.queueManager.setDuplicatePolicy(message.policy);
+                            saveRooms();
+                            broadcastMode(room);
+                            break;
+                        case 'set_content_filter': {
+                            // Change which tracks may be played
+                            if (!sessionCan('configure_room', message.sessionId, room)) {
+                                sendError(ws, 'permission_denied', ROOM_SETTINGS_REFUSAL, 'set_content_filter');
+                                break;
+                            }
+                            // Blocked tracks may be given as links; they are matched by URI
+                            const blockedTrackUris = message.blockedTrackUris?.map(input => spotifyDelegate.parseSpotifyInput(String(input))?.uri || String(input));
+                            room.queueManager.setContentFilter({
+                                allowExplicit: message.allowExplicit,
+                                maxDurationMs: message.maxDurationMs,
+                                blockedArtistIds: message.blockedArtistIds,
+                                blockedTrackUris
+                            });
+                            saveRooms();
+                            broadcastTrackList(room);
+                            broadcastMode(room);
+                            break;
+                        }
                         case 'start_fallback':
                             // Manually start playing from fallback playlist
                             logger.info('Start fallback playlist requested');
-                            const fbMasterSession = masterUserSessionId ? sessions.get(masterUserSessionId) : null;
-                            const fbMasterAccessToken = fbMasterSession?.state?.spotify?.access_token;
-                            
-                            if (!fbMasterAccessToken) {
-                                logger.warn('No master user token available to start fallback');
+                            if (!sessionCan('control_playback', message.sessionId, room)) {
+                                sendError(ws, 'permission_denied', PLAYBACK_CONTROL_REFUSAL, 'start_fallback');
                                 break;
                             }
-                            
-                            // Clear current track and get first fallback track
-                            if (currentlyPlayingTrack) {
-                                playHistory.push({
-                                    timestamp: Date.now(),
-                                    track: { ...currentlyPlayingTrack },
-                                    startedBy: masterUserSessionId ? (fbMasterSession?.state?.spotify?.name || fbMasterSession?.state?.listener?.name || '') : undefined
-                                });
-                                broadcastPlayHistory();
-                            }
-                            
-                            const fallbackTrackInfo = await queueManager.peekNextTrack(fbMasterAccessToken);
-                            
-                            if (fallbackTrackInfo) {
-                                const fbTrack = fallbackTrackInfo.track;
-                                mode = 'master_play';
-                                await setCurrentTrackAndStart(fbTrack, fallbackTrackInfo.isFallback, false);
-                                // Immediately consume since this is a manual start
-                                queueManager.consumeNextTrack(fallbackTrackInfo.isFallback);
-                                currentTrackConsumed = true;
-                                logger.info(`✓ Track consumed from queue (manual start fallback)`);
-                                // Broadcast updated track list after consumption
-                                broadcastTrackList();
-                                startPolling();
-                            } else {
-                                logger.warn('No fallback tracks available');
+                            if (await room.playback.startFallback()) {
+                                startPolling(room);
                             }
                             break;
                         case 'session_play':
@@ -1571,16 +1884,10 @@ function startWebSocketServer(server: http.Server): void {
                                 sessionModes.set(message.sessionId, 'session_play');
                                 logger.info(`Session ${message.sessionId} set to session_play`);
                                 // If there's a currently playing track, start playback for this session at the master's position
-                                if (currentlyPlayingTrack && currentlyPlayingTrack.spotifyUri) {
-                                    const session = sessions.get(message.sessionId);
-                                    const accessToken = session?.state?.spotify?.access_token;
-                                    if (accessToken) {
-                                        try {
-                                            await spotifyDelegate.play(accessToken, { uris: [currentlyPlayingTrack.spotifyUri] });
-                                            logger.info(`Session ${message.sessionId} started playback from beginning`);
-                                        } catch (err) {
-                                            logger.error(`Failed to start playback for session ${message.sessionId}:`, err);
-                                        }
+                                if (room.currentlyPlayingTrack && room.currentlyPlayingTrack.spotifyUri) {
+                                    const target = getPlaybackTarget(message.sessionId);
+                                    if (target) {
+                                        await room.playback.startFollower(target);
                                     }
                                 }
                                 sendSessionMode(message.sessionId);
@@ -1591,11 +1898,10 @@ function startWebSocketServer(server: http.Server): void {
                                 sessionModes.set(message.sessionId, 'session_pause');
                                 logger.info(`Session ${message.sessionId} set to session_pause`);
                                 // Pause only this user's Spotify session
-                                const session = sessions.get(message.sessionId);
-                                const accessToken = session?.state?.spotify?.access_token;
-                                if (accessToken) {
+                                const target = getPlaybackTarget(message.sessionId);
+                                if (target) {
                                     try {
-                                        await spotifyDelegate.pause(accessToken);
+                                        await spotifyDelegate.pause(target.accessToken, target.deviceId);
                                         logger.info(`Paused Spotify playback for session ${message.sessionId}`);
                                     } catch (err) {
                                         logger.error(`Failed to pause Spotify for session ${message.sessionId}:`, err);
@@ -1606,15 +1912,15 @@ function startWebSocketServer(server: http.Server): void {
                             break;
                         case 'airhorn':
                             if (message.airhorn) {
-                                for (const [sid, sess] of sessions.entries()) {
+                                for (const [sid, sess] of getRoomSessions(room)) {
                                     if (sess.ws && sess.ws.readyState === 1) {
-                                        sess.ws.send(JSON.stringify({ type: 'play_airhorn', airhorn: message.airhorn }));
+                                        sendMessage(sess.ws, { type: 'play_airhorn', airhorn: message.airhorn });
                                     }
                                 }
                                 const senderSession = sessions.get(sessionId);
                                 const senderName = senderSession?.state?.spotify?.name || senderSession?.state?.listener?.name || 'Unknown';
                                 const senderEmail = senderSession?.state?.spotify?.email || senderSession?.state?.listener?.email || '';
-                                history.push({
+                                room.history.push({
                                     type: 'airhorn',
                                     timestamp: Date.now(),
                                     userName: senderName,
@@ -1622,83 +1928,11 @@ function startWebSocketServer(server: http.Server): void {
                                     details: { airhorn: message.airhorn }
                                 });
                                 logger.info(`Broadcasted play_airhorn: ${message.airhorn}`);
-                                broadcastHistory();
+                                broadcastHistory(room);
                             }
                             break;
                         case 'get_play_history':
-                            ws.send(JSON.stringify({ type: 'play_history', playHistory: playHistory.slice(-100) }));
-                            break;
-                        case 'master_skip':
-                            if (message.sessionId && message.sessionId === masterUserSessionId) {
-                                // Push current track to play history if present
-                                if (currentlyPlayingTrack) {
-                                    playHistory.push({
-                                        timestamp: Date.now(),
-                                        track: { ...currentlyPlayingTrack },
-                                        startedBy: masterUserSessionId ? (sessions.get(masterUserSessionId)?.state?.spotify?.name || sessions.get(masterUserSessionId)?.state?.listener?.name || '') : undefined
-                                    });
-                                    broadcastPlayHistory();
-                                }
-                                
-                                // Get master user's access token for fallback playlist loading
-                                const masterSession = masterUserSessionId ? sessions.get(masterUserSessionId) : null;
-                                const masterAccessToken = masterSession?.state?.spotify?.access_token;
-                                const nextTrackInfo = await queueManager.peekNextTrack(masterAccessToken);
-                                
-                                if (nextTrackInfo) {
-                                    const newTrack = nextTrackInfo.track;
-                                    currentlyPlayingTrack = newTrack;
-                                    currentTrackIsFallback = nextTrackInfo.isFallback;
-                                    currentTrackConsumed = false; // Track not yet consumed
-                                    if (!nextTrackInfo.isFallback) {
-                                        logger.info(`Skipped to: ${newTrack.name || newTrack.spotifyUri} (not consumed yet)`);
-                                    } else {
-                                        logger.info(`Skipped to fallback queue: ${newTrack.name || newTrack.spotifyUri} (not consumed yet)`);
-                                        
-                                        // Record fallback play in history
-                                        history.push({
-                                            type: 'fallback_play',
-                                            timestamp: Date.now(),
-                                            userName: 'System',
-                                            userEmail: 'fallback@system',
-                                            details: { 
-                                                track: newTrack.name || newTrack.spotifyUri,
-                                                playlist: newTrack.spotifyName || 'Fallback Playlist'
-                                            }
-                                        });
-                                        broadcastHistory();
-                                    }
-
-                                    masterTrackStarted = false;
-                                    lastTrackChangeCommand = Date.now();
-                                    
-                                    // Play the new track for all sessions with session_play mode
-                                    for (const [sid, sess] of sessions.entries()) {
-                                        const sessionMode = sessionModes.get(sid);
-                                        if (sessionMode === 'session_play') {
-                                            const accessToken = sess.state?.spotify?.access_token;
-                                            if (accessToken) {
-                                                try {
-                                                    await spotifyDelegate.play(accessToken, { uris: [newTrack.spotifyUri] });
-                                                } catch (err) {
-                                                    logger.error(`Failed to auto-start playback for session ${sid}:`, err);
-                                                }
-                                            }
-                                        }
-                                    }
-                                    
-                                    broadcastTrackList();
-                                    broadcastMode();
-                                } else {
-                                    currentlyPlayingTrack = null;
-                                    masterTrackStarted = false;
-                                    if (mode !== 'master_pause') {
-                                        mode = 'master_pause';
-                                        broadcastTrackList();
-                                        broadcastMode();
-                                    }
-                                }
-                            }
+                            sendMessage(ws, { type: 'play_history', playHistory: room.playHistory.slice(-100) });
                             break;
                         case 'take_master_control':
                             if (message.sessionId) {
@@ -1707,40 +1941,80 @@ function startWebSocketServer(server: http.Server): void {
                                 const userName = takingSession?.state?.spotify?.name;
                                 
                                 if (canTakeMasterControl(userEmail) && takingSession?.state?.spotify?.access_token) {
-                                    const oldMasterId = masterUserSessionId;
+                                    const oldMasterId = room.masterUserSessionId;
                                     const oldMasterSession = oldMasterId ? sessions.get(oldMasterId) : null;
                                     const oldMasterName = oldMasterSession?.state?.spotify?.name || oldMasterSession?.state?.listener?.name || 'Unknown';
                                     
-                                    masterUserSessionId = message.sessionId;
+                                    room.masterUserSessionId = message.sessionId;
                                     logger.info(`Master control taken by ${userName} (${userEmail}) from ${oldMasterName}`);
                                     
                                     // If there's a current track and master_play mode, start polling
-                                    if (mode === 'master_play') {
-                                        stopPolling(); // Stop old polling
-                                        startPolling(); // Start new polling for new master
+                                    if (room.mode === 'master_play') {
+                                        stopPolling(room); // Stop old polling
+                                        startPolling(room); // Start new polling for new master
                                     }
                                     
-                                    broadcastSessionList();
-                                    broadcastMode();
+                                    broadcastSessionList(room);
+                                    broadcastMode(room);
                                 } else {
                                     logger.warn(`Unauthorized attempt to take master control by ${userName} (${userEmail})`);
+                                    sendError(ws, 'permission_denied', 'Only admins can take master control.', 'take_master_control');
                                 }
                             }
                             break;
+                        case 'request_master':
+                            if (!getPlaybackTarget(message.sessionId)) {
+                                sendError(ws, 'permission_denied', 'Only Spotify users can become master.', 'request_master');
+                                break;
+                            }
+                            if (room.masterUserSessionId === message.sessionId) {
+                                sendError(ws, 'invalid_state', 'You are already the master.', 'request_master');
+                                break;
+                            }
+                            if (room.masterRequest) {
+                                sendError(ws, 'invalid_state', 'Another master request is waiting for an answer.', 'request_master');
+                                break;
+                            }
+                            await requestMaster(room, message.sessionId);
+                            break;
+                        case 'answer_master_request':
+                            if (room.masterUserSessionId !== message.sessionId) {
+                                sendError(ws, 'permission_denied', 'Only the master can answer master requests.', 'answer_master_request');
+                                break;
+                            }
+                            if (!room.masterRequest) {
+                                sendError(ws, 'not_found', 'There is no pending master request.', 'answer_master_request');
+                                break;
+                            }
+                            await answerMasterRequest(room, message.approve, message.approve ? 'approved' : 'denied');
+                            break;
+                        case 'release_master':
+                            if (room.masterUserSessionId !== message.sessionId) {
+                                sendError(ws, 'invalid_state', 'Only the master can release master control.', 'release_master');
+                                break;
+                            }
+                            // Someone waiting for control gets it; otherwise the successor is elected as on failover
+                            if (room.masterRequest) {
+                                await answerMasterRequest(room, true, 'approved');
+                            }
+                            if (room.masterUserSessionId === message.sessionId) {
+                                await failOverMaster(room, 'released', getMasterIdentity(message.sessionId), message.sessionId);
+                            }
+                            break;
                         case 'history_message':
                             if (message.message && message.sessionId) {
                                 const msgSession = sessions.get(message.sessionId);
                                 const userName = msgSession?.state?.spotify?.name || msgSession?.state?.listener?.name || 'Unknown';
                                 const userEmail = msgSession?.state?.spotify?.email || msgSession?.state?.listener?.email || '';
                                 
-                                history.push({
+                                room.history.push({
                                     type: 'message',
                                     timestamp: Date.now(),
                                     userName,
                                     userEmail,
                                     details: { message: message.message }
                                 });
-                                broadcastHistory();
+                                broadcastHistory(room);
                                 logger.info(`History message posted by ${userName}: ${message.message}`);
                             }
                             break;
@@ -1752,11 +2026,74 @@ function startWebSocketServer(server: http.Server): void {
                                     session.lastHeartbeat = Date.now();
                                     // Send pong response
                                     if (session.ws && session.ws.readyState === 1) {
-                                        session.ws.send(JSON.stringify({ type: 'pong' }));
+                                        sendMessage(session.ws, { type: 'pong' });
                                     }
                                 }
                             }
                             break;
+                        case 'get_roles':
+                            if (!sessionCan('manage_roles', message.sessionId, room)) {
+                                sendError(ws, 'permission_denied', 'Only admins can view roles.', 'get_roles');
+                                break;
+                            }
+                            sendMessage(ws, { type: 'roles_list', roles: permissions.getRoles() });
+                            break;
+                        case 'set_role':
+                            if (!sessionCan('manage_roles', message.sessionId, room)) {
+                                sendError(ws, 'permission_denied', 'Only admins can change roles.', 'set_role');
+                                break;
+                            }
+                            if (!message.email || !PermissionManager.isRole(message.role)) {
+                                sendError(ws, 'invalid_message', 'An email and a role (listener, moderator or admin) are required.', 'set_role');
+                                break;
+                            }
+                            applyRoleChange(message.email, message.role);
+                            sendMessage(ws, { type: 'roles_list', roles: permissions.getRoles() });
+                            break;
+                        case 'get_rooms':
+                            sendMessage(ws, { type: 'rooms_list', rooms: getRoomList() });
+                            break;
+                        case 'get_devices': {
+                            let list;
+                            try {
+                                list = await getDeviceList(message.sessionId);
+                            } catch (err) {
+                                logger.error(`Failed to list Spotify devices for session ${message.sessionId}:`, err);
+                                sendError(ws, 'invalid_state', `Could not list Spotify devices: ${getErrorMessage(err)}`, 'get_devices');
+                                break;
+                            }
+                            if (!list) {
+                                sendError(ws, 'invalid_state', 'Only Spotify sessions have devices to pick from.', 'get_devices');
+                                break;
+                            }
+                            sendMessage(ws, { type: 'devices_list', ...list });
+                            break;
+                        }
+                        case 'select_device': {
+                            const result = await selectDevice(message.sessionId, message.deviceId);
+                            if (!result.ok) {
+                                sendError(ws, result.code, result.error, 'select_device');
+                                break;
+                            }
+                            await sendDeviceList(message.sessionId);
+                            break;
+                        }
+                        case 'join_room':
+                            if (message.sessionId && message.roomId) {
+                                const targetRoom = roomManager.getRoom(message.roomId);
+                                if (!targetRoom) {
+                                    sendError(ws, 'not_found', `Room "${message.roomId}" does not exist.`, 'join_room');
+                                    break;
+                                }
+                                moveSessionToRoom(message.sessionId, targetRoom);
+                            }
+                            break;
+                        case 'leave_room':
+                            // Leaving a room always returns the session to the default room
+                            if (message.sessionId) {
+                                moveSessionToRoom(message.sessionId, roomManager.getDefaultRoom());
+                            }
+                            break;
                     }
                 } catch (error) {
                     logger.error('Error processing message:', error);
@@ -1801,11 +2138,45 @@ const loginHandler: RequestHandler = (req: Request<{}, {}, LoginMessage>, res: R
 app.post('/api/login', loginHandler);
 
 
+// The session a REST request acts as, proven by its "Authorization: Bearer <session token>" header.
+// A sessionId in the body or query is optional and must name that same session.
+// Answers 401 or 403 and returns null if the request can't act as a session.
+function authenticateRequest(req: Request, res: Response): string | null {
+    const header = req.headers.authorization || '';
+    const sessionId = header.startsWith('Bearer ') ? verifySessionToken(header.slice('Bearer '.length).trim()) : null;
+    if (!sessionId || !sessions.has(sessionId)) {
+        res.status(401).json({ error: 'Send your session token as "Authorization: Bearer <token>".', code: 'not_authenticated' });
+        return null;
+    }
+    const claimed = req.body?.sessionId ?? req.query.sessionId;
+    if (claimed !== undefined && claimed !== sessionId) {
+        res.status(403).json({ error: 'sessionId does not match the session token.', code: 'session_mismatch' });
+        return null;
+    }
+    return sessionId;
+}
+
+// Helper to resolve the room a REST request targets: an explicit :roomId, otherwise the caller's room
+function resolveRequestRoom(req: Request, sessionId?: string): Room | null {
+    const roomId = (req.params as Record<string, string | undefined>).roomId;
+    if (roomId) {
+        return roomManager.getRoom(roomId) || null;
+    }
+    return getSessionRoom(sessionId);
+}
+
 // REST endpoint to submit a track
-app.post('/api/tracks', async (req: Request, res: Response): Promise<void> => {
-    const { trackId: rawInput, sessionId } = req.body;
-    if (!rawInput || !sessionId) {
-        res.status(400).json({ error: 'Spotify URI/URL/ID and sessionId are required' });
+async function submitTrackHandler(req: Request, res: Response): Promise<void> {
+    const sessionId = authenticateRequest(req, res);
+    if (!sessionId) return;
+    const { trackId: rawInput } = req.body;
+    if (!rawInput) {
+        res.status(400).json({ error: 'Spotify URI/URL/ID is required' });
+        return;
+    }
+    const room = resolveRequestRoom(req, sessionId);
+    if (!room) {
+        res.status(404).json({ error: 'Room not found' });
         return;
     }
     
@@ -1824,7 +2195,7 @@ app.post('/api/tracks', async (req: Request, res: Response): Promise<void> => {
     if (!spotifyDelegate.isSupportedForPlayback(rawInput)) {
         logger.warn(`Unsupported entity type: ${parsed.type} for input: ${rawInput}`);
         res.status(400).json({ 
-            error: `Sorry, ${parsed.type}s are not supported. Please submit a track or playlist.` 
+            error: `Sorry, ${parsed.type}s are not supported. Please submit a track, album, artist, episode, show or playlist.` 
         });
         return;
     }
@@ -1836,7 +2207,7 @@ app.post('/api/tracks', async (req: Request, res: Response): Promise<void> => {
     if (parsed.type === 'playlist') {
         // User submitted a playlist URL - validate it before replacing fallback playlist
         logger.info(`User submitted playlist URL: ${spotifyUri}, attempting to validate and load`);
-        const masterSession = masterUserSessionId ? sessions.get(masterUserSessionId) : null;
+        const masterSession = room.masterUserSessionId ? sessions.get(room.masterUserSessionId) : null;
         const masterAccessToken = masterSession?.state?.spotify?.access_token;
         
         if (!masterAccessToken) {
@@ -1846,12 +2217,17 @@ app.post('/api/tracks', async (req: Request, res: Response): Promise<void> => {
         }
         
         // Try to load the playlist - this validates that it's readable
-        const success = await queueManager.loadFallbackPlaylist(spotifyUri, masterAccessToken);
+        const previous = room.queueManager.getFallbackPlaylistState();
+        const success = await room.queueManager.loadFallbackPlaylist(spotifyUri, masterAccessToken);
         
         if (success) {
             logger.info(`Successfully validated and loaded fallback playlist: ${spotifyUri}`);
+            // It also becomes the playlist used outside scheduled windows
+            room.queueManager.setDefaultFallbackPlaylistUrl(spotifyUri);
+            saveRooms();
+            recordUndo(room, getSessionEmail(sessionId), { action: 'replace_fallback_playlist', previous, playlistUrl: spotifyUri });
             // Broadcast the updated fallback info to all clients
-            broadcastMode();
+            broadcastMode(room);
             res.json({ success: true, message: 'Fallback playlist updated' });
         } else {
             logger.warn(`Failed to load playlist ${spotifyUri} - it may not be readable or may not exist`);
@@ -1862,24 +2238,72 @@ app.post('/api/tracks', async (req: Request, res: Response): Promise<void> => {
         return;
     }
     
-    // Prevent duplicate tracks
-    if (queueManager.hasTrack(spotifyUri)) {
+    // Per-user limits: tracks waiting in the queue, submissions per window and the cooldown after a track of yours plays
+    const quota = room.queueManager.getSubmissionQuota(getSessionEmail(sessionId) || '');
+    if (quota.remaining === 0) {
+        logger.info(`Submission by session ${sessionId} refused: ${quota.reason}`);
+        sendQuotaExceeded(res, quota);
+        return;
+    }
+
+    // Albums, artists and shows expand into several queue items
+    if (parsed.type === 'album' || parsed.type === 'artist' || parsed.type === 'show') {
+        await submitCollection(room, parsed.type, parsed.id, sessionId, res);
+        return;
+    }
+    
+    // A track that is already queued is refused, merged into the queued one as a jam, or queued again, as the room's policy says
+    const duplicatePolicy = room.queueManager.getDuplicatePolicy();
+    if (duplicatePolicy !== 'allow' && room.queueManager.hasTrack(spotifyUri)) {
+        const email = getSessionEmail(sessionId);
+        if (duplicatePolicy === 'merge' && email) {
+            const merged = room.queueManager.mergeDuplicate(spotifyUri, email)!;
+            const session = sessions.get(sessionId);
+            logger.info(`Track ${spotifyUri} already queued, counting it as a jam from ${email}`);
+            saveTracks(room);
+            room.history.push({
+                type: 'jam',
+                timestamp: Date.now(),
+                userName: session?.state?.spotify?.name || session?.state?.listener?.name || 'Unknown',
+                userEmail: email,
+                details: { track: merged.name || spotifyUri, jammed: true }
+            });
+            broadcastTrackList(room);
+            broadcastHistory(room);
+            res.json({ success: true, merged: true, itemId: merged.id, quota: room.queueManager.getSubmissionQuota(email) });
+            return;
+        }
         logger.info(`Track ${spotifyUri} already exists, not adding duplicate.`);
-        res.json({ success: true });
+        res.status(409).json({ error: 'That track is already in the queue.', code: 'duplicate', itemId: room.queueManager.getTrack(spotifyUri)?.id });
+        return;
+    }
+    // Tracks played within the no-repeat window are refused or accepted with a warning, as the master chose
+    const recentPlay = room.queueManager.getRecentPlay(spotifyUri);
+    const warning = recentPlay ? describeRecentPlay(recentPlay) : undefined;
+    if (recentPlay && room.queueManager.getNoRepeatSettings().submissions === 'reject') {
+        logger.info(`Track ${spotifyUri} was played recently, not adding it.`);
+        res.status(409).json({ error: warning, code: 'recently_played', playedAt: recentPlay.timestamp });
+        return;
+    }
+    // Blocked tracks are refused without asking Spotify
+    const blockedReason = room.queueManager.getContentFilterReason({ spotifyUri });
+    if (blockedReason) {
+        res.status(403).json({ error: blockedReason, code: 'content_filtered' });
         return;
     }
-    // Extract the track ID from the URI (e.g., spotify:track:3wel4QF756fwoAUocFbYsm)
-    const match = spotifyUri.match(/spotify:track:([a-zA-Z0-9]+)/);
-    const trackId = match ? match[1] : spotifyUri;
+    // Track or episode ID from the parsed URI (e.g., spotify:track:3wel4QF756fwoAUocFbYsm)
+    const trackId = parsed.id;
             const session = sessions.get(sessionId);
     const spotifyName = session?.state?.spotify?.name || '';
     const accessToken = session?.state?.spotify?.access_token;
     let trackInfo: any = {};
-    const masterSession = masterUserSessionId ? sessions.get(masterUserSessionId) : null;
+    const masterSession = room.masterUserSessionId ? sessions.get(room.masterUserSessionId) : null;
     const masterAccessToken = masterSession?.state?.spotify?.access_token;
     if (masterAccessToken && trackId) {
         try {
-            trackInfo = await getSpotifyTrackInfo(masterAccessToken, trackId);
+            trackInfo = parsed.type === 'episode'
+                ? await spotifyDelegate.getEpisodeInfo(masterAccessToken, trackId)
+                : await getSpotifyTrackInfo(masterAccessToken, trackId);
             if (trackInfo && trackInfo.name && trackInfo.artist && trackInfo.album) {
                 logger.info(`Track info: ${trackInfo.name} | ${trackInfo.artist} | ${trackInfo.album}`);
             }
@@ -1887,6 +2311,13 @@ app.post('/api/tracks', async (req: Request, res: Response): Promise<void> => {
             logger.error('Failed to fetch track info from Spotify', err);
         }
     }
+    // Explicit, too long or by a blocked artist, going by the fetched metadata
+    const filterReason = room.queueManager.getContentFilterReason({ spotifyUri, ...trackInfo });
+    if (filterReason) {
+        logger.info(`Track ${spotifyUri} refused by the content filter: ${filterReason}`);
+        res.status(403).json({ error: filterReason, code: 'content_filtered' });
+        return;
+    }
     // Determine submitter name for both Spotify and listener users
     let submitterName = '';
     let submitterEmail = '';
@@ -1898,20 +2329,488 @@ app.post('/api/tracks', async (req: Request, res: Response): Promise<void> => {
         submitterEmail = session.state.listener.email || '';
     }
     logger.info(`Track submitted: ${spotifyUri} by session ${sessionId} (${submitterName})`);
-    queueManager.addTrack({ spotifyUri, userEmail: submitterEmail, spotifyName: submitterName, timestamp: Date.now(), ...trackInfo });
-    saveTracksToFile();
-    history.push({
+    const queued: SubmittedTrack = { spotifyUri, userEmail: submitterEmail, spotifyName: submitterName, timestamp: Date.now(), ...trackInfo };
+    room.queueManager.addTrack(queued);
+    saveTracks(room);
+    room.history.push({
         type: 'track_added',
         timestamp: Date.now(),
         userName: submitterName,
         userEmail: submitterEmail,
         details: { track: trackInfo.name || spotifyUri }
     });
-    broadcastTrackList();
-    broadcastHistory();
+    broadcastTrackList(room);
+    broadcastHistory(room);
+    res.json({
+        success: true,
+        itemId: queued.id,
+        ...(warning ? { warning, playedAt: recentPlay!.timestamp } : {}),
+        quota: room.queueManager.getSubmissionQuota(submitterEmail)
+    });
+}
+app.post('/api/tracks', submitTrackHandler);
+
+// Refuse a submission the user's limits don't allow, telling the client when to try again
+function sendQuotaExceeded(res: Response, quota: SubmissionQuota) {
+    if (quota.retryAfterMs) {
+        res.set('Retry-After', String(Math.ceil(quota.retryAfterMs / 1000)));
+    }
+    res.status(429).json({ error: quota.reason, code: 'quota_exceeded', quota });
+}
+
+// Warning or error for a submission of a track played within the no-repeat window
+function describeRecentPlay(played: PlayedTrack): string {
+    const minutes = Math.max(1, Math.round((Date.now() - played.timestamp) / 60000));
+    return `"${played.track.name || played.track.spotifyUri}" was played ${minutes} minute${minutes === 1 ? '' : 's'} ago.`;
+}
+
+// Per-submission caps so a single album/artist/show can't flood the queue
+const MAX_TRACKS_PER_SUBMISSION = process.env.MAX_TRACKS_PER_SUBMISSION ? parseInt(process.env.MAX_TRACKS_PER_SUBMISSION, 10) : 10;
+const ARTIST_TOP_TRACKS_COUNT = process.env.ARTIST_TOP_TRACKS_COUNT ? parseInt(process.env.ARTIST_TOP_TRACKS_COUNT, 10) : 5;
+const SHOW_EPISODES_COUNT = process.env.SHOW_EPISODES_COUNT ? parseInt(process.env.SHOW_EPISODES_COUNT, 10) : 3;
+
+// Helper to expand an album, artist (top tracks) or show (latest episodes) and queue each item fairly
+async function submitCollection(room: Room, type: 'album' | 'artist' | 'show', id: string, sessionId: string, res: Response): Promise<void> {
+    const masterSession = room.masterUserSessionId ? sessions.get(room.masterUserSessionId) : null;
+    const masterAccessToken = masterSession?.state?.spotify?.access_token;
+    if (!masterAccessToken) {
+        logger.warn(`No master user token available to expand ${type} ${id}`);
+        res.status(400).json({ error: `Cannot load ${type} - no master user connected` });
+        return;
+    }
+
+    let items: { spotifyUri: string; name: string; artist: string; album: string; albumArtUrl: string | null; explicit: boolean; durationMs: number | null; popularity: number | null; artistIds: string[] }[] = [];
+    try {
+        if (type === 'album') {
+            items = await spotifyDelegate.getAlbumTracks(masterAccessToken, id);
+        } else if (type === 'artist') {
+            items = await spotifyDelegate.getArtistTopTracks(masterAccessToken, id, ARTIST_TOP_TRACKS_COUNT);
+        } else {
+            items = await spotifyDelegate.getShowEpisodes(masterAccessToken, id, SHOW_EPISODES_COUNT);
+        }
+    } catch (err) {
+        logger.error(`Failed to load ${type} ${id} from Spotify:`, err);
+        res.status(400).json({ error: `Unable to load ${type}. Please check the link and try again.` });
+        return;
+    }
+
+    const session = sessions.get(sessionId);
+    const submitterName = session?.state?.spotify?.name || session?.state?.listener?.name || '';
+    const submitterEmail = session?.state?.spotify?.email || session?.state?.listener?.email || '';
+
+    // Tracks already queued are skipped, or merged into the queued ones as jams, unless the room allows duplicates
+    const duplicatePolicy = room.queueManager.getDuplicatePolicy();
+    const duplicates = duplicatePolicy === 'allow' ? [] : items.filter(item => room.queueManager.hasTrack(item.spotifyUri));
+    let merged = 0;
+    if (duplicatePolicy === 'merge' && submitterEmail) {
+        for (const item of duplicates) {
+            if (room.queueManager.mergeDuplicate(item.spotifyUri, submitterEmail)) merged++;
+        }
+    }
+    // Skip anything blocked by the content filter (and, if the master chose to reject them, recently played),
+    // then apply the per-submission cap
+    const rejectRecent = room.queueManager.getNoRepeatSettings().submissions === 'reject';
+    const queueable = items.filter(item => !duplicates.includes(item));
+    const allowed = queueable.filter(item => !room.queueManager.getContentFilterReason(item));
+    const newItems = rejectRecent ? allowed.filter(item => !room.queueManager.getRecentPlay(item.spotifyUri)) : allowed;
+    const capped = newItems.slice(0, MAX_TRACKS_PER_SUBMISSION);
+    const { remaining } = room.queueManager.getSubmissionQuota(submitterEmail);
+    const toAdd = remaining === null ? capped : capped.slice(0, remaining);
+    const skippedFiltered = queueable.length - allowed.length;
+    const skippedRecentlyPlayed = allowed.length - newItems.length;
+    const recentlyPlayed = toAdd.filter(item => room.queueManager.getRecentPlay(item.spotifyUri)).length;
+    for (const item of toAdd) {
+        room.queueManager.addTrack({
+            spotifyUri: item.spotifyUri,
+            userEmail: submitterEmail,
+            spotifyName: submitterName,
+            timestamp: Date.now(),
+            name: item.name || '',
+            artist: item.artist || '',
+            album: item.album || '',
+            albumArtUrl: item.albumArtUrl || '',
+            explicit: item.explicit,
+            durationMs: item.durationMs,
+            popularity: item.popularity,
+            artistIds: item.artistIds
+        });
+    }
+    logger.info(`Expanded ${type} ${id} for ${submitterName}: ${toAdd.length} added, ${duplicates.length} duplicates (${merged} merged), ${skippedFiltered} filtered, ${skippedRecentlyPlayed} recently played, ${newItems.length - capped.length} over cap, ${capped.length - toAdd.length} over quota`);
+
+    if (toAdd.length > 0 || merged > 0) {
+        saveTracks(room);
+        broadcastTrackList(room);
+    }
+    if (toAdd.length > 0) {
+        const label = type === 'artist' ? toAdd[0].artist : toAdd[0].album;
+        room.history.push({
+            type: 'track_added',
+            timestamp: Date.now(),
+            userName: submitterName,
+            userEmail: submitterEmail,
+            details: { track: `${toAdd.length} ${type === 'show' ? 'episodes' : 'tracks'} from ${label || type}`, source: type, count: toAdd.length }
+        });
+        broadcastHistory(room);
+    }
+    res.json({
+        success: true,
+        added: toAdd.length,
+        skippedDuplicates: duplicates.length - merged,
+        // Already queued, counted as jams from the submitter instead
+        merged,
+        skippedFiltered,
+        skippedRecentlyPlayed,
+        // Added although played within the no-repeat window (a warning)
+        recentlyPlayed,
+        truncated: newItems.length - capped.length,
+        maxPerSubmission: MAX_TRACKS_PER_SUBMISSION,
+        skippedOverQuota: capped.length - toAdd.length,
+        quota: room.queueManager.getSubmissionQuota(submitterEmail)
+    });
+}
+app.post('/api/rooms/:roomId/tracks', submitTrackHandler);
+
+// REST endpoints for rooms
+app.get('/api/rooms', (_req: Request, res: Response) => {
+    res.json({ rooms: getRoomList() });
+});
+
+// Rooms one user may have at a time; admins may create any number
+const MAX_ROOMS_PER_USER = process.env.MAX_ROOMS_PER_USER ? parseInt(process.env.MAX_ROOMS_PER_USER, 10) : 3;
+
+app.post('/api/rooms', (req: Request, res: Response) => {
+    const sessionId = authenticateRequest(req, res);
+    if (!sessionId) return;
+    const { roomId, name, fallbackPlaylistUrl } = req.body;
+    if (!roomId || !RoomManager.isValidRoomId(roomId)) {
+        res.status(400).json({ error: 'A room id of 1-40 letters, digits, dashes or underscores is required' });
+        return;
+    }
+    const creatorEmail = getSessionEmail(sessionId);
+    if (!creatorEmail) {
+        res.status(403).json({ error: 'Log in with a name and email to create rooms.' });
+        return;
+    }
+    const ownedRooms = roomManager.getRooms().filter(r => r.createdBy === creatorEmail).length;
+    if (permissions.getRole(creatorEmail) !== 'admin' && ownedRooms >= MAX_ROOMS_PER_USER) {
+        res.status(429).json({ error: `You can have at most ${MAX_ROOMS_PER_USER} rooms.`, code: 'quota_exceeded' });
+        return;
+    }
+    const room = roomManager.createRoom(roomId, name, fallbackPlaylistUrl);
+    if (!room) {
+        res.status(409).json({ error: `Room "${roomId}" already exists` });
+        return;
+    }
+    room.createdBy = creatorEmail;
+    saveRooms();
+    broadcastRoomList();
+    res.json({ success: true, room: room.getSummary(0) });
+});
+
+app.get('/api/rooms/:roomId', (req: Request, res: Response) => {
+    const room = roomManager.getRoom(req.params.roomId);
+    if (!room) {
+        res.status(404).json({ error: 'Room not found' });
+        return;
+    }
+    res.json({
+        room: room.getSummary(getRoomSessions(room).length),
+        currentlyPlayingTrack: room.currentlyPlayingTrack,
+        fallbackPlaylist: room.queueManager.getFallbackInfo(),
+        tracks: getDisplayTrackList(room)
+    });
+});
+
+app.delete('/api/rooms/:roomId', (req: Request, res: Response) => {
+    const room = roomManager.getRoom(req.params.roomId);
+    if (!room) {
+        res.status(404).json({ error: 'Room not found' });
+        return;
+    }
+    const sessionId = authenticateRequest(req, res);
+    if (!sessionId) return;
+    if (!sessionCan('delete_room', sessionId, room)) {
+        res.status(403).json({ error: 'Only admins can delete rooms.' });
+        return;
+    }
+    if (room.id === DEFAULT_ROOM_ID) {
+        res.status(400).json({ error: 'The default room cannot be deleted' });
+        return;
+    }
+    // Send remaining members back to the default room before deleting
+    for (const [memberSessionId] of getRoomSessions(room)) {
+        moveSessionToRoom(memberSessionId, roomManager.getDefaultRoom());
+    }
+    roomManager.deleteRoom(room.id);
+    saveRooms();
+    broadcastRoomList();
     res.json({ success: true });
 });
 
+app.post('/api/rooms/:roomId/join', (req: Request, res: Response) => {
+    const sessionId = authenticateRequest(req, res);
+    if (!sessionId) return;
+    const room = roomManager.getRoom(req.params.roomId);
+    if (!room) {
+        res.status(404).json({ error: 'Room not found' });
+        return;
+    }
+    moveSessionToRoom(sessionId, room);
+    res.json({ success: true, roomId: room.id });
+});
+
+// Fallback playlist schedule of a room. Changes are allowed for the master, moderators and admins.
+app.get('/api/rooms/:roomId/fallback-schedule', (req: Request, res: Response) => {
+    const room = roomManager.getRoom(req.params.roomId);
+    if (!room) {
+        res.status(404).json({ error: 'Room not found' });
+        return;
+    }
+    res.json(getFallbackScheduleState(room));
+});
+
+app.put('/api/rooms/:roomId/fallback-schedule', async (req: Request, res: Response) => {
+    const room = roomManager.getRoom(req.params.roomId);
+    if (!room) {
+        res.status(404).json({ error: 'Room not found' });
+        return;
+    }
+    const sessionId = authenticateRequest(req, res);
+    if (!sessionId) return;
+    const { schedule } = req.body;
+    if (!sessionCan('manage_fallback', sessionId, room)) {
+        res.status(403).json({ error: 'Only the master, moderators and admins can change the fallback schedule.' });
+        return;
+    }
+    if (!Array.isArray(schedule)) {
+        res.status(400).json({ error: 'schedule must be a list of entries' });
+        return;
+    }
+    for (const entry of schedule) {
+        const error = QueueManager.validateScheduleEntry(entry);
+        if (error) {
+            res.status(400).json({ error });
+            return;
+        }
+    }
+    await updateFallbackSchedule(room, schedule.map(toScheduleEntry));
+    res.json(getFallbackScheduleState(room));
+});
+
+app.post('/api/rooms/:roomId/fallback-schedule', async (req: Request, res: Response) => {
+    const room = roomManager.getRoom(req.params.roomId);
+    if (!room) {
+        res.status(404).json({ error: 'Room not found' });
+        return;
+    }
+    const sessionId = authenticateRequest(req, res);
+    if (!sessionId) return;
+    // A sessionId in the body was checked above and is not part of the entry
+    const { sessionId: _claimedSessionId, ...entry } = req.body;
+    if (!sessionCan('manage_fallback', sessionId, room)) {
+        res.status(403).json({ error: 'Only the master, moderators and admins can change the fallback schedule.' });
+        return;
+    }
+    const error = QueueManager.validateScheduleEntry(entry);
+    if (error) {
+        res.status(400).json({ error });
+        return;
+    }
+    const added = toScheduleEntry({ ...entry, id: undefined });
+    await updateFallbackSchedule(room, [...room.queueManager.getFallbackSchedule(), added]);
+    res.status(201).json({ entry: added, ...getFallbackScheduleState(room) });
+});
+
+app.delete('/api/rooms/:roomId/fallback-schedule/:entryId', async (req: Request, res: Response) => {
+    const room = roomManager.getRoom(req.params.roomId);
+    if (!room) {
+        res.status(404).json({ error: 'Room not found' });
+        return;
+    }
+    const sessionId = authenticateRequest(req, res);
+    if (!sessionId) return;
+    if (!sessionCan('manage_fallback', sessionId, room)) {
+        res.status(403).json({ error: 'Only the master, moderators and admins can change the fallback schedule.' });
+        return;
+    }
+    const schedule = room.queueManager.getFallbackSchedule();
+    if (!schedule.some(entry => entry.id === req.params.entryId)) {
+        res.status(404).json({ error: 'Schedule entry not found' });
+        return;
+    }
+    await updateFallbackSchedule(room, schedule.filter(entry => entry.id !== req.params.entryId));
+    res.json(getFallbackScheduleState(room));
+});
+
+// Weighted sources of a room's fallback tracks. Changes are allowed for the master, moderators and admins.
+app.get('/api/rooms/:roomId/fallback-sources', (req: Request, res: Response) => {
+    const room = roomManager.getRoom(req.params.roomId);
+    if (!room) {
+        res.status(404).json({ error: 'Room not found' });
+        return;
+    }
+    res.json({ sources: room.queueManager.getFallbackSources(), fallbackPlaylist: room.queueManager.getFallbackInfo() });
+});
+
+app.put('/api/rooms/:roomId/fallback-sources', async (req: Request, res: Response) => {
+    const room = roomManager.getRoom(req.params.roomId);
+    if (!room) {
+        res.status(404).json({ error: 'Room not found' });
+        return;
+    }
+    const sessionId = authenticateRequest(req, res);
+    if (!sessionId) return;
+    const { sources } = req.body;
+    if (!sessionCan('manage_fallback', sessionId, room)) {
+        res.status(403).json({ error: 'Only the master, moderators and admins can change the fallback sources.' });
+        return;
+    }
+    if (!Array.isArray(sources) || sources.length === 0) {
+        res.status(400).json({ error: 'sources must be a non-empty list' });
+        return;
+    }
+    for (const source of sources) {
+        const error = QueueManager.validateFallbackSource(source);
+        if (error) {
+            res.status(400).json({ error });
+            return;
+        }
+    }
+    room.queueManager.setFallbackSources(sources.map((source: any): FallbackSource => ({
+        type: source.type,
+        weight: source.weight,
+        ...(source.type === 'playlist' ? { playlistUrl: source.playlistUrl } : {})
+    })));
+    saveRooms();
+    const masterSession = room.masterUserSessionId ? sessions.get(room.masterUserSessionId) : null;
+    await room.queueManager.refillFallbackQueue(masterSession?.state?.spotify?.access_token);
+    broadcastMode(room);
+    broadcastTrackList(room);
+    res.json({ sources: room.queueManager.getFallbackSources(), fallbackPlaylist: room.queueManager.getFallbackInfo() });
+});
+
+// REST endpoints for reordering a room's queue (master, moderators and admins)
+app.post('/api/rooms/:roomId/queue/move', (req: Request, res: Response) => {
+    const room = roomManager.getRoom(req.params.roomId);
+    if (!room) {
+        res.status(404).json({ error: 'Room not found' });
+        return;
+    }
+    const sessionId = authenticateRequest(req, res);
+    if (!sessionId) return;
+    const { itemId, spotifyUri, toIndex, fair } = req.body;
+    if (!sessionCan('reorder_queue', sessionId, room)) {
+        res.status(403).json({ error: 'Only the master, moderators and admins can reorder the queue.' });
+        return;
+    }
+    const ref = itemId || spotifyUri;
+    if (typeof ref !== 'string' || (toIndex !== undefined && typeof toIndex !== 'number')) {
+        res.status(400).json({ error: 'itemId or spotifyUri is required and toIndex must be a number' });
+        return;
+    }
+    const result = reorderQueue(room, sessionId, fair === true, options => toIndex === undefined
+        ? room.queueManager.moveToFront(ref, options)
+        : room.queueManager.moveTrack(ref, toIndex, options), ref);
+    if (result.error) {
+        const { status, message, code } = REORDER_ERRORS[result.error];
+        res.status(status).json({ error: message, code });
+        return;
+    }
+    res.json({ success: true, moves: result.moves });
+});
+
+app.put('/api/rooms/:roomId/queue/order', (req: Request, res: Response) => {
+    const room = roomManager.getRoom(req.params.roomId);
+    if (!room) {
+        res.status(404).json({ error: 'Room not found' });
+        return;
+    }
+    const sessionId = authenticateRequest(req, res);
+    if (!sessionId) return;
+    const { itemIds, spotifyUris, fair } = req.body;
+    if (!sessionCan('reorder_queue', sessionId, room)) {
+        res.status(403).json({ error: 'Only the master, moderators and admins can reorder the queue.' });
+        return;
+    }
+    const refs = itemIds || spotifyUris;
+    if (!Array.isArray(refs) || !refs.every((ref: unknown) => typeof ref === 'string')) {
+        res.status(400).json({ error: 'itemIds (or spotifyUris) must be a list of queue item ids (or track URIs)' });
+        return;
+    }
+    const result = reorderQueue(room, sessionId, fair === true, options => room.queueManager.reorderTracks(refs, options));
+    if (result.error) {
+        const { status, message, code } = REORDER_ERRORS[result.error];
+        res.status(status).json({ error: message, code });
+        return;
+    }
+    res.json({ success: true, moves: result.moves });
+});
+
+// JSON Schema for the WebSocket protocol (used to generate frontend client types)
+app.get('/api/protocol', (_req: Request, res: Response) => {
+    res.json(getProtocolSchemaDocument());
+});
+
+// REST endpoints for roles (admin only)
+app.get('/api/roles', (req: Request, res: Response) => {
+    const sessionId = authenticateRequest(req, res);
+    if (!sessionId) return;
+    if (!permissions.can('manage_roles', { email: getSessionEmail(sessionId) })) {
+        res.status(403).json({ error: 'Only admins can view roles.' });
+        return;
+    }
+    res.json({ roles: permissions.getRoles() });
+});
+
+app.post('/api/roles', (req: Request, res: Response) => {
+    const sessionId = authenticateRequest(req, res);
+    if (!sessionId) return;
+    const { email, role } = req.body;
+    if (!permissions.can('manage_roles', { email: getSessionEmail(sessionId) })) {
+        res.status(403).json({ error: 'Only admins can change roles.' });
+        return;
+    }
+    if (!email || typeof email !== 'string' || !PermissionManager.isRole(role)) {
+        res.status(400).json({ error: 'An email and a role (listener, moderator or admin) are required.' });
+        return;
+    }
+    applyRoleChange(email, role);
+    res.json({ success: true, roles: permissions.getRoles() });
+});
+
+// Spotify Connect devices of a session's user, and the one its playback commands go to
+app.get('/api/devices', async (req: Request, res: Response) => {
+    const sessionId = authenticateRequest(req, res);
+    if (!sessionId) return;
+    try {
+        const list = await getDeviceList(sessionId);
+        if (!list) {
+            res.status(400).json({ error: 'Only Spotify sessions have devices to pick from.' });
+            return;
+        }
+        res.json(list);
+    } catch (err) {
+        logger.error(`Failed to list Spotify devices for session ${sessionId}:`, err);
+        res.status(502).json({ error: 'Could not list Spotify devices', details: getErrorMessage(err) });
+    }
+});
+
+app.post('/api/devices/select', async (req: Request, res: Response) => {
+    const sessionId = authenticateRequest(req, res);
+    if (!sessionId) return;
+    const { deviceId } = req.body;
+    if (!deviceId || typeof deviceId !== 'string') {
+        res.status(400).json({ error: 'A deviceId is required.' });
+        return;
+    }
+    const result = await selectDevice(sessionId, deviceId);
+    if (!result.ok) {
+        res.status(result.code === 'not_found' ? 404 : 400).json({ error: result.error });
+        return;
+    }
+    res.json({ success: true, selectedDeviceId: deviceId });
+});
+
 // Endpoint to check session state
 app.get('/api/session/:sessionId', (req: Request, res: Response) => {
     const sessionId = req.params.sessionId;
@@ -1999,10 +2898,11 @@ app.post('/api/listener-login', (req: Request, res: Response) => {
         ws: null,
         userId: null,
         state: { listener: { name, email } },
-        lastHeartbeat: Date.now()
+        lastHeartbeat: Date.now(),
+        roomId: DEFAULT_ROOM_ID
     });
     logger.info(`Listener session created: ${name} <${email}> [${sessionId}]`);
-    res.json({ sessionId });
+    res.json({ sessionId, token: signSessionToken(sessionId) });
     serializeSessions();
 });
 
@@ -2061,8 +2961,13 @@ app.get('/api/airhorns', (req: Request, res: Response) => {
 
 // Endpoint for master to load 10 random liked tracks
 async function masterRandomLikedHandler(req: Request, res: Response) {
-    const { sessionId } = req.body;
-    if (!sessionId || sessionId !== masterUserSessionId) {
+    const sessionId = authenticateRequest(req, res);
+    if (!sessionId) return;
+    const room = resolveRequestRoom(req, sessionId);
+    if (!room) {
+        return res.status(404).json({ error: 'Room not found' });
+    }
+    if (sessionId !== room.masterUserSessionId) {
         return res.status(403).json({ error: 'Only the master can use this feature.' });
     }
     const session = sessions.get(sessionId);
@@ -2071,25 +2976,39 @@ async function masterRandomLikedHandler(req: Request, res: Response) {
     if (!accessToken) {
         return res.status(400).json({ error: 'Master does not have a valid Spotify session.' });
     }
+    // The master's own submission limits apply too
+    const email = session?.state?.spotify?.email || '';
+    const quota = room.queueManager.getSubmissionQuota(email);
+    if (quota.remaining === 0) {
+        return sendQuotaExceeded(res, quota);
+    }
     try {
         const tracks = await spotifyDelegate.getRandomLikedTracks(accessToken, 10);
+        let added = 0;
         for (const track of tracks) {
-            // Prevent duplicates
-            if (queueManager.hasTrack(track.spotifyUri)) continue;
-            queueManager.addTrack({
+            // Skip duplicates (unless the room allows them) and what the content filter blocks
+            if ((room.queueManager.getDuplicatePolicy() !== 'allow' && room.queueManager.hasTrack(track.spotifyUri))
+                || room.queueManager.getContentFilterReason(track)) continue;
+            if (quota.remaining !== null && added >= quota.remaining) break;
+            added++;
+            room.queueManager.addTrack({
                 spotifyUri: track.spotifyUri,
-                userEmail: session?.state?.spotify?.email || '',
+                userEmail: email,
                 spotifyName: spotifyName || '',
                 timestamp: Date.now(),
                 name: track.name || '',
                 artist: track.artist || '',
                 album: track.album || '',
-                albumArtUrl: track.albumArtUrl || ''
+                albumArtUrl: track.albumArtUrl || '',
+                explicit: track.explicit,
+                durationMs: track.durationMs,
+                popularity: track.popularity,
+                artistIds: track.artistIds
             });
         }
-        saveTracksToFile();
-        broadcastTrackList();
-        res.json({ success: true, added: tracks.length });
+        saveTracks(room);
+        broadcastTrackList(room);
+        res.json({ success: true, added, quota: room.queueManager.getSubmissionQuota(email) });
     } catch (err) {
         logger.error('Failed to load random liked tracks:', err);
         res.status(500).json({ error: 'Failed to load liked tracks.' });
@@ -2098,6 +3017,9 @@ async function masterRandomLikedHandler(req: Request, res: Response) {
 app.post('/api/master-random-liked', (req, res, next) => {
     masterRandomLikedHandler(req, res).catch(next);
 });
+app.post('/api/rooms/:roomId/master-random-liked', (req, res, next) => {
+    masterRandomLikedHandler(req, res).catch(next);
+});
 
 // ============================================
 // DEBUG ENDPOINTS
@@ -2168,12 +3090,15 @@ app.get('/api/debug/health', (req: Request, res: Response) => {
     // Check WebSocket server
     const wsServerStatus = webSocketServerStarted ? 'running' : 'not started';
     
-    // Count active sessions
+    // Top-level track and playback info reports on the default room; see `rooms` for the rest
+    const room = roomManager.getDefaultRoom();
+    
+    // Count active sessions; they are listed by public id since this endpoint is open to anyone
     const activeSessions = Array.from(sessions.entries()).map(([id, session]) => ({
-        sessionId: id,
+        sessionId: publicSessionId(id),
+        roomId: session.roomId,
         hasWebSocket: !!session.ws,
         wsState: session.ws ? ['CONNECTING', 'OPEN', 'CLOSING', 'CLOSED'][session.ws.readyState] : 'N/A',
-        userId: session.userId,
         hasSpotify: !!session.state?.spotify,
         hasListener: !!session.state?.listener,
         spotifyEmail: session.state?.spotify?.email || null,
@@ -2213,21 +3138,25 @@ app.get('/api/debug/health', (req: Request, res: Response) => {
             active: activeSessions.filter(s => s.wsState === 'OPEN').length,
             withSpotify: activeSessions.filter(s => s.hasSpotify).length,
             listeners: activeSessions.filter(s => s.hasListener).length,
-            master: masterUserSessionId || 'none',
+            master: room.masterUserSessionId ? publicSessionId(room.masterUserSessionId) : 'none',
             details: activeSessions,
         },
         tracks: {
-            total: queueManager.getSubmittedCount(),
-            currentlyPlaying: currentlyPlayingTrack ? {
-                name: currentlyPlayingTrack.name,
-                artist: currentlyPlayingTrack.artist,
-                uri: currentlyPlayingTrack.spotifyUri,
+            total: room.queueManager.getSubmittedCount(),
+            currentlyPlaying: room.currentlyPlayingTrack ? {
+                name: room.currentlyPlayingTrack.name,
+                artist: room.currentlyPlayingTrack.artist,
+                uri: room.currentlyPlayingTrack.spotifyUri,
             } : null,
         },
         playback: {
-            mode,
-            masterUserSessionId,
+            mode: room.mode,
+            masterUserSessionId: room.masterUserSessionId ? publicSessionId(room.masterUserSessionId) : null,
+            polling: room.pollTimer ? getPollCadence(room) : null,
+            pollIntervals: POLL_INTERVALS,
         },
+        spotify: spotifyDelegate.getThrottleState(),
+        rooms: getRoomList(),
         cors: {
             enabled: true,
             allowOrigin: '*',
@@ -2259,32 +3188,40 @@ function formatUptime(seconds: number): string {
 
 // Start HTTP server
 (async () => {
-  await loadSessionsFromFile();
-  await loadTracksFromFile();
-  loadHistoryFromFile();
+  await loadRooms();
+  await loadRoles();
+  await loadSessions();
   
-  // Add system restart event to history
-  history.push({
-    type: 'user_connected',
-    timestamp: Date.now(),
-    userName: 'System',
-    userEmail: 'system@server',
-    details: { loginType: 'system', restart: true }
-  });
+  for (const room of roomManager.getRooms()) {
+    await loadTracks(room);
+    await loadHistory(room);
+    await loadPlayHistory(room);
+    
+    // Add system restart event to history
+    room.history.push({
+      type: 'user_connected',
+      timestamp: Date.now(),
+      userName: 'System',
+      userEmail: 'system@server',
+      details: { loginType: 'system', restart: true }
+    });
+  }
   logger.info('Added system restart event to history');
   
   cleanupInvalidSessions();
   
-  // Load fallback playlist if configured
-  if (queueManager.getFallbackPlaylistUrl()) {
-    logger.info('Loading fallback playlist on startup');
-    // Try to find a master user token, otherwise it will be loaded later
-    const masterSession = masterUserSessionId ? sessions.get(masterUserSessionId) : null;
-    const masterAccessToken = masterSession?.state?.spotify?.access_token;
-    if (masterAccessToken) {
-      await queueManager.loadFallbackPlaylist(queueManager.getFallbackPlaylistUrl(), masterAccessToken);
-    } else {
-      logger.info('No master user token available yet, fallback playlist will load when master user connects');
+  // Load fallback playlists if configured
+  for (const room of roomManager.getRooms()) {
+    if (room.queueManager.getFallbackPlaylistUrl()) {
+      logger.info(`Loading fallback playlist on startup for room ${room.id}`);
+      // Try to find a master user token, otherwise it will be loaded later
+      const masterSession = room.masterUserSessionId ? sessions.get(room.masterUserSessionId) : null;
+      const masterAccessToken = masterSession?.state?.spotify?.access_token;
+      if (masterAccessToken) {
+        await room.queueManager.loadFallbackPlaylist(room.queueManager.getFallbackPlaylistUrl(), masterAccessToken);
+      } else {
+        logger.info('No master user token available yet, fallback playlist will load when master user connects');
+      }
     }
   }
   
@@ -2297,30 +3234,35 @@ function formatUptime(seconds: number): string {
   }); 
 })(); 
 
-function broadcastHistory() {
+function broadcastHistory(room: Room) {
     // Trim history to MAX_HISTORY_EVENTS
-    if (history.length > MAX_HISTORY_EVENTS) {
-        history.splice(0, history.length - MAX_HISTORY_EVENTS);
+    if (room.history.length > MAX_HISTORY_EVENTS) {
+        room.history.splice(0, room.history.length - MAX_HISTORY_EVENTS);
         logger.info(`Trimmed history to ${MAX_HISTORY_EVENTS} events`);
     }
     
-    // Save to file whenever history is broadcast
-    saveHistoryToFile();
+    // Persist whenever history is broadcast
+    saveHistory(room);
     
-    const historyList = history.slice(-100); // Limit to last 100 events for broadcast
+    const historyList = room.history.slice(-100); // Limit to last 100 events for broadcast
     logger.info(`Broadcasting history (${historyList.length} events). Sample of last event:`, historyList.length > 0 ? JSON.stringify(historyList[historyList.length - 1]) : 'none');
-    for (const [sessionId, session] of sessions.entries()) {
+    for (const [sessionId, session] of getRoomSessions(room)) {
         if (!session.ws || session.ws.readyState !== 1) continue;
-        session.ws.send(JSON.stringify({ type: 'history', history: historyList }));
+        sendMessage(session.ws, { type: 'history', history: historyList });
     }
 } 
 
 // Helper to broadcast play history to all connected clients
-function broadcastPlayHistory() {
-    const historyList = playHistory.slice(-100); // Limit to last 100
-    for (const [sessionId, session] of sessions.entries()) {
+function broadcastPlayHistory(room: Room) {
+    if (room.playHistory.length > MAX_PLAY_HISTORY_ENTRIES) {
+        room.playHistory.splice(0, room.playHistory.length - MAX_PLAY_HISTORY_ENTRIES);
+    }
+    savePlayHistory(room);
+    
+    const historyList = room.playHistory.slice(-100); // Limit to last 100
+    for (const [sessionId, session] of getRoomSessions(room)) {
         if (!session.ws || session.ws.readyState !== 1) continue;
-        session.ws.send(JSON.stringify({ type: 'play_history', playHistory: historyList }));
+        sendMessage(session.ws, { type: 'play_history', playHistory: historyList });
     }
 } 
 
@@ -2342,50 +3284,37 @@ function serializeSessions() {
             const { ws, ...rest } = session;
             return { sessionId, ...rest };
         });
-    try {
-        fs.writeFileSync(SESSIONS_FILE, JSON.stringify(arr, null, 2));
-    } catch (err) {
-        logger.error('Failed to save sessions to file:', err);
-    }
+    storage.saveSessions(arr);
 }
 
-async function loadSessionsFromFile() {
-    if (fs.existsSync(SESSIONS_FILE)) {
-        try {
-            const data = fs.readFileSync(SESSIONS_FILE, 'utf-8');
-            const arr = JSON.parse(data);
-            if (Array.isArray(arr)) {
-                for (const s of arr) {
-                    // Rehydrate session object, ws is always null on startup
-                    const { sessionId, userId, state } = s;
-                    const session = { ws: null, userId, state, lastHeartbeat: Date.now() };
-                    // For Spotify sessions, try to refresh token if possible
-                    if (state && state.spotify && state.spotify.refresh_token) {
-                        try {
-                            const data = await spotifyDelegate.refreshAccessToken(state.spotify.refresh_token);
-                            if (data && data.access_token) {
-                                state.spotify.access_token = data.access_token;
-                                if (data.expires_in) state.spotify.expires_in = data.expires_in;
-                                if (data.refresh_token) state.spotify.refresh_token = data.refresh_token;
-                                logger.info(`Refreshed Spotify access token for session ${sessionId}`);
-                            }
-                        } catch (err) {
-                            logger.error(`Failed to refresh Spotify token for session ${sessionId}:`, err);
-                            continue; // Skip adding this session if refresh fails
-                        }
-                    }
-                    sessions.set(sessionId, session);
+async function loadSessions() {
+    const arr = await storage.loadSessions();
+    for (const s of arr) {
+        // Rehydrate session object, ws is always null on startup
+        const { sessionId, userId, state, roomId } = s;
+        const session = { ws: null, userId, state, lastHeartbeat: Date.now(), roomId: roomId && roomManager.hasRoom(roomId) ? roomId : DEFAULT_ROOM_ID };
+        // For Spotify sessions, try to refresh token if possible
+        if (state && state.spotify && state.spotify.refresh_token) {
+            try {
+                const data = await spotifyDelegate.refreshAccessToken(state.spotify.refresh_token);
+                if (data && data.access_token) {
+                    state.spotify.access_token = data.access_token;
+                    if (data.expires_in) state.spotify.expires_in = data.expires_in;
+                    if (data.refresh_token) state.spotify.refresh_token = data.refresh_token;
+                    logger.info(`Refreshed Spotify access token for session ${sessionId}`);
                 }
+            } catch (err) {
+                logger.error(`Failed to refresh Spotify token for session ${sessionId}:`, err);
+                continue; // Skip adding this session if refresh fails
             }
-        } catch (err) {
-            logger.error('Failed to load sessions from file:', err);
         }
+        sessions.set(sessionId, session);
     }
-} 
+}
 
 // Periodic cleanup of stale sessions (those that haven't sent heartbeat in a while)
-const HEARTBEAT_TIMEOUT_MS = 60000; // 60 seconds - 2 missed heartbeats (clients ping every 30s)
-const CLEANUP_INTERVAL_MS = 30000; // Check every 30 seconds
+const HEARTBEAT_TIMEOUT_MS = process.env.HEARTBEAT_TIMEOUT_MS ? parseInt(process.env.HEARTBEAT_TIMEOUT_MS, 10) : 60000; // 2 missed heartbeats (clients ping every 30s)
+const CLEANUP_INTERVAL_MS = process.env.SESSION_CLEANUP_INTERVAL_MS ? parseInt(process.env.SESSION_CLEANUP_INTERVAL_MS, 10) : 30000;
 
 function cleanupStaleSessions() {
     const now = Date.now();
@@ -2400,14 +3329,21 @@ function cleanupStaleSessions() {
     }
     
     // Remove stale sessions and add disconnection events
+    const affectedRooms = new Set<Room>();
+    const lostMasters = new Map<Room, { name: string; email: string }>();
     for (const sessionId of sessionsToRemove) {
         const session = sessions.get(sessionId);
         if (session) {
+            const room = getSessionRoom(sessionId);
+            affectedRooms.add(room);
             const userName = session.state?.spotify?.name || session.state?.listener?.name || 'Unknown';
             const userEmail = session.state?.spotify?.email || session.state?.listener?.email || '';
+            if (room.masterUserSessionId === sessionId) {
+                lostMasters.set(room, { name: userName, email: userEmail });
+            }
             
             // Add disconnection event to history
-            history.push({
+            room.history.push({
                 type: 'user_disconnected',
                 timestamp: Date.now(),
                 userName,
@@ -2422,22 +3358,51 @@ function cleanupStaleSessions() {
     
     // Broadcast updates if any sessions were removed
     if (sessionsToRemove.length > 0) {
-        broadcastSessionList();
-        broadcastHistory();
+        for (const room of affectedRooms) {
+            broadcastSessionList(room);
+            broadcastHistory(room);
+        }
         serializeSessions();
     }
+
+    // Rooms whose master went stale elect a new one
+    for (const [room, previousMaster] of lostMasters) {
+        failOverMaster(room, 'disconnected', previousMaster)
+            .catch(err => logger.error(`Master failover failed in room ${room.id}:`, err));
+    }
 }
 
 // Start periodic cleanup
 setInterval(cleanupStaleSessions, CLEANUP_INTERVAL_MS);
+
+// Switch fallback playlists as scheduled windows start and end
+setInterval(() => {
+    for (const room of roomManager.getRooms()) {
+        refreshScheduledFallback(room)
+            .catch(err => logger.error(`Failed to apply the fallback schedule of room ${room.id}:`, err));
+    }
+}, FALLBACK_SCHEDULE_CHECK_INTERVAL_MS);
+
+// Write out any buffered state before exiting
+async function shutdown(signal: string) {
+    logger.info(`Received ${signal}, flushing storage before exit`);
+    try {
+        await storage.close();
+    } catch (err) {
+        logger.error('Failed to flush storage on shutdown:', err);
+    }
+    process.exit(0);
+}
+process.once('SIGINT', () => { shutdown('SIGINT'); });
+process.once('SIGTERM', () => { shutdown('SIGTERM'); });
 logger.info(`Started periodic session cleanup (checking every ${CLEANUP_INTERVAL_MS / 1000}s, timeout after ${HEARTBEAT_TIMEOUT_MS / 1000}s)`);
 
 // Log all configured values at startup
 logger.info('Configured values:');
 logger.info(`  HTTP port: ${port}`);
 logger.info(`  WebSocket path: /websocket`);
-logger.info(`  POLL_INTERVAL_MS: ${POLL_INTERVAL_MS}`);
+logger.info(`  Poll intervals: ${POLL_INTERVALS.fastMs}ms near track end, ${POLL_INTERVALS.normalMs}ms around track changes, ${POLL_INTERVALS.slowMs}ms mid-track`);
 logger.info(`  DEBUG: ${DEBUG}`);
-logger.info(`  Tracks file: ${TRACKS_FILE}`);
-logger.info(`  Sessions file: ${SESSIONS_FILE}`);
-logger.info(`  Fallback playlist URL: ${queueManager.getFallbackPlaylistUrl() || 'not configured'}`); 
\ No newline at end of file
+logger.info(`  Storage driver: ${storage.kind}`);
+logger.info(`  Data directory: ${DATA_DIR}`);
+logger.info(`  Fallback playlist URL: ${roomManager.getDefaultRoom().queueManager.getFallbackPlaylistUrl() || 'not configured'}`); 
\ No newline at end of file
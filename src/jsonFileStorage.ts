@@ -0,0 +1,154 @@
+import fs from 'fs';
+import path from 'path';
+import logger from './logger';
+import { SubmittedTrack } from './queueManager';
+import type { HistoryEvent, PlayHistoryEntry } from './roomManager';
+import { DEFAULT_ROOM_ID } from './roomIds';
+import { PersistedRoom, PersistedSession, Storage } from './storage';
+import { PersistedRole } from './permissions';
+
+interface PendingWrite {
+    timer: NodeJS.Timeout;
+    data: unknown;
+}
+
+/**
+ * Stores everything as JSON files in the data directory.
+ * Writes are debounced per file and go to a temp file that is renamed over the target,
+ * so a crash mid-write never leaves a truncated file behind.
+ */
+export class JsonFileStorage implements Storage {
+    readonly kind = 'json' as const;
+    private dataDir: string;
+    private debounceMs: number;
+    private pending = new Map<string, PendingWrite>();
+    // Per-file chain so two writes to the same file never race on rename
+    private writeChains = new Map<string, Promise<void>>();
+
+    constructor(dataDir: string, debounceMs: number = 250) {
+        this.dataDir = dataDir;
+        this.debounceMs = debounceMs;
+    }
+
+    async loadTracks(roomId: string): Promise<SubmittedTrack[]> {
+        return this.readArray<SubmittedTrack>(this.roomFile('tracks', roomId));
+    }
+
+    saveTracks(roomId: string, tracks: SubmittedTrack[]): void {
+        this.scheduleWrite(this.roomFile('tracks', roomId), tracks);
+    }
+
+    async loadHistory(roomId: string): Promise<HistoryEvent[]> {
+        return this.readArray<HistoryEvent>(this.roomFile('history', roomId));
+    }
+
+    saveHistory(roomId: string, history: HistoryEvent[]): void {
+        this.scheduleWrite(this.roomFile('history', roomId), history);
+    }
+
+    async loadPlayHistory(roomId: string): Promise<PlayHistoryEntry[]> {
+        return this.readArray<PlayHistoryEntry>(this.roomFile('play-history', roomId));
+    }
+
+    savePlayHistory(roomId: string, playHistory: PlayHistoryEntry[]): void {
+        this.scheduleWrite(this.roomFile('play-history', roomId), playHistory);
+    }
+
+    async loadSessions(): Promise<PersistedSession[]> {
+        return this.readArray<PersistedSession>(path.join(this.dataDir, 'sessions.json'));
+    }
+
+    saveSessions(sessions: PersistedSession[]): void {
+        this.scheduleWrite(path.join(this.dataDir, 'sessions.json'), sessions);
+    }
+
+    async loadRooms(): Promise<PersistedRoom[]> {
+        return this.readArray<PersistedRoom>(path.join(this.dataDir, 'rooms.json'));
+    }
+
+    saveRooms(rooms: PersistedRoom[]): void {
+        this.scheduleWrite(path.join(this.dataDir, 'rooms.json'), rooms);
+    }
+
+    async loadRoles(): Promise<PersistedRole[]> {
+        return this.readArray<PersistedRole>(path.join(this.dataDir, 'roles.json'));
+    }
+
+    saveRoles(roles: PersistedRole[]): void {
+        this.scheduleWrite(path.join(this.dataDir, 'roles.json'), roles);
+    }
+
+    /**
+     * Write every pending change now
+     */
+    async flush(): Promise<void> {
+        const files = Array.from(this.pending.keys());
+        for (const file of files) {
+            const entry = this.pending.get(file);
+            if (!entry) continue;
+            clearTimeout(entry.timer);
+            this.pending.delete(file);
+            this.enqueueWrite(file, entry.data);
+        }
+        await Promise.all(Array.from(this.writeChains.values()));
+    }
+
+    async close(): Promise<void> {
+        await this.flush();
+    }
+
+    // The default room keeps the original file names; other rooms get a suffixed copy (tracks.<roomId>.json)
+    private roomFile(base: string, roomId: string): string {
+        const name = roomId === DEFAULT_ROOM_ID ? `${base}.json` : `${base}.${roomId}.json`;
+        return path.join(this.dataDir, name);
+    }
+
+    private async readArray<T>(file: string): Promise<T[]> {
+        try {
+            const data = await fs.promises.readFile(file, 'utf-8');
+            const arr = JSON.parse(data);
+            return Array.isArray(arr) ? arr : [];
+        } catch (err: any) {
+            if (err?.code !== 'ENOENT') {
+                logger.error(`Failed to read ${file}:`, err);
+            }
+            return [];
+        }
+    }
+
+    private scheduleWrite(file: string, data: unknown): void {
+        const existing = this.pending.get(file);
+        if (existing) {
+            clearTimeout(existing.timer);
+        }
+        const timer = setTimeout(() => {
+            const entry = this.pending.get(file);
+            this.pending.delete(file);
+            if (entry) this.enqueueWrite(file, entry.data);
+        }, this.debounceMs);
+        this.pending.set(file, { timer, data });
+    }
+
+    private enqueueWrite(file: string, data: unknown): void {
+        // Serialize now so later mutations of the same objects don't leak into this write
+        const json = JSON.stringify(data, null, 2);
+        const previous = this.writeChains.get(file) || Promise.resolve();
+        const next = previous.then(() => this.writeAtomic(file, json));
+        this.writeChains.set(file, next);
+        next.finally(() => {
+            if (this.writeChains.get(file) === next) {
+                this.writeChains.delete(file);
+            }
+        });
+    }
+
+    private async writeAtomic(file: string, json: string): Promise<void> {
+        const tmpFile = `${file}.${process.pid}.tmp`;
+        try {
+            await fs.promises.writeFile(tmpFile, json);
+            await fs.promises.rename(tmpFile, file);
+        } catch (err) {
+            logger.error(`Failed to write ${file}:`, err);
+        }
+    }
+}
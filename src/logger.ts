@@ -6,7 +6,7 @@ const DATA_DIR = process.env.DATA_DIR || process.cwd();
 const LOG_FILE = path.join(DATA_DIR, 'app.log');
 
 const logger = createLogger({
-  level: 'info',
+  level: process.env.LOG_LEVEL || 'info',
   format: format.combine(
     format.timestamp(),
     format.printf(({ timestamp, level, message }) => {
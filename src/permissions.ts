@@ -0,0 +1,115 @@
+import logger from './logger';
+
+// Roles that are assigned to a user. Track ownership and master are contextual and never stored.
+export type Role = 'listener' | 'moderator' | 'admin';
+
+export type PermissionAction =
+    | 'remove_track'      // Remove a track from the queue
+    | 'delay_track'       // Move a track back in the queue
+    | 'reorder_queue'     // Move any track to any position in the queue
+    | 'control_playback'  // Play, pause and skip for the room, and start the fallback playlist
+    | 'configure_room'    // Change a room's queue ordering, no-repeat, duplicate and content filter settings
+    | 'take_master_control'
+    | 'manage_roles'      // Promote or demote other users
+    | 'delete_room'
+    | 'manage_fallback';  // Change a room's fallback schedule and sources
+
+export interface PersistedRole {
+    email: string;
+    role: Role;
+}
+
+// Who is asking, and about what
+export interface PermissionContext {
+    email: string | null | undefined;
+    isMaster?: boolean;
+    trackOwnerEmail?: string | null; // Submitter of the track being acted on
+}
+
+export const ROLES: Role[] = ['listener', 'moderator', 'admin'];
+
+/**
+ * Keeps role assignments and decides who may do what:
+ * - listeners may remove/delay their own submissions
+ * - the master and moderators may remove/delay anyone's, reorder the queue, control room playback,
+ *   change room settings, and manage the fallback schedule and sources
+ * - admins may additionally take master control, manage roles and delete rooms
+ */
+export class PermissionManager {
+    private roles = new Map<string, Role>();
+
+    constructor(initial: PersistedRole[] = []) {
+        this.setRoles(initial);
+    }
+
+    /**
+     * Check whether a string is a known role
+     */
+    static isRole(role: unknown): role is Role {
+        return typeof role === 'string' && (ROLES as string[]).includes(role);
+    }
+
+    /**
+     * Replace all role assignments (used when loading from storage)
+     */
+    setRoles(entries: PersistedRole[]): void {
+        this.roles.clear();
+        for (const entry of entries) {
+            if (entry.email && PermissionManager.isRole(entry.role) && entry.role !== 'listener') {
+                this.roles.set(entry.email.toLowerCase(), entry.role);
+            }
+        }
+    }
+
+    /**
+     * Get every non-default role assignment
+     */
+    getRoles(): PersistedRole[] {
+        return Array.from(this.roles.entries()).map(([email, role]) => ({ email, role }));
+    }
+
+    /**
+     * Get a user's role (listener unless assigned otherwise)
+     */
+    getRole(email: string | null | undefined): Role {
+        if (!email) return 'listener';
+        return this.roles.get(email.toLowerCase()) || 'listener';
+    }
+
+    /**
+     * Assign a role. Setting 'listener' removes any assignment.
+     */
+    setRole(email: string, role: Role): void {
+        const key = email.toLowerCase();
+        if (role === 'listener') {
+            this.roles.delete(key);
+        } else {
+            this.roles.set(key, role);
+        }
+        logger.info(`Role for ${key} set to ${role}`);
+    }
+
+    /**
+     * Check whether an action is allowed
+     */
+    can(action: PermissionAction, context: PermissionContext): boolean {
+        const role = this.getRole(context.email);
+        if (role === 'admin') return true;
+        switch (action) {
+            case 'remove_track':
+            case 'delay_track':
+                if (role === 'moderator' || context.isMaster) return true;
+                return !!context.email && !!context.trackOwnerEmail
+                    && context.email.toLowerCase() === context.trackOwnerEmail.toLowerCase();
+            case 'reorder_queue':
+            case 'control_playback':
+            case 'configure_room':
+            case 'manage_fallback':
+                return role === 'moderator' || !!context.isMaster;
+            case 'take_master_control':
+            case 'manage_roles':
+            case 'delete_room':
+                return false;
+        }
+    }
+}
@@ -0,0 +1,896 @@
+import logger from './logger';
+import { QueueManager, SubmittedTrack } from './queueManager';
+import { spotifyDelegate } from './spotify';
+
+export type PlaybackMode = 'master_play' | 'master_pause';
+
+// Time given to Spotify to act on a track change before a mismatch or pause is taken seriously
+export const TRACK_CHANGE_GRACE_PERIOD_MS = 3000;
+// Time after which a track that never started is treated as a playback failure
+export const PLAYBACK_FAILURE_TIMEOUT_MS = 5000;
+// How far the reported position may drift from the expected one before it counts as a seek
+export const SEEK_TOLERANCE_MS = 2500;
+// Remaining time in a track below which the master's player is polled at the fast interval
+export const NEAR_END_WINDOW_MS = 15000;
+// Remaining time in a track below which the next track is added to the listeners' Spotify queues
+export const PRELOAD_LEAD_MS = 5000;
+
+/**
+ * Poll intervals for the master's player: fast near the end of a track, normal around track
+ * changes, slow mid-track and while paused (the scheduled end covers the rest)
+ */
+export interface PollIntervals {
+    fastMs: number;
+    normalMs: number;
+    slowMs: number;
+}
+
+export const DEFAULT_POLL_INTERVALS: PollIntervals = { fastMs: 500, normalMs: 1000, slowMs: 5000 };
+
+/**
+ * How often session_play followers are checked against the master's position, and how far off they may be
+ * before they are seeked back into line
+ */
+export interface FollowerSyncOptions {
+    intervalMs: number;
+    driftThresholdMs: number;
+}
+
+export const DEFAULT_FOLLOWER_SYNC: FollowerSyncOptions = { intervalMs: 10000, driftThresholdMs: 2000 };
+
+// Outcome of the last drift check of a follower
+export interface FollowerSyncStatus {
+    status: 'in_sync' | 'corrected' | 'paused' | 'unreachable';
+    driftMs: number | null;   // Follower position minus the master's (null if it was on another track or unreachable)
+    checkedAt: number;
+}
+
+export type PollCadenceReason = 'track_change' | 'near_end' | 'mid_track' | 'paused' | 'rate_limited';
+
+export interface PollCadence {
+    delayMs: number;
+    reason: PollCadenceReason;
+}
+
+/**
+ * Source of the current time and timers, injectable so tests can drive grace periods, timeouts and scheduled track ends
+ */
+export interface Clock {
+    now(): number;
+    setTimeout(callback: () => void, ms: number): unknown;
+    clearTimeout(handle: unknown): void;
+}
+
+export const systemClock: Clock = {
+    now: () => Date.now(),
+    setTimeout: (callback, ms) => setTimeout(callback, ms),
+    clearTimeout: (handle) => clearTimeout(handle as NodeJS.Timeout),
+};
+
+// Something that happened to the current track on the master's player
+export type TrackEventType = 'ended' | 'skipped_externally' | 'seeked';
+
+export interface TrackEvent {
+    type: TrackEventType;
+    track: SubmittedTrack;
+    positionMs: number | null;      // Where the player was (ended/skipped) or landed (seeked)
+    fromPositionMs?: number;        // Seeks: where the track was expected to be
+    nextTrackUri?: string;          // External skips: what the master switched to
+}
+
+/**
+ * The Spotify calls the playback engine makes
+ */
+export interface PlaybackSpotifyClient {
+    getMyCurrentPlaybackState(accessToken: string): Promise<{ body: any }>;
+    play(accessToken: string, options: { uris: string[]; position_ms?: number; device_id?: string }): Promise<unknown>;
+    pause(accessToken: string, deviceId?: string): Promise<unknown>;
+    seek(accessToken: string, positionMs: number, deviceId?: string): Promise<unknown>;
+    addToQueue(accessToken: string, uri: string, deviceId?: string): Promise<unknown>;
+    skipToNext(accessToken: string, deviceId?: string): Promise<unknown>;
+}
+
+// A session whose Spotify player follows the room
+export interface PlaybackTarget {
+    sessionId: string;
+    accessToken: string;
+    deviceId?: string; // Spotify Connect device picked for the session; commands go to the active device without one
+}
+
+/**
+ * How the controller reaches the rest of the server: who is listening, what to record and what to broadcast
+ */
+export interface PlaybackHooks {
+    getMaster(): PlaybackTarget | null;
+    getTargets(onlySessionPlay: boolean): PlaybackTarget[];
+    onTrackFinished(track: SubmittedTrack): void;            // Track left the player (add to play history)
+    onFallbackPlay(track: SubmittedTrack): void;
+    onMasterAdvanced(track: SubmittedTrack, afterManualSkip: boolean): void; // Master moved on to a queued track by itself
+    onTrackEvent(event: TrackEvent): void;
+    onPlaybackError(track: SubmittedTrack | null): void;
+    onNoActiveDevice(sessionId: string): void;
+    saveQueue(): void;
+    broadcastTrackList(): void;
+    broadcastMode(): void;
+    broadcastSessionList(): void;
+    isDebug(): boolean;
+}
+
+export interface PlaybackControllerOptions {
+    spotify?: PlaybackSpotifyClient;
+    clock?: Clock;
+    hooks?: Partial<PlaybackHooks>;
+    trackChangeGracePeriodMs?: number;
+    playbackFailureTimeoutMs?: number;
+    seekToleranceMs?: number;
+    pollIntervals?: Partial<PollIntervals>;
+    followerSync?: Partial<FollowerSyncOptions>;
+}
+
+// State reported by the master's player on one poll
+interface PlayerSnapshot {
+    uri: string | null;
+    progress_ms: number | null;
+    duration_ms: number | null;
+    is_playing: boolean | null;
+}
+
+// Next track added to the Spotify queues of the sessions that follow the room, ahead of the end of afterTrack
+interface PreloadedTrack {
+    afterTrack: SubmittedTrack;
+    uri: string | null;            // null: nothing to play next
+    sessionIds: Set<string>;       // Sessions whose queue took it
+}
+
+// Last known position of the current track on the master's player; the expected position is extrapolated from it
+interface PositionAnchor {
+    uri: string;
+    positionMs: number;
+    durationMs: number;
+    playing: boolean;
+    at: number;
+}
+
+const NO_HOOKS: PlaybackHooks = {
+    getMaster: () => null,
+    getTargets: () => [],
+    onTrackFinished: () => {},
+    onFallbackPlay: () => {},
+    onMasterAdvanced: () => {},
+    onTrackEvent: () => {},
+    onPlaybackError: () => {},
+    onNoActiveDevice: () => {},
+    saveQueue: () => {},
+    broadcastTrackList: () => {},
+    broadcastMode: () => {},
+    broadcastSessionList: () => {},
+    isDebug: () => false,
+};
+
+function getErrorMessage(err: unknown): string {
+    if (err && typeof err === 'object' && 'message' in err && (err as any).message) {
+        return (err as any).message;
+    }
+    return err ? err.toString() : '';
+}
+
+function isNoActiveDeviceError(err: unknown): boolean {
+    const errMsg = getErrorMessage(err);
+    return errMsg.includes('NO_ACTIVE_DEVICE') || errMsg.includes('No active device found');
+}
+
+/**
+ * Playback engine for one room. Owns the current track, whether it has been consumed from the queue,
+ * the grace periods around track changes and playback failure detection, and follows the master
+ * user's Spotify player through poll().
+ *
+ * Tracks are peeked when they start and consumed from the queue either immediately (skips and
+ * natural progression) or once the master's player confirms playback (master_play).
+ *
+ * Track ends are scheduled: each poll anchors the master's position and a timer fires when the
+ * remaining duration runs out. Polls that disagree with the extrapolated position are reported as
+ * seeks, and the master switching tracks early as an external skip.
+ *
+ * Shortly before a track ends the next one is added to the session_play listeners' Spotify queues,
+ * so their players move on without a gap; sessions whose queue refused it get a play command instead.
+ * Followers join at the master's position and are periodically checked for drift and seeked back.
+ */
+export class PlaybackController {
+    mode: PlaybackMode = 'master_pause';
+    currentTrack: SubmittedTrack | null = null;
+    currentTrackIsFallback: boolean = false;
+    currentTrackConsumed: boolean = false; // Whether the current track was removed from the queue
+    masterTrackStarted: boolean = false;
+
+    private lastMasterPlaybackState: 'play' | 'pause' | null = null;
+    private anchor: PositionAnchor | null = null;
+    private endTimer: unknown = null;
+    private preloaded: PreloadedTrack | null = null;
+    private followerSyncStatus = new Map<string, FollowerSyncStatus>();
+    private lastFollowerSyncAt: number = 0;
+    // When we last commanded a track change (to allow grace period)
+    private lastTrackChangeCommand: number = 0;
+    // Additional guard to suppress end detection right after manual skip
+    private lastManualSkipAt: number = 0;
+    // Playback failure tracking
+    private playbackFailureCheckTime: number = 0;
+    private expectedPlayingUri: string | null = null;
+
+    private readonly queueManager: QueueManager;
+    private readonly spotify: PlaybackSpotifyClient;
+    private readonly clock: Clock;
+    private readonly hooks: PlaybackHooks;
+    private readonly trackChangeGracePeriodMs: number;
+    private readonly playbackFailureTimeoutMs: number;
+    private readonly seekToleranceMs: number;
+    private readonly pollIntervals: PollIntervals;
+    private readonly followerSync: FollowerSyncOptions;
+
+    constructor(queueManager: QueueManager, options: PlaybackControllerOptions = {}) {
+        this.queueManager = queueManager;
+        this.spotify = options.spotify || spotifyDelegate;
+        this.clock = options.clock || systemClock;
+        this.hooks = { ...NO_HOOKS, ...options.hooks };
+        this.trackChangeGracePeriodMs = options.trackChangeGracePeriodMs ?? TRACK_CHANGE_GRACE_PERIOD_MS;
+        this.playbackFailureTimeoutMs = options.playbackFailureTimeoutMs ?? PLAYBACK_FAILURE_TIMEOUT_MS;
+        this.seekToleranceMs = options.seekToleranceMs ?? SEEK_TOLERANCE_MS;
+        this.pollIntervals = { ...DEFAULT_POLL_INTERVALS, ...options.pollIntervals };
+        this.followerSync = { ...DEFAULT_FOLLOWER_SYNC, ...options.followerSync };
+    }
+
+    /**
+     * Check whether a track end is currently scheduled
+     */
+    isTrackEndScheduled(): boolean {
+        return this.endTimer !== null;
+    }
+
+    /**
+     * Where the master's player should be in the current track now (null if its position is not known)
+     */
+    getMasterPositionMs(): number | null {
+        if (!this.currentTrack || !this.anchor || this.anchor.uri !== this.currentTrack.spotifyUri) return null;
+        return Math.round(this.expectedPosition(this.anchor));
+    }
+
+    /**
+     * Result of the last drift check of a session_play follower
+     */
+    getFollowerSyncStatus(sessionId: string): FollowerSyncStatus | null {
+        return this.followerSyncStatus.get(sessionId) || null;
+    }
+
+    /**
+     * Start the current track on a session that just switched to session_play, at the master's position
+     */
+    async startFollower(target: PlaybackTarget): Promise<void> {
+        if (!this.currentTrack) return;
+        const positionMs = this.getMasterPositionMs() ?? 0;
+        try {
+            await this.spotify.play(target.accessToken, { uris: [this.currentTrack.spotifyUri], position_ms: positionMs, device_id: target.deviceId });
+            logger.info(`Session ${target.sessionId} joined playback at ${positionMs}ms`);
+        } catch (err) {
+            logger.error(`Failed to start playback for session ${target.sessionId}:`, err);
+            if (isNoActiveDeviceError(err)) {
+                this.hooks.onNoActiveDevice(target.sessionId);
+            }
+        }
+    }
+
+    /**
+     * Make another session the master after the old one was lost. A playing room continues on the new
+     * master's player from the position the old master had reached, unless it is already there.
+     */
+    async handOverMaster(target: PlaybackTarget): Promise<void> {
+        this.lastMasterPlaybackState = null;
+        this.followerSyncStatus.delete(target.sessionId);
+        if (!this.currentTrack || this.mode !== 'master_play') return;
+        const uri = this.currentTrack.spotifyUri;
+        const positionMs = this.getMasterPositionMs() ?? 0;
+        try {
+            const playback = await this.spotify.getMyCurrentPlaybackState(target.accessToken);
+            if (playback.body?.is_playing && playback.body.item?.uri === uri) {
+                logger.info(`New master ${target.sessionId} is already playing ${uri}`);
+                return;
+            }
+            await this.spotify.play(target.accessToken, { uris: [uri], position_ms: positionMs, device_id: target.deviceId });
+            // Give the new master's player time to start before polls judge it
+            this.lastTrackChangeCommand = this.clock.now();
+            logger.info(`Handed playback over to new master ${target.sessionId} at ${positionMs}ms`);
+        } catch (err) {
+            logger.error(`Failed to hand playback over to new master ${target.sessionId}:`, err);
+            if (isNoActiveDeviceError(err)) {
+                this.hooks.onNoActiveDevice(target.sessionId);
+            }
+        }
+    }
+
+    /**
+     * How long to wait before the next poll, given where the current track is
+     */
+    getPollCadence(): PollCadence {
+        const { fastMs, normalMs, slowMs } = this.pollIntervals;
+        if (this.mode === 'master_pause') return { delayMs: slowMs, reason: 'paused' };
+        const changingTrack = this.clock.now() - this.lastTrackChangeCommand < this.trackChangeGracePeriodMs;
+        if (!this.anchor || !this.masterTrackStarted || this.isAwaitingPlayback() || changingTrack) {
+            return { delayMs: normalMs, reason: 'track_change' };
+        }
+        if (!this.anchor.playing) return { delayMs: slowMs, reason: 'paused' };
+        const remainingMs = this.anchor.durationMs - this.expectedPosition(this.anchor);
+        return remainingMs <= NEAR_END_WINDOW_MS
+            ? { delayMs: fastMs, reason: 'near_end' }
+            : { delayMs: slowMs, reason: 'mid_track' };
+    }
+
+    /**
+     * Cancel the scheduled track end (the room is going away)
+     */
+    dispose(): void {
+        this.cancelScheduledEnd();
+    }
+
+    /**
+     * Check whether a playback failure check is pending for the current track
+     */
+    isAwaitingPlayback(): boolean {
+        return this.expectedPlayingUri !== null;
+    }
+
+    /**
+     * Switch to master_play, picking the next track if nothing is current yet.
+     * The track stays in the queue until the master's player confirms it is playing.
+     * Returns false if the room was already playing.
+     */
+    async resume(): Promise<boolean> {
+        if (this.mode === 'master_play') return false;
+        this.mode = 'master_play';
+        logger.info('Playback mode set to master_play');
+        if (!this.currentTrack) {
+            const next = await this.queueManager.peekNextTrack(this.getMasterAccessToken());
+            if (next) {
+                this.currentTrack = next.track;
+                this.currentTrackIsFallback = next.isFallback;
+                this.currentTrackConsumed = false;
+                this.masterTrackStarted = false;
+                logger.info(`Now playing${next.isFallback ? ' fallback track' : ''}: ${next.track.name || next.track.spotifyUri} (not consumed yet)`);
+                this.hooks.broadcastTrackList();
+            }
+        }
+        if (this.currentTrack) {
+            this.anchor = null;
+            this.lastTrackChangeCommand = this.clock.now();
+            this.startFailureTracking(this.currentTrack.spotifyUri);
+            await this.playForTargets(this.currentTrack, false);
+        }
+        this.hooks.broadcastMode();
+        return true;
+    }
+
+    /**
+     * Switch to master_pause and pause every session's player.
+     * Returns false if the room was already paused.
+     */
+    async pause(): Promise<boolean> {
+        if (this.mode === 'master_pause') return false;
+        this.mode = 'master_pause';
+        logger.info('Playback mode set to master_pause');
+        this.cancelScheduledEnd();
+        for (const target of this.hooks.getTargets(false)) {
+            try {
+                await this.spotify.pause(target.accessToken, target.deviceId);
+                logger.info(`Paused Spotify playback for session ${target.sessionId}`);
+            } catch (err) {
+                logger.error(`Failed to pause Spotify for session ${target.sessionId}:`, err);
+            }
+        }
+        this.hooks.broadcastMode();
+        return true;
+    }
+
+    /**
+     * Skip the current track and play the next one (used by master_skip and vote_skip).
+     * Returns false if there was nothing to skip to.
+     */
+    async skip(): Promise<boolean> {
+        this.lastManualSkipAt = this.clock.now();
+        this.finishCurrentTrack();
+        const advanced = await this.advance('manual skip', false);
+        if (!advanced) {
+            logger.info('No more tracks to skip to');
+        }
+        return advanced;
+    }
+
+    /**
+     * Undo a skip: the track skipped to goes back to the front of its queue and the skipped track
+     * becomes current again (already consumed), playing from where it was left if the room is playing.
+     */
+    async restoreSkippedTrack(track: SubmittedTrack, isFallback: boolean, positionMs: number | null): Promise<void> {
+        if (this.currentTrack && this.currentTrackConsumed) {
+            this.queueManager.restoreTrack(this.currentTrack, 0, this.currentTrackIsFallback);
+        }
+        this.currentTrack = track;
+        this.currentTrackIsFallback = isFallback;
+        this.currentTrackConsumed = true;
+        this.masterTrackStarted = false;
+        this.anchor = null;
+        this.preloaded = null;
+        this.cancelScheduledEnd();
+        logger.info(`Restored skipped track: ${track.name || track.spotifyUri} at ${positionMs ?? 0}ms`);
+        if (this.mode === 'master_play') {
+            // The player leaving the track skipped to is not the end of it
+            this.lastManualSkipAt = this.clock.now();
+            this.lastTrackChangeCommand = this.clock.now();
+            this.startFailureTracking(track.spotifyUri);
+            await this.playForTargets(track, false, null, positionMs ?? undefined);
+        }
+        this.hooks.saveQueue();
+        this.hooks.broadcastTrackList();
+        this.hooks.broadcastMode();
+    }
+
+    /**
+     * Start playing the next track (normally from the fallback playlist) regardless of the current state.
+     * Returns false if the master has no Spotify token or there is nothing to play.
+     */
+    async startFallback(): Promise<boolean> {
+        if (!this.getMasterAccessToken()) {
+            logger.warn('No master user token available to start fallback');
+            return false;
+        }
+        this.finishCurrentTrack();
+        const advanced = await this.advance('manual start fallback', false, 'master_play');
+        if (!advanced) {
+            logger.warn('No fallback tracks available');
+        }
+        return advanced;
+    }
+
+    /**
+     * Poll the master user's player once and react: detect failures and track ends, keep the master on
+     * the room's track, follow natural advances into the queue and mirror play/pause into the mode.
+     */
+    async poll(): Promise<void> {
+        const master = this.hooks.getMaster();
+        if (!master) return;
+        try {
+            const playback = await this.spotify.getMyCurrentPlaybackState(master.accessToken);
+            if (this.hooks.isDebug()) {
+                logger.info('Spotify playback state: ' + JSON.stringify({
+                    is_playing: playback.body?.is_playing,
+                    item_uri: playback.body?.item?.uri,
+                    progress_ms: playback.body?.progress_ms,
+                    duration_ms: playback.body?.item?.duration_ms,
+                    item_name: playback.body?.item?.name,
+                    item_id: playback.body?.item?.id,
+                }));
+            }
+
+            const curr: PlayerSnapshot = {
+                uri: playback.body?.item?.uri || null,
+                progress_ms: typeof playback.body?.progress_ms === 'number' ? playback.body.progress_ms : null,
+                duration_ms: typeof playback.body?.item?.duration_ms === 'number' ? playback.body.item.duration_ms : null,
+                is_playing: typeof playback.body?.is_playing === 'boolean' ? playback.body.is_playing : null,
+            };
+
+            await this.checkPlaybackFailure(curr);
+
+            if (this.mode === 'master_pause') {
+                // Only update progress info, do not check for track end
+                this.cancelScheduledEnd();
+                this.updateProgress(curr);
+                this.hooks.broadcastMode();
+                return;
+            }
+
+            if (curr.is_playing === null) return;
+            const newState = curr.is_playing ? 'play' : 'pause';
+
+            if (this.currentTrack && curr.uri && curr.uri !== this.currentTrack.spotifyUri) {
+                await this.handleTrackMismatch(curr, master);
+                return;
+            }
+
+            // Consume the track from the queue once the master's player confirms it is playing
+            if (curr.is_playing && this.currentTrack && curr.uri === this.currentTrack.spotifyUri && !this.masterTrackStarted) {
+                this.masterTrackStarted = true;
+                logger.info(`Master user started playing track: ${this.currentTrack.name || this.currentTrack.spotifyUri}`);
+                if (!this.currentTrackConsumed) {
+                    this.consumeCurrentTrack('after playback confirmation');
+                    this.hooks.broadcastTrackList();
+                }
+            }
+
+            if (await this.reconcilePosition(curr)) return;
+            await this.checkFollowerSync(master);
+
+            if (newState !== this.lastMasterPlaybackState) {
+                this.lastMasterPlaybackState = newState;
+                // Only a pause needs handling here: the room is already in master_play
+                if (newState === 'pause') {
+                    const timeSinceLastCommand = this.clock.now() - this.lastTrackChangeCommand;
+                    if (timeSinceLastCommand < this.trackChangeGracePeriodMs) {
+                        // We just commanded a track change, this pause is temporary during transition
+                        logger.info(`Pause detected but within grace period (${timeSinceLastCommand}ms), ignoring (likely track transition)`);
+                        return;
+                    }
+                    this.mode = 'master_pause';
+                    this.cancelScheduledEnd();
+                    logger.info('Master user is paused, setting mode to master_pause');
+                    this.hooks.broadcastMode();
+                }
+            } else if (this.currentTrack?.progress) {
+                // Always broadcast progress updates
+                this.hooks.broadcastMode();
+            }
+        } catch (err) {
+            logger.error('Error polling master user playback:', err);
+        }
+    }
+
+    // Compare a poll of the current track with the anchored position: report seeks, finish the track if
+    // the player stopped at its end, then re-anchor and reschedule the end. Returns true if the track ended.
+    private async reconcilePosition(curr: PlayerSnapshot): Promise<boolean> {
+        this.updateProgress(curr);
+        if (!this.currentTrack || curr.uri !== this.currentTrack.spotifyUri || curr.progress_ms === null || !curr.duration_ms) return false;
+        if (!this.masterTrackStarted) return false;
+
+        const anchor = this.anchor?.uri === curr.uri ? this.anchor : null;
+        if (anchor) {
+            const expectedMs = this.expectedPosition(anchor);
+            const stoppedAtEnd = !curr.is_playing && curr.progress_ms === 0 && expectedMs >= anchor.durationMs - this.seekToleranceMs;
+            if (stoppedAtEnd) {
+                // Spotify resets a track that played to the end without anything queued after it
+                logger.info(`Track "${this.currentTrack.name || curr.uri}" ended (player stopped at its end)`);
+                await this.endCurrentTrack(anchor.durationMs);
+                return true;
+            }
+            const sinceCommand = this.clock.now() - this.lastTrackChangeCommand;
+            if (Math.abs(curr.progress_ms - expectedMs) > this.seekToleranceMs && sinceCommand >= this.trackChangeGracePeriodMs) {
+                logger.info(`Master seeked in "${this.currentTrack.name || curr.uri}" from ${Math.round(expectedMs)}ms to ${curr.progress_ms}ms`);
+                this.hooks.onTrackEvent({ type: 'seeked', track: { ...this.currentTrack }, positionMs: curr.progress_ms, fromPositionMs: Math.round(expectedMs) });
+            }
+        }
+
+        this.anchor = { uri: curr.uri, positionMs: curr.progress_ms, durationMs: curr.duration_ms, playing: !!curr.is_playing, at: this.clock.now() };
+        this.scheduleEnd(this.anchor);
+        if (this.anchor.playing && this.anchor.durationMs - this.anchor.positionMs <= PRELOAD_LEAD_MS) {
+            await this.preloadNextTrack();
+        }
+        return false;
+    }
+
+    // Add the next track to the Spotify queue of every session_play listener, once per current track.
+    // Spotify cannot take a track back out of the queue: if the room's queue changes afterwards the new head
+    // is started with play, and the stale entry is corrected like any other track the master wanders onto.
+    private async preloadNextTrack(): Promise<void> {
+        const afterTrack = this.currentTrack;
+        if (!afterTrack || this.preloaded?.afterTrack === afterTrack) return;
+        const preloaded: PreloadedTrack = { afterTrack, uri: null, sessionIds: new Set() };
+        this.preloaded = preloaded;
+        const next = await this.queueManager.peekNextTrack(this.getMasterAccessToken());
+        if (!next) return;
+        preloaded.uri = next.track.spotifyUri;
+        for (const target of this.hooks.getTargets(true)) {
+            try {
+                await this.spotify.addToQueue(target.accessToken, next.track.spotifyUri, target.deviceId);
+                preloaded.sessionIds.add(target.sessionId);
+                logger.info(`Queued next track ${next.track.name || next.track.spotifyUri} for session ${target.sessionId}`);
+            } catch (err) {
+                logger.warn(`Failed to queue next track for session ${target.sessionId}, it will be started with play instead: ${getErrorMessage(err)}`);
+            }
+        }
+    }
+
+    // Every sync interval, compare each follower's player with the master's position and correct the ones that drifted
+    private async checkFollowerSync(master: PlaybackTarget): Promise<void> {
+        const now = this.clock.now();
+        if (now - this.lastFollowerSyncAt < this.followerSync.intervalMs) return;
+        if (!this.currentTrack || !this.masterTrackStarted || !this.anchor?.playing) return;
+        if (now - this.lastTrackChangeCommand < this.trackChangeGracePeriodMs) return;
+        const masterPositionMs = this.getMasterPositionMs();
+        // The last seconds of a track belong to the handoff to the next one
+        if (masterPositionMs === null || this.anchor.durationMs - masterPositionMs <= PRELOAD_LEAD_MS) return;
+        this.lastFollowerSyncAt = now;
+        for (const target of this.hooks.getTargets(true)) {
+            if (target.sessionId === master.sessionId) continue;
+            this.followerSyncStatus.set(target.sessionId, await this.syncFollower(target, this.currentTrack.spotifyUri));
+        }
+        this.hooks.broadcastSessionList();
+    }
+
+    private async syncFollower(target: PlaybackTarget, uri: string): Promise<FollowerSyncStatus> {
+        try {
+            const playback = await this.spotify.getMyCurrentPlaybackState(target.accessToken);
+            const checkedAt = this.clock.now();
+            // Read after the request: the master moved on while it was in flight
+            const expectedMs = this.getMasterPositionMs() ?? 0;
+            if (playback.body?.is_playing === false) {
+                // The listener paused their own player; leave it alone
+                return { status: 'paused', driftMs: null, checkedAt };
+            }
+            const progressMs = playback.body?.progress_ms;
+            if (playback.body?.item?.uri !== uri || typeof progressMs !== 'number') {
+                logger.info(`Session ${target.sessionId} is not on ${uri}, restarting it at ${expectedMs}ms`);
+                await this.spotify.play(target.accessToken, { uris: [uri], position_ms: expectedMs, device_id: target.deviceId });
+                return { status: 'corrected', driftMs: null, checkedAt };
+            }
+            const driftMs = progressMs - expectedMs;
+            if (Math.abs(driftMs) <= this.followerSync.driftThresholdMs) {
+                return { status: 'in_sync', driftMs, checkedAt };
+            }
+            logger.info(`Session ${target.sessionId} drifted ${driftMs}ms from the master, seeking to ${expectedMs}ms`);
+            await this.spotify.seek(target.accessToken, expectedMs, target.deviceId);
+            return { status: 'corrected', driftMs, checkedAt };
+        } catch (err) {
+            logger.warn(`Failed to check playback sync for session ${target.sessionId}: ${getErrorMessage(err)}`);
+            return { status: 'unreachable', driftMs: null, checkedAt: this.clock.now() };
+        }
+    }
+
+    // Position the anchored track should be at now
+    private expectedPosition(anchor: PositionAnchor): number {
+        const elapsed = anchor.playing ? this.clock.now() - anchor.at : 0;
+        return Math.min(anchor.positionMs + elapsed, anchor.durationMs);
+    }
+
+    // Whether the anchored current track has (nearly) run out
+    private isNearEnd(): boolean {
+        return !!this.anchor && this.expectedPosition(this.anchor) >= this.anchor.durationMs - this.seekToleranceMs;
+    }
+
+    // Arm the end timer for a playing track, or disarm it for a paused one
+    private scheduleEnd(anchor: PositionAnchor): void {
+        this.cancelScheduledEnd();
+        if (!anchor.playing) return;
+        const track = this.currentTrack;
+        const remainingMs = Math.max(0, anchor.durationMs - anchor.positionMs);
+        this.endTimer = this.clock.setTimeout(() => {
+            this.endTimer = null;
+            // Ignore a timer that outlived its track (a skip or poll moved on in the meantime)
+            if (this.currentTrack !== track || this.mode !== 'master_play') return;
+            logger.info(`Track "${track?.name || anchor.uri}" reached its scheduled end`);
+            this.endCurrentTrack(anchor.durationMs).catch(err => logger.error('Error advancing at scheduled track end:', err));
+        }, remainingMs);
+    }
+
+    private cancelScheduledEnd(): void {
+        if (this.endTimer !== null) {
+            this.clock.clearTimeout(this.endTimer);
+            this.endTimer = null;
+        }
+    }
+
+    // The current track played to its end: record it and move the session_play listeners on
+    private async endCurrentTrack(positionMs: number | null): Promise<void> {
+        if (!this.currentTrack) return;
+        // The master's player ending right after a manual skip is the old track stopping, not the new one
+        if (this.lastManualSkipAt && (this.clock.now() - this.lastManualSkipAt) < this.trackChangeGracePeriodMs) {
+            logger.info('Detected end right after manual skip - suppressing auto-advance');
+            this.lastManualSkipAt = 0;
+            return;
+        }
+        this.hooks.onTrackEvent({ type: 'ended', track: { ...this.currentTrack }, positionMs });
+        logger.info('Advancing to next track due to track end.');
+        this.finishCurrentTrack();
+        if (!await this.advance('natural progression', true)) {
+            this.stop();
+        }
+    }
+
+    // Push the current track to play history before it is replaced, dropping it from the queue
+    // if playback was never confirmed (otherwise the next peek would return it again)
+    private finishCurrentTrack(): void {
+        if (this.currentTrack) {
+            this.consumeCurrentTrack('before playback confirmation');
+            this.hooks.onTrackFinished({ ...this.currentTrack });
+        }
+    }
+
+    // Peek the next track, play it for the sessions and consume it from the queue.
+    // Returns false if there is nothing left to play.
+    private async advance(reason: string, onlySessionPlay: boolean, mode?: PlaybackMode): Promise<boolean> {
+        const next = await this.queueManager.peekNextTrack(this.getMasterAccessToken());
+        if (!next) return false;
+        if (mode) this.mode = mode;
+        await this.startTrack(next.track, next.isFallback, onlySessionPlay);
+        this.queueManager.consumeNextTrack(next.isFallback);
+        this.currentTrackConsumed = true;
+        if (!next.isFallback) {
+            this.hooks.saveQueue();
+        }
+        logger.info(`✓ Track consumed from queue (${reason})`);
+        this.hooks.broadcastTrackList();
+        return true;
+    }
+
+    // Make a peeked (not yet consumed) track current, start failure tracking and play it
+    private async startTrack(track: SubmittedTrack, isFallback: boolean, onlySessionPlay: boolean): Promise<void> {
+        this.currentTrack = track;
+        this.currentTrackIsFallback = isFallback;
+        this.currentTrackConsumed = false;
+        if (isFallback) {
+            logger.info(`Playing from fallback: ${track.name || track.spotifyUri} (not consumed from queue yet)`);
+            this.hooks.onFallbackPlay(track);
+        } else {
+            logger.info(`Now playing: ${track.name || track.spotifyUri} (not consumed from queue yet)`);
+        }
+        this.masterTrackStarted = false;
+        this.anchor = null;
+        this.cancelScheduledEnd();
+        this.lastTrackChangeCommand = this.clock.now();
+        this.startFailureTracking(track.spotifyUri);
+        const preloaded = this.preloaded?.uri === track.spotifyUri ? this.preloaded : null;
+        this.preloaded = null;
+        await this.playForTargets(track, onlySessionPlay, preloaded);
+        this.hooks.broadcastTrackList();
+        this.hooks.broadcastMode();
+    }
+
+    // Nothing left to play: clear the current track and pause
+    private stop(): void {
+        this.currentTrack = null;
+        this.anchor = null;
+        this.preloaded = null;
+        this.cancelScheduledEnd();
+        this.masterTrackStarted = false;
+        this.currentTrackConsumed = true; // No track to consume
+        if (this.mode !== 'master_pause') {
+            this.mode = 'master_pause';
+            logger.info('No more tracks in queue and no fallback playlist, stopping playback');
+            this.hooks.broadcastTrackList();
+            this.hooks.broadcastMode();
+        }
+    }
+
+    private consumeCurrentTrack(reason: string): void {
+        if (this.currentTrackConsumed) return;
+        this.queueManager.consumeNextTrack(this.currentTrackIsFallback);
+        this.currentTrackConsumed = true;
+        if (!this.currentTrackIsFallback) {
+            this.hooks.saveQueue();
+        }
+        logger.info(`✓ Track consumed from queue ${reason}`);
+    }
+
+    // Start a track on the sessions' players. Where it was preloaded into the Spotify queue, a track end
+    // (onlySessionPlay) needs no command as the player moves on by itself, and anything else skips to it.
+    private async playForTargets(track: SubmittedTrack, onlySessionPlay: boolean, preloaded: PreloadedTrack | null = null, positionMs?: number): Promise<void> {
+        for (const target of this.hooks.getTargets(onlySessionPlay)) {
+            if (preloaded?.sessionIds.has(target.sessionId)) {
+                if (onlySessionPlay) {
+                    logger.info(`Session ${target.sessionId} continues into the queued track`);
+                    continue;
+                }
+                try {
+                    await this.spotify.skipToNext(target.accessToken, target.deviceId);
+                    logger.info(`Skipped to the queued track for session ${target.sessionId}`);
+                    continue;
+                } catch (err) {
+                    logger.warn(`Failed to skip to the queued track for session ${target.sessionId}, playing it instead: ${getErrorMessage(err)}`);
+                }
+            }
+            try {
+                await this.spotify.play(target.accessToken, { uris: [track.spotifyUri], position_ms: positionMs, device_id: target.deviceId });
+                logger.info(`Started playback for session ${target.sessionId}${onlySessionPlay ? ' (session_play mode)' : ''}`);
+            } catch (err) {
+                logger.error(`Failed to start playback for session ${target.sessionId}:`, err);
+                if (isNoActiveDeviceError(err)) {
+                    this.hooks.onNoActiveDevice(target.sessionId);
+                }
+            }
+        }
+    }
+
+    private startFailureTracking(uri: string): void {
+        this.expectedPlayingUri = uri;
+        this.playbackFailureCheckTime = this.clock.now();
+        logger.info(`Started playback failure tracking for ${uri}`);
+    }
+
+    private clearFailureTracking(): void {
+        this.expectedPlayingUri = null;
+        this.playbackFailureCheckTime = 0;
+    }
+
+    // If the commanded track has not started within the timeout, report it and move on to the next one
+    private async checkPlaybackFailure(curr: PlayerSnapshot): Promise<void> {
+        if (!this.expectedPlayingUri || this.playbackFailureCheckTime <= 0) return;
+        if (curr.uri === this.expectedPlayingUri && curr.is_playing) {
+            logger.info(`Playback confirmed: ${curr.uri} is playing`);
+            this.clearFailureTracking();
+            return;
+        }
+        if (this.clock.now() - this.playbackFailureCheckTime <= this.playbackFailureTimeoutMs) return;
+
+        logger.error(`Playback failure detected: Expected ${this.expectedPlayingUri} to be playing, but current state is: ${JSON.stringify(curr)}`);
+        this.hooks.onPlaybackError(this.currentTrack);
+        // Drop the failed track so the next peek does not return it again
+        this.consumeCurrentTrack('after playback failure');
+        this.currentTrack = null;
+        this.clearFailureTracking();
+        this.hooks.broadcastTrackList();
+
+        if (await this.advance('after playback failure', false)) {
+            logger.info(`Attempting next track after failure: ${this.currentTrack!.name || this.currentTrack!.spotifyUri}`);
+        }
+    }
+
+    // The master's player is on a different track than the room
+    private async handleTrackMismatch(curr: PlayerSnapshot, master: PlaybackTarget): Promise<void> {
+        const masterTrackUri = curr.uri!;
+        const timeSinceLastCommand = this.clock.now() - this.lastTrackChangeCommand;
+        if (timeSinceLastCommand < this.trackChangeGracePeriodMs) {
+            // We just commanded a track change, give Spotify time to respond
+            logger.info(`Track mismatch but within grace period (${timeSinceLastCommand}ms), waiting for Spotify to catch up...`);
+            return;
+        }
+
+        if (this.preloaded?.afterTrack === this.currentTrack && this.preloaded?.uri === masterTrackUri) {
+            // Spotify moved on to the track queued ahead of the end before our scheduled end fired
+            logger.info(`Master continued into the queued track ${masterTrackUri}`);
+            await this.endCurrentTrack(this.anchor ? Math.round(this.expectedPosition(this.anchor)) : null);
+            return;
+        }
+
+        if (this.queueManager.hasTrack(masterTrackUri)) {
+            const justManuallySkipped = !!this.lastManualSkipAt && (this.clock.now() - this.lastManualSkipAt) < this.trackChangeGracePeriodMs;
+            if (justManuallySkipped) {
+                logger.info(`Master advanced to ${masterTrackUri} after manual skip - suppressing duplicate track_play event`);
+                this.lastManualSkipAt = 0;
+            } else {
+                logger.info(`Master naturally advanced to ${masterTrackUri} which is in queue. Syncing state...`);
+            }
+            if (this.currentTrack && !justManuallySkipped) {
+                const positionMs = this.anchor ? Math.round(this.expectedPosition(this.anchor)) : null;
+                this.hooks.onTrackEvent(this.isNearEnd()
+                    ? { type: 'ended', track: { ...this.currentTrack }, positionMs }
+                    : { type: 'skipped_externally', track: { ...this.currentTrack }, positionMs, nextTrackUri: masterTrackUri });
+            }
+            this.finishCurrentTrack();
+            const newTrack = this.queueManager.removeTrack(masterTrackUri)!;
+            this.currentTrack = newTrack;
+            this.currentTrackIsFallback = false;
+            this.currentTrackConsumed = true;
+            this.masterTrackStarted = true;
+            this.anchor = null;
+            this.hooks.saveQueue();
+            await this.reconcilePosition(curr);
+            this.hooks.onMasterAdvanced(newTrack, justManuallySkipped);
+            this.hooks.broadcastTrackList();
+            this.hooks.broadcastMode();
+            return;
+        }
+
+        if (this.isNearEnd()) {
+            // The track ran out and the master's player moved on to something of its own (e.g. autoplay)
+            logger.info(`Master moved on to ${masterTrackUri} at the end of the current track`);
+            await this.endCurrentTrack(this.anchor!.durationMs);
+            return;
+        }
+
+        // Master is playing something not in our queue - try to correct
+        const expectedUri = this.currentTrack!.spotifyUri;
+        logger.warn(`Master user is playing ${masterTrackUri} but should be playing ${expectedUri}. Attempting to correct...`);
+        try {
+            await this.spotify.play(master.accessToken, { uris: [expectedUri], device_id: master.deviceId });
+            logger.info(`Successfully started correct track (${expectedUri}) for master user.`);
+        } catch (err) {
+            logger.error(`Failed to start correct track for master user:`, err);
+            if (isNoActiveDeviceError(err)) {
+                this.hooks.onNoActiveDevice(master.sessionId);
+            }
+        }
+    }
+
+    private updateProgress(curr: PlayerSnapshot): void {
+        if (!this.currentTrack) return;
+        this.currentTrack.progress = curr.progress_ms !== null && curr.duration_ms !== null
+            ? { position_ms: curr.progress_ms, duration_ms: curr.duration_ms }
+            : null;
+    }
+
+    private getMasterAccessToken(): string | undefined {
+        return this.hooks.getMaster()?.accessToken;
+    }
+}
@@ -0,0 +1,574 @@
+import { DuplicatePolicy, QueueOrderingPolicy, RepeatSubmissionAction } from './queueManager';
+import { Role } from './permissions';
+
+// WebSocket protocol version spoken by this server, and the oldest one it still accepts.
+// Clients send `protocolVersion` in `login`; clients that omit it are treated as version 1.
+export const PROTOCOL_VERSION = 1;
+export const MIN_PROTOCOL_VERSION = 1;
+
+// Codes sent in `error` frames so clients can react without parsing the text
+export const PROTOCOL_ERROR_CODES = [
+    'invalid_json',        // Frame was not valid JSON
+    'invalid_message',     // A field is missing or has the wrong type
+    'unknown_type',        // Message type is not part of the protocol
+    'unsupported_version', // Client protocol version is too old or not a number
+    'not_authenticated',   // Message needs a logged-in connection
+    'session_mismatch',    // sessionId does not match the session bound to the connection
+    'permission_denied',   // The user's role does not allow the action
+    'not_found',           // Referenced room/track does not exist
+    'invalid_state',       // Action not possible right now (e.g. nothing playing)
+    'quota_exceeded',      // The user's submission limits don't allow another track yet
+    'content_filtered'     // The room's content filter blocks the track
+] as const;
+export type ProtocolErrorCode = typeof PROTOCOL_ERROR_CODES[number];
+
+// Message interfaces for each inbound type
+export interface LoginMessage {
+    type: 'login';
+    userId?: string;
+    token?: string; // Signed session token (may instead be given as ?token= on the WebSocket URL)
+    roomId?: string; // Room to join on login (defaults to the session's current room)
+    protocolVersion?: number;
+}
+
+export interface GenericMessage {
+    type: 'message';
+    message: string;
+}
+
+export interface PlayTrackMessage {
+    type: 'play_track';
+    trackId: string;
+}
+
+export interface GetTracksMessage {
+    type: 'get_tracks';
+}
+
+// Queue items are picked by itemId, or by spotifyUri (the first queued item of the track); one is required
+export interface JamMessage {
+    type: 'jam';
+    spotifyUri?: string;
+    itemId?: string;
+    sessionId: string;
+    unjam?: boolean; // true for shift-click to unjam
+}
+
+export interface PlayMessage {
+    type: 'master_play';
+    sessionId: string;
+}
+
+export interface PauseMessage {
+    type: 'master_pause';
+    sessionId: string;
+}
+
+export interface SessionPlayMessage {
+    type: 'session_play';
+    sessionId: string;
+}
+
+export interface SessionPauseMessage {
+    type: 'session_pause';
+    sessionId: string;
+}
+
+export interface GetSessionsMessage {
+    type: 'get_sessions';
+}
+
+export interface RemoveTrackMessage {
+    type: 'remove_track';
+    spotifyUri?: string;
+    itemId?: string;
+    sessionId: string;
+}
+
+export interface DelayTrackMessage {
+    type: 'delay_track';
+    spotifyUri?: string;
+    itemId?: string;
+    sessionId: string;
+}
+
+export interface MoveTrackMessage {
+    type: 'move_track';
+    spotifyUri?: string;
+    itemId?: string;
+    sessionId: string;
+    toIndex?: number;   // Position in the submitted queue; the front if omitted
+    fair?: boolean;     // Refuse moves that jump ahead of other users' earlier rounds
+}
+
+export interface ReorderQueueMessage {
+    type: 'reorder_queue';
+    sessionId: string;
+    spotifyUris?: string[]; // New order of these tracks; they take the slots they occupy now
+    itemIds?: string[];     // The same by queue item id (one of the two is required)
+    fair?: boolean;
+}
+
+// Take back this user's latest remove, delay, skip or fallback playlist replacement
+export interface UndoMessage {
+    type: 'undo';
+    sessionId: string;
+}
+
+export interface AirhornMessage {
+    type: 'airhorn';
+    airhorn: string;
+}
+
+export interface GetPlayHistoryMessage {
+    type: 'get_play_history';
+}
+
+export interface MasterSkipMessage {
+    type: 'master_skip';
+    sessionId: string;
+}
+
+export interface VoteSkipMessage {
+    type: 'vote_skip';
+    sessionId: string;
+    itemId?: string;     // Queue item the vote is for; ignored if it is no longer playing
+    spotifyUri?: string; // Track the vote is for; ignored if it is no longer playing
+    unvote?: boolean;
+}
+
+export interface SetQueueOrderingMessage {
+    type: 'set_queue_ordering';
+    sessionId: string;
+    policy: QueueOrderingPolicy;
+    maxJamPromotion?: number;
+}
+
+export interface SetNoRepeatMessage {
+    type: 'set_no_repeat';
+    sessionId: string;
+    windowMinutes?: number;              // 0 turns the no-repeat window off
+    submissions?: RepeatSubmissionAction;
+}
+
+export interface SetDuplicatePolicyMessage {
+    type: 'set_duplicate_policy';
+    sessionId: string;
+    policy: DuplicatePolicy;
+}
+
+export interface SetContentFilterMessage {
+    type: 'set_content_filter';
+    sessionId: string;
+    allowExplicit?: boolean;
+    maxDurationMs?: number;              // 0 turns the duration limit off
+    blockedArtistIds?: string[];         // Replaces the blocked artists
+    blockedTrackUris?: string[];         // Replaces the blocked tracks (URIs or URLs)
+}
+
+export interface StartFallbackMessage {
+    type: 'start_fallback';
+    sessionId: string;
+}
+
+export interface TakeMasterControlMessage {
+    type: 'take_master_control';
+    sessionId: string;
+}
+
+export interface HistoryMessageMessage {
+    type: 'history_message';
+    message: string;
+    sessionId: string;
+}
+
+export interface PingMessage {
+    type: 'ping';
+    sessionId: string;
+}
+
+export interface GetRolesMessage {
+    type: 'get_roles';
+    sessionId: string;
+}
+
+export interface SetRoleMessage {
+    type: 'set_role';
+    sessionId: string;
+    email: string;
+    role: Role;
+}
+
+export interface GetRoomsMessage {
+    type: 'get_rooms';
+}
+
+export interface JoinRoomMessage {
+    type: 'join_room';
+    roomId: string;
+    sessionId: string;
+}
+
+export interface LeaveRoomMessage {
+    type: 'leave_room';
+    sessionId: string;
+}
+
+export interface GetDevicesMessage {
+    type: 'get_devices';
+    sessionId: string;
+}
+
+export interface SelectDeviceMessage {
+    type: 'select_device';
+    sessionId: string;
+    deviceId: string;
+}
+
+export interface RequestMasterMessage {
+    type: 'request_master';
+    sessionId: string;
+}
+
+export interface AnswerMasterRequestMessage {
+    type: 'answer_master_request';
+    sessionId: string;
+    approve: boolean;
+}
+
+export interface ReleaseMasterMessage {
+    type: 'release_master';
+    sessionId: string;
+}
+
+// Union type for all inbound messages
+export type Message = LoginMessage | GenericMessage | PlayTrackMessage | GetTracksMessage | JamMessage | PlayMessage | PauseMessage | SessionPlayMessage | SessionPauseMessage | GetSessionsMessage | RemoveTrackMessage | DelayTrackMessage | MoveTrackMessage | ReorderQueueMessage | UndoMessage | AirhornMessage | GetPlayHistoryMessage | MasterSkipMessage | VoteSkipMessage | SetQueueOrderingMessage | SetNoRepeatMessage | SetDuplicatePolicyMessage | SetContentFilterMessage | StartFallbackMessage | TakeMasterControlMessage | HistoryMessageMessage | PingMessage | GetRolesMessage | SetRoleMessage | GetRoomsMessage | JoinRoomMessage | LeaveRoomMessage | GetDevicesMessage | SelectDeviceMessage | RequestMasterMessage | AnswerMasterRequestMessage | ReleaseMasterMessage;
+
+// Messages a connection may send before it is bound to a session by 'login'
+export const UNAUTHENTICATED_MESSAGE_TYPES = new Set(['login', 'get_tracks', 'get_play_history', 'get_rooms']);
+
+// Runtime schemas. These must stay in sync with the interfaces above and the payloads index.ts sends.
+export type FieldType = 'string' | 'number' | 'boolean' | 'object' | 'array' | 'any';
+
+export interface FieldSchema {
+    type: FieldType;
+    optional?: boolean;
+    nullable?: boolean;
+    enum?: readonly (string | number)[];
+    description?: string;
+}
+
+export interface MessageSchema {
+    description: string;
+    fields: Record<string, FieldSchema>;
+}
+
+// sessionId is optional on the wire: the server always uses the session bound at login
+const SESSION_ID: FieldSchema = { type: 'string', optional: true, description: 'Must match the session bound at login if given' };
+const ROLE_ENUM = ['listener', 'moderator', 'admin'] as const;
+const DUPLICATE_POLICY_ENUM = ['reject', 'merge', 'allow'] as const;
+// A queue item is picked by itemId, or else by spotifyUri (the first queued item of the track)
+const SPOTIFY_URI: FieldSchema = { type: 'string', optional: true, description: 'Track URI; the first queued item of it if itemId is not given' };
+const ITEM_ID: FieldSchema = { type: 'string', optional: true, description: 'Queue item id (from tracks_list)' };
+
+export const INBOUND_MESSAGES: Record<Message['type'], MessageSchema> = {
+    login: {
+        description: 'Bind this connection to a session',
+        fields: {
+            userId: { type: 'string', optional: true, description: 'Session id (taken from the token if omitted)' },
+            token: { type: 'string', optional: true, description: 'Signed session token, unless given as ?token= on the URL' },
+            roomId: { type: 'string', optional: true },
+            protocolVersion: { type: 'number', optional: true, description: `Defaults to ${MIN_PROTOCOL_VERSION}` }
+        }
+    },
+    message: { description: 'Free text (unused)', fields: { message: { type: 'string' } } },
+    play_track: { description: 'Ask every client in the room to play a track', fields: { trackId: { type: 'string' } } },
+    get_tracks: { description: 'Request tracks_list', fields: {} },
+    jam: {
+        description: 'Jam (or unjam) a queued or playing track',
+        fields: { spotifyUri: SPOTIFY_URI, itemId: ITEM_ID, sessionId: SESSION_ID, unjam: { type: 'boolean', optional: true } }
+    },
+    master_play: { description: 'Start room playback (master, moderators and admins)', fields: { sessionId: SESSION_ID } },
+    master_pause: { description: 'Pause room playback (master, moderators and admins)', fields: { sessionId: SESSION_ID } },
+    session_play: { description: 'Follow room playback on this session', fields: { sessionId: SESSION_ID } },
+    session_pause: { description: 'Stop following room playback', fields: { sessionId: SESSION_ID } },
+    get_sessions: { description: 'Request sessions_list', fields: {} },
+    remove_track: { description: 'Remove a queued track', fields: { spotifyUri: SPOTIFY_URI, itemId: ITEM_ID, sessionId: SESSION_ID } },
+    delay_track: { description: 'Move a queued track back one slot', fields: { spotifyUri: SPOTIFY_URI, itemId: ITEM_ID, sessionId: SESSION_ID } },
+    move_track: {
+        description: 'Move a queued track to a position, or the front (master, moderators and admins)',
+        fields: {
+            spotifyUri: SPOTIFY_URI,
+            itemId: ITEM_ID,
+            sessionId: SESSION_ID,
+            toIndex: { type: 'number', optional: true },
+            fair: { type: 'boolean', optional: true }
+        }
+    },
+    reorder_queue: {
+        description: 'Reorder several queued tracks at once (master, moderators and admins)',
+        fields: {
+            sessionId: SESSION_ID,
+            spotifyUris: { type: 'array', optional: true },
+            itemIds: { type: 'array', optional: true },
+            fair: { type: 'boolean', optional: true }
+        }
+    },
+    undo: { description: 'Undo your latest remove, delay, skip or fallback playlist replacement', fields: { sessionId: SESSION_ID } },
+    airhorn: { description: 'Play an airhorn sound for the room', fields: { airhorn: { type: 'string' } } },
+    get_play_history: { description: 'Request play_history', fields: {} },
+    master_skip: { description: 'Skip the current track (master, moderators and admins)', fields: { sessionId: SESSION_ID } },
+    vote_skip: {
+        description: 'Vote to skip the current track',
+        fields: { sessionId: SESSION_ID, itemId: { type: 'string', optional: true }, spotifyUri: { type: 'string', optional: true }, unvote: { type: 'boolean', optional: true } }
+    },
+    set_queue_ordering: {
+        description: 'Switch queue ordering policy (master, moderators and admins)',
+        fields: {
+            sessionId: SESSION_ID,
+            policy: { type: 'string', enum: ['fair', 'jam_weighted'] },
+            maxJamPromotion: { type: 'number', optional: true }
+        }
+    },
+    set_no_repeat: {
+        description: 'Change the no-repeat window for recently played tracks (master, moderators and admins)',
+        fields: {
+            sessionId: SESSION_ID,
+            windowMinutes: { type: 'number', optional: true },
+            submissions: { type: 'string', enum: ['reject', 'warn'], optional: true }
+        }
+    },
+    set_duplicate_policy: {
+        description: 'Change what happens to submissions of tracks that are already queued (master, moderators and admins)',
+        fields: { sessionId: SESSION_ID, policy: { type: 'string', enum: DUPLICATE_POLICY_ENUM } }
+    },
+    set_content_filter: {
+        description: 'Change which tracks may be played in the room (master, moderators and admins)',
+        fields: {
+            sessionId: SESSION_ID,
+            allowExplicit: { type: 'boolean', optional: true },
+            maxDurationMs: { type: 'number', optional: true },
+            blockedArtistIds: { type: 'array', optional: true },
+            blockedTrackUris: { type: 'array', optional: true }
+        }
+    },
+    start_fallback: { description: 'Start playing the fallback playlist (master, moderators and admins)', fields: { sessionId: SESSION_ID } },
+    take_master_control: { description: 'Become the room master (admins only)', fields: { sessionId: SESSION_ID } },
+    history_message: { description: 'Post a chat message to the history', fields: { message: { type: 'string' }, sessionId: SESSION_ID } },
+    ping: { description: 'Heartbeat', fields: { sessionId: SESSION_ID } },
+    get_roles: { description: 'Request roles_list (admins only)', fields: { sessionId: SESSION_ID } },
+    set_role: {
+        description: 'Assign a role (admins only)',
+        fields: { sessionId: SESSION_ID, email: { type: 'string' }, role: { type: 'string', enum: ROLE_ENUM } }
+    },
+    get_rooms: { description: 'Request rooms_list', fields: {} },
+    join_room: { description: 'Move this session into a room', fields: { roomId: { type: 'string' }, sessionId: SESSION_ID } },
+    leave_room: { description: 'Return to the default room', fields: { sessionId: SESSION_ID } },
+    get_devices: { description: "Request devices_list with the user's Spotify Connect devices", fields: { sessionId: SESSION_ID } },
+    select_device: {
+        description: 'Transfer playback to a Spotify device and send later playback commands for this session there',
+        fields: { sessionId: SESSION_ID, deviceId: { type: 'string' } }
+    },
+    request_master: { description: 'Ask the master to hand over control (Spotify users)', fields: { sessionId: SESSION_ID } },
+    answer_master_request: {
+        description: 'Approve or deny the pending master request (master only)',
+        fields: { sessionId: SESSION_ID, approve: { type: 'boolean' } }
+    },
+    release_master: { description: 'Step down as master; a pending requester or an elected successor takes over', fields: { sessionId: SESSION_ID } }
+};
+
+export const OUTBOUND_MESSAGES: Record<string, MessageSchema> = {
+    login_success: {
+        description: 'Connection is bound to the session',
+        fields: {
+            sessionId: { type: 'string' },
+            publicSessionId: { type: 'string', description: 'How other clients see this session (sessions_list, mode, master_request)' },
+            userId: { type: 'string', optional: true },
+            roomId: { type: 'string' },
+            protocolVersion: { type: 'number', description: 'Version negotiated for this connection' }
+        }
+    },
+    login_error: { description: 'Login was refused; the socket is closed', fields: { code: { type: 'string', optional: true }, error: { type: 'string' } } },
+    error: {
+        description: 'A message was rejected',
+        fields: { code: { type: 'string' }, error: { type: 'string' }, messageType: { type: 'string', optional: true } }
+    },
+    tracks_list: { description: 'Queue followed by upcoming fallback tracks', fields: { tracks: { type: 'array' } } },
+    mode: {
+        description: 'Room playback state as seen by the receiving user',
+        fields: {
+            roomId: { type: 'string' },
+            mode: { type: 'string', enum: ['master_play', 'master_pause'] },
+            currentlyPlayingTrack: { type: 'object', nullable: true },
+            masterUserSessionId: { type: 'string', nullable: true, description: 'Public id of the master session' },
+            canTakeMasterControl: { type: 'boolean' },
+            role: { type: 'string', enum: ROLE_ENUM },
+            fallbackPlaylist: { type: 'object', nullable: true },
+            skipVotes: { type: 'object' },
+            masterRequest: { type: 'object', nullable: true, description: 'Pending request_master (public sessionId, name, email, expiresAt)' },
+            queueOrdering: { type: 'object' },
+            noRepeat: { type: 'object', description: 'No-repeat window (windowMinutes, submissions)' },
+            duplicatePolicy: { type: 'string', enum: DUPLICATE_POLICY_ENUM },
+            contentFilter: { type: 'object', description: 'Which tracks may be played (allowExplicit, maxDurationMs, blockedArtistIds, blockedTrackUris)' },
+            submissionQuota: { type: 'object', nullable: true, description: 'What the receiving user may still add (remaining, retryAfterMs, reason, ...)' }
+        }
+    },
+    history: { description: 'Recent room events', fields: { history: { type: 'array' } } },
+    play_history: { description: 'Recently played tracks', fields: { playHistory: { type: 'array' } } },
+    sessions_list: { description: 'Users in the room', fields: { sessions: { type: 'array' } } },
+    session_mode: { description: 'Whether this session follows room playback', fields: { sessionMode: { type: 'string', enum: ['session_play', 'session_pause'] } } },
+    rooms_list: { description: 'All rooms', fields: { rooms: { type: 'array' } } },
+    room_joined: { description: 'This session moved into a room', fields: { roomId: { type: 'string' }, name: { type: 'string' } } },
+    roles_list: { description: 'Role assignments', fields: { roles: { type: 'array' } } },
+    devices_list: {
+        description: "The user's Spotify Connect devices",
+        fields: { devices: { type: 'array' }, selectedDeviceId: { type: 'string', nullable: true, description: 'Device playback commands go to; the active device if null' } }
+    },
+    pong: { description: 'Heartbeat reply', fields: {} },
+    master_request: {
+        description: 'Sent to the master: a user asks for control; approved automatically at expiresAt',
+        fields: { sessionId: { type: 'string', description: 'Public id of the requesting session' }, name: { type: 'string' }, email: { type: 'string' }, expiresAt: { type: 'number' } }
+    },
+    master_request_result: {
+        description: 'Sent to the requester once their master request is settled',
+        fields: {
+            approved: { type: 'boolean' },
+            outcome: { type: 'string', enum: ['approved', 'denied', 'timeout', 'master_idle', 'master_changed'] }
+        }
+    },
+    play_track: { description: 'Play a track locally', fields: { trackId: { type: 'string' } } },
+    play_airhorn: { description: 'Play an airhorn sound', fields: { airhorn: { type: 'string' } } },
+    prominent_message: { description: 'Message to show prominently to the user', fields: { message: { type: 'string' } } },
+    playback_error: { description: 'Playback failed to start', fields: { message: { type: 'string' }, track: { type: 'object', nullable: true } } }
+};
+
+export type ValidationResult =
+    | { ok: true; message: Message }
+    | { ok: false; code: ProtocolErrorCode; error: string; messageType?: string };
+
+function checkField(name: string, schema: FieldSchema, value: unknown): string | null {
+    if (value === undefined) {
+        return schema.optional ? null : `Missing field "${name}"`;
+    }
+    if (value === null) {
+        return schema.nullable ? null : `Field "${name}" must not be null`;
+    }
+    let ok: boolean;
+    switch (schema.type) {
+        case 'array': ok = Array.isArray(value); break;
+        case 'object': ok = typeof value === 'object' && !Array.isArray(value); break;
+        case 'any': ok = true; break;
+        default: ok = typeof value === schema.type;
+    }
+    if (!ok) {
+        return `Field "${name}" must be ${schema.type === 'array' || schema.type === 'object' ? 'an' : 'a'} ${schema.type}`;
+    }
+    if (schema.enum && !schema.enum.includes(value as string | number)) {
+        return `Field "${name}" must be one of ${schema.enum.join(', ')}`;
+    }
+    return null;
+}
+
+function checkFields(schema: MessageSchema, payload: Record<string, unknown>): string | null {
+    for (const [name, field] of Object.entries(schema.fields)) {
+        const error = checkField(name, field, payload[name]);
+        if (error) return error;
+    }
+    return null;
+}
+
+/**
+ * Parse and validate a raw inbound frame against the protocol schemas
+ */
+export function validateInboundMessage(raw: string): ValidationResult {
+    let data: unknown;
+    try {
+        data = JSON.parse(raw);
+    } catch {
+        return { ok: false, code: 'invalid_json', error: 'Message is not valid JSON' };
+    }
+    if (!data || typeof data !== 'object' || Array.isArray(data)) {
+        return { ok: false, code: 'invalid_message', error: 'Message must be a JSON object' };
+    }
+    const payload = data as Record<string, unknown>;
+    if (typeof payload.type !== 'string') {
+        return { ok: false, code: 'invalid_message', error: 'Missing field "type"' };
+    }
+    const schema = INBOUND_MESSAGES[payload.type as Message['type']];
+    if (!schema) {
+        return { ok: false, code: 'unknown_type', error: `Unknown message type "${payload.type}"`, messageType: payload.type };
+    }
+    const error = checkFields(schema, payload);
+    if (error) {
+        return { ok: false, code: 'invalid_message', error, messageType: payload.type };
+    }
+    return { ok: true, message: payload as unknown as Message };
+}
+
+/**
+ * Check an outbound payload against its schema. Returns a list of problems (empty if valid).
+ */
+export function validateOutboundMessage(payload: { type: string; [key: string]: unknown }): string[] {
+    const schema = OUTBOUND_MESSAGES[payload.type];
+    if (!schema) {
+        return [`Unknown outbound message type "${payload.type}"`];
+    }
+    const error = checkFields(schema, payload);
+    return error ? [error] : [];
+}
+
+/**
+ * Pick the protocol version for a connection. Returns null if the client is too old.
+ */
+export function negotiateProtocolVersion(requested: unknown): number | null {
+    if (requested === undefined) return MIN_PROTOCOL_VERSION;
+    if (typeof requested !== 'number' || !Number.isInteger(requested) || requested < MIN_PROTOCOL_VERSION) {
+        return null;
+    }
+    return Math.min(requested, PROTOCOL_VERSION);
+}
+
+function fieldToJsonSchema(field: FieldSchema): Record<string, unknown> {
+    const result: Record<string, unknown> = {};
+    if (field.type !== 'any') {
+        result.type = field.nullable ? [field.type, 'null'] : field.type;
+    }
+    if (field.enum) result.enum = field.enum;
+    if (field.description) result.description = field.description;
+    return result;
+}
+
+function messagesToJsonSchema(messages: Record<string, MessageSchema>): Record<string, unknown> {
+    const definitions: Record<string, unknown> = {};
+    for (const [type, schema] of Object.entries(messages)) {
+        const properties: Record<string, unknown> = { type: { const: type } };
+        const required = ['type'];
+        for (const [name, field] of Object.entries(schema.fields)) {
+            properties[name] = fieldToJsonSchema(field);
+            if (!field.optional) required.push(name);
+        }
+        definitions[type] = { type: 'object', description: schema.description, properties, required };
+    }
+    return definitions;
+}
+
+/**
+ * JSON Schema document describing every inbound and outbound message, for generating client types
+ */
+export function getProtocolSchemaDocument(): Record<string, unknown> {
+    const inbound = messagesToJsonSchema(INBOUND_MESSAGES);
+    const outbound = messagesToJsonSchema(OUTBOUND_MESSAGES);
+    return {
+        $schema: 'http://json-schema.org/draft-07/schema#',
+        title: 'Andre2 WebSocket protocol',
+        version: PROTOCOL_VERSION,
+        minVersion: MIN_PROTOCOL_VERSION,
+        errorCodes: PROTOCOL_ERROR_CODES,
+        definitions: {
+            inbound,
+            outbound,
+            InboundMessage: { oneOf: Object.keys(inbound).map(type => ({ $ref: `#/definitions/inbound/${type}` })) },
+            OutboundMessage: { oneOf: Object.keys(outbound).map(type => ({ $ref: `#/definitions/outbound/${type}` })) }
+        }
+    };
+}
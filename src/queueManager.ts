@@ -1,7 +1,9 @@
+import { v4 as uuidv4 } from 'uuid';
 import logger from './logger';
 import { spotifyDelegate } from './spotify';
 
 export interface SubmittedTrack {
+    id?: string;            // Queue item id, unique even when a track is queued twice (assigned when queued)
     spotifyUri: string;
     userEmail: string | null;
     spotifyName: string | null;
@@ -10,13 +12,172 @@ export interface SubmittedTrack {
     artist?: string;
     album?: string;
     albumArtUrl?: string;
+    explicit?: boolean;
+    durationMs?: number | null;
+    popularity?: number | null;     // 0-100
+    artistIds?: string[];
     jammers?: string[]; // Legacy: array of emails (will be migrated)
     jamCounts?: { [email: string]: number }; // New: email -> jam count
     progress?: { position_ms: number; duration_ms: number } | null;
 }
 
+// How the submitted queue is ordered:
+// - 'fair': round-robin by submitter (default)
+// - 'jam_weighted': fair order, but jammed tracks move ahead of less-jammed ones, a few slots per round
+export type QueueOrderingPolicy = 'fair' | 'jam_weighted';
+
+// What happens when a track that is already queued is submitted again:
+// - 'reject': the submission is refused
+// - 'merge': it counts as a jam on the queued one
+// - 'allow': it is queued again as an item of its own
+export type DuplicatePolicy = 'reject' | 'merge' | 'allow';
+
+export const DUPLICATE_POLICIES: DuplicatePolicy[] = ['reject', 'merge', 'allow'];
+
+// A fallback playlist for certain hours of certain weekdays (server local time)
+export interface FallbackScheduleEntry {
+    id: string;
+    playlistUrl: string;
+    startTime: string;  // 'HH:MM', inclusive
+    endTime: string;    // 'HH:MM', exclusive; earlier than startTime for windows that span midnight, equal for all day
+    days?: number[];    // Weekdays the window starts on, 0 = Sunday; every day if omitted
+    label?: string;
+}
+
+// A track that left the player, as kept in a room's play history
+export interface PlayedTrack {
+    timestamp: number;
+    track: SubmittedTrack;
+}
+
+// Keeps recently played tracks from coming back. Fallback tracks played within the window
+// are skipped, and submissions of them are rejected or accepted with a warning.
+export type RepeatSubmissionAction = 'reject' | 'warn';
+
+export interface NoRepeatSettings {
+    windowMinutes: number;      // 0 turns it off
+    submissions: RepeatSubmissionAction;
+}
+
+export const DEFAULT_NO_REPEAT: NoRepeatSettings = { windowMinutes: 60, submissions: 'warn' };
+
+// Limits on what one user may add to the queue; 0 leaves a limit off
+export interface SubmissionLimits {
+    maxPendingPerUser: number;  // Tracks of one user waiting in the queue
+    maxPerWindow: number;       // Tracks one user may add within windowMinutes
+    windowMinutes: number;
+    cooldownSeconds: number;    // Wait after a track of yours starts playing
+}
+
+export const DEFAULT_SUBMISSION_LIMITS: SubmissionLimits = { maxPendingPerUser: 0, maxPerWindow: 0, windowMinutes: 60, cooldownSeconds: 0 };
+
+// What a user may still add, returned with submissions and refusals
+export interface SubmissionQuota {
+    remaining: number | null;       // Tracks that can be added right now (null: unlimited)
+    pending: number;
+    maxPending: number | null;
+    recentSubmissions: number;      // Tracks added within the window
+    maxPerWindow: number | null;
+    cooldownUntil: number | null;
+    retryAfterMs: number | null;    // When remaining is 0: how long until it isn't (null: once one of your tracks plays)
+    reason: string | null;          // When remaining is 0: why
+}
+
+// What may be played in a room, set by the master. Applies to submissions, jams that promote
+// fallback tracks and the fallback sources.
+export interface ContentFilter {
+    allowExplicit: boolean;
+    maxDurationMs: number;          // 0 leaves it off
+    blockedArtistIds: string[];
+    blockedTrackUris: string[];
+}
+
+export const DEFAULT_CONTENT_FILTER: ContentFilter = { allowExplicit: true, maxDurationMs: 0, blockedArtistIds: [], blockedTrackUris: [] };
+
+// A track that changed position in the submitted queue
+export interface QueueMove {
+    id: string;
+    spotifyUri: string;
+    from: number;
+    to: number;
+}
+
+// Outcome of moving or reordering tracks; moves is empty if nothing changed. Errors:
+// - 'not_found': a track isn't in the queue
+// - 'invalid_order': the same queue item was listed twice
+// - 'head_playing': the head of the queue is playing and was to be moved
+// - 'unfair': fairness checks were asked for and a track would jump ahead of an earlier round
+export type ReorderError = 'not_found' | 'invalid_order' | 'head_playing' | 'unfair';
+
+export interface ReorderResult {
+    moves: QueueMove[];
+    error?: ReorderError;
+}
+
+export interface ReorderOptions {
+    fair?: boolean;         // Refuse orders that put a submitter's later round ahead of someone's earlier one
+    keepHead?: boolean;     // The head of the queue is already playing; leave it first
+}
+
+// Where fallback tracks come from while no submitted tracks are queued:
+// - 'fallback_playlist': the room's fallback playlist (the scheduled one, or the default)
+// - 'playlist': a specific playlist (playlistUrl)
+// - 'liked_songs': the master's liked songs
+// - 'recent_jams': jammed tracks from the room's play history
+export type FallbackSourceType = 'fallback_playlist' | 'playlist' | 'liked_songs' | 'recent_jams';
+
+export const FALLBACK_SOURCE_TYPES: FallbackSourceType[] = ['fallback_playlist', 'playlist', 'liked_songs', 'recent_jams'];
+
+// A fallback source and its share of fallback tracks relative to the other sources
+export interface FallbackSource {
+    type: FallbackSourceType;
+    weight: number;
+    playlistUrl?: string;   // Only for 'playlist'
+}
+
+// Without configured sources, fallback tracks only come from the room's fallback playlist
+export const DEFAULT_FALLBACK_SOURCES: FallbackSource[] = [{ type: 'fallback_playlist', weight: 1 }];
+
+// The room's fallback playlist and the fallback tracks drawn so far, saved to put back after the playlist is replaced
+export interface FallbackPlaylistState {
+    url: string;
+    name: string;
+    defaultUrl: string;
+    fallbackQueue: SubmittedTrack[];
+    playlistTracks: SubmittedTrack[];   // Loaded from the playlist but not drawn yet
+}
+
+// 'HH:MM' (24h) as minutes since midnight, or null if malformed
+function parseTimeOfDay(value: unknown): number | null {
+    if (typeof value !== 'string') return null;
+    const match = value.match(/^([01]?\d|2[0-3]):([0-5]\d)$/);
+    return match ? parseInt(match[1], 10) * 60 + parseInt(match[2], 10) : null;
+}
+
 // Default fallback playlist (Spotify's "Lorem" playlist)
 const DEFAULT_FALLBACK_PLAYLIST = 'spotify:playlist:4SGsOxUMBk9D7umiJGwdtQ';
+// Default number of slots a jammed track may move up per round in jam_weighted mode
+const DEFAULT_MAX_JAM_PROMOTION = 2;
+// Upcoming fallback tracks kept drawn from the sources (the track list shows up to 10)
+const FALLBACK_LOOKAHEAD = 10;
+// Liked songs fetched each time a liked_songs source runs dry
+const LIKED_SONGS_BATCH = 10;
+// Most jammed tracks a recent_jams source takes from the play history
+const RECENT_JAMS_LIMIT = 20;
+// How long a source that failed or came back empty is skipped
+const FALLBACK_SOURCE_RETRY_MS = 60 * 1000;
+
+// Fisher-Yates shuffle into a new array
+function shuffle<T>(items: T[]): T[] {
+    const shuffled = items.slice();
+    for (let i = shuffled.length - 1; i > 0; i--) {
+        const j = Math.floor(Math.random() * (i + 1));
+        const tmp = shuffled[i];
+        shuffled[i] = shuffled[j];
+        shuffled[j] = tmp;
+    }
+    return shuffled;
+}
 
 /**
  * Manages the music queue including user-submitted tracks and fallback playlist tracks
@@ -26,12 +187,45 @@ export class QueueManager {
     private fallbackQueue: SubmittedTrack[] = [];
     private currentFallbackPlaylistUrl: string = '';
     private currentFallbackPlaylistName: string = '';
+    // Playlist used outside scheduled windows (the configured or last submitted one)
+    private defaultFallbackPlaylistUrl: string = '';
+    // Earlier entries win where windows overlap
+    private fallbackSchedule: FallbackScheduleEntry[] = [];
+    // Entry whose playlist was last switched to (null: the default playlist)
+    private appliedScheduleEntryId: string | null = null;
+    private scheduleChanged = false;
+    // Weighted sources the fallback queue is drawn from
+    private fallbackSources: FallbackSource[] = DEFAULT_FALLBACK_SOURCES.map(source => ({ ...source }));
+    // Smooth weighted round-robin credit of each source (same order as fallbackSources)
+    private sourceCredits: number[] = this.fallbackSources.map(() => 0);
+    // Tracks loaded from each source but not drawn yet, by sourceKey()
+    private sourceBuffers = new Map<string, SubmittedTrack[]>();
+    // When a source that failed or came back empty may be loaded again, by sourceKey()
+    private sourceRetryAt = new Map<string, number>();
+    private refilling: Promise<void> | null = null;
+    // Tracks the room has played, oldest first (for recent_jams and the no-repeat window)
+    private playHistoryProvider: () => PlayedTrack[] = () => [];
+    private noRepeat: NoRepeatSettings = { ...DEFAULT_NO_REPEAT };
+    // Track most recently taken from the queue; it is playing, so not in the play history yet
+    private lastConsumed: PlayedTrack | null = null;
+    private contentFilter: ContentFilter = { ...DEFAULT_CONTENT_FILTER };
+    private submissionLimits: SubmissionLimits = { ...DEFAULT_SUBMISSION_LIMITS };
+    // When each user added tracks, within the rolling window, by email
+    private submissionTimes = new Map<string, number[]>();
+    // When a track of each user last started playing, by email
+    private lastPlayedAt = new Map<string, number>();
+    private duplicatePolicy: DuplicatePolicy = 'reject';
+    private orderingPolicy: QueueOrderingPolicy = 'fair';
+    private maxJamPromotion: number = DEFAULT_MAX_JAM_PROMOTION;
+    // Slots each track has moved up since the queue last advanced (a "round")
+    private promotionsThisRound = new WeakMap<SubmittedTrack, number>();
 
     constructor(initialFallbackUrl?: string) {
         // Use the provided URL if it's a non-empty string, otherwise use the default
         this.currentFallbackPlaylistUrl = (initialFallbackUrl && initialFallbackUrl.trim()) 
             ? initialFallbackUrl.trim() 
             : DEFAULT_FALLBACK_PLAYLIST;
+        this.defaultFallbackPlaylistUrl = this.currentFallbackPlaylistUrl;
     }
 
     /**
@@ -49,19 +243,244 @@ export class QueueManager {
     }
 
     /**
-     * Get fallback playlist info for broadcasting to clients
+     * Get the playlist used outside scheduled windows
+     */
+    getDefaultFallbackPlaylistUrl(): string {
+        return this.defaultFallbackPlaylistUrl;
+    }
+
+    /**
+     * Make a playlist the one used outside scheduled windows (e.g. after a user submitted it)
+     */
+    setDefaultFallbackPlaylistUrl(url: string): void {
+        this.defaultFallbackPlaylistUrl = url;
+    }
+
+    /**
+     * Get fallback playlist info for broadcasting to clients, with the schedule entry that picked it
      */
-    getFallbackInfo(): { url: string; name: string; trackCount: number } | null {
+    getFallbackInfo(): { url: string; name: string; trackCount: number; scheduleEntry: FallbackScheduleEntry | null } | null {
         if (!this.currentFallbackPlaylistUrl) {
             return null;
         }
+        const scheduleEntry = this.fallbackSchedule.find(entry => entry.id === this.appliedScheduleEntryId) || null;
         return {
             url: this.currentFallbackPlaylistUrl,
             name: this.currentFallbackPlaylistName || 'Fallback Playlist',
-            trackCount: this.fallbackQueue.length
+            trackCount: this.fallbackQueue.length,
+            scheduleEntry
         };
     }
 
+    getFallbackSchedule(): FallbackScheduleEntry[] {
+        return this.fallbackSchedule;
+    }
+
+    /**
+     * Replace the fallback schedule. Entries should be checked with validateScheduleEntry first.
+     * The playlist switches on the next refreshScheduledFallback().
+     */
+    setFallbackSchedule(entries: FallbackScheduleEntry[]): void {
+        this.fallbackSchedule = entries.map(entry => ({ ...entry }));
+        this.scheduleChanged = true;
+    }
+
+    /**
+     * The schedule entry whose window contains the given time (the first one if several do)
+     */
+    getActiveScheduleEntry(now: Date = new Date()): FallbackScheduleEntry | null {
+        const minutes = now.getHours() * 60 + now.getMinutes();
+        const day = now.getDay();
+        const previousDay = (day + 6) % 7;
+        for (const entry of this.fallbackSchedule) {
+            const start = parseTimeOfDay(entry.startTime);
+            const end = parseTimeOfDay(entry.endTime);
+            if (start === null || end === null) continue;
+            const onDay = (d: number) => !entry.days || entry.days.length === 0 || entry.days.includes(d);
+            let active: boolean;
+            if (start === end) {
+                active = onDay(day);
+            } else if (start < end) {
+                active = onDay(day) && minutes >= start && minutes < end;
+            } else {
+                // Spans midnight: the late part belongs to the day the window started on
+                active = (onDay(day) && minutes >= start) || (onDay(previousDay) && minutes < end);
+            }
+            if (active) return entry;
+        }
+        return null;
+    }
+
+    /**
+     * Switch the fallback playlist when a scheduled window starts or ends, or the schedule was changed.
+     * Otherwise nothing switches, so a playlist submitted mid-window stays until the next boundary.
+     * Returns true if a different playlist was loaded.
+     */
+    async refreshScheduledFallback(accessToken: string, now: Date = new Date()): Promise<boolean> {
+        const entry = this.getActiveScheduleEntry(now);
+        const entryId = entry ? entry.id : null;
+        if (entryId === this.appliedScheduleEntryId && !this.scheduleChanged) return false;
+        const url = entry ? entry.playlistUrl : this.defaultFallbackPlaylistUrl;
+        if (url === this.currentFallbackPlaylistUrl && this.fallbackQueue.length > 0) {
+            this.appliedScheduleEntryId = entryId;
+            this.scheduleChanged = false;
+            return false;
+        }
+        logger.info(`Fallback schedule: switching to ${entry ? `"${entry.label || entry.id}"` : 'the default playlist'} (${url})`);
+        const loaded = await this.loadFallbackPlaylist(url, accessToken);
+        // A failed load is retried on the next refresh
+        if (loaded) {
+            this.appliedScheduleEntryId = entryId;
+            this.scheduleChanged = false;
+        }
+        return loaded;
+    }
+
+    getFallbackSources(): FallbackSource[] {
+        return this.fallbackSources;
+    }
+
+    /**
+     * Replace the fallback sources. Sources should be checked with validateFallbackSource first.
+     * Upcoming fallback tracks are dropped and drawn again on the next refill.
+     */
+    setFallbackSources(sources: FallbackSource[]): void {
+        this.fallbackSources = sources.map(source => ({ ...source }));
+        this.sourceCredits = this.fallbackSources.map(() => 0);
+        this.sourceBuffers.clear();
+        this.sourceRetryAt.clear();
+        this.fallbackQueue.length = 0;
+    }
+
+    /**
+     * Where recent_jams sources and the no-repeat window find the tracks the room has played
+     */
+    setPlayHistoryProvider(provider: () => PlayedTrack[]): void {
+        this.playHistoryProvider = provider;
+    }
+
+    getNoRepeatSettings(): NoRepeatSettings {
+        return this.noRepeat;
+    }
+
+    /**
+     * Change the no-repeat window and what happens to submissions within it. Invalid values are ignored.
+     */
+    setNoRepeatSettings(settings: Partial<NoRepeatSettings>): void {
+        if (settings.windowMinutes !== undefined && Number.isFinite(settings.windowMinutes) && settings.windowMinutes >= 0) {
+            this.noRepeat.windowMinutes = settings.windowMinutes;
+        }
+        if (settings.submissions === 'reject' || settings.submissions === 'warn') {
+            this.noRepeat.submissions = settings.submissions;
+        }
+        logger.info(`No-repeat window set to ${this.noRepeat.windowMinutes} minutes (submissions: ${this.noRepeat.submissions})`);
+    }
+
+    getContentFilter(): ContentFilter {
+        return this.contentFilter;
+    }
+
+    /**
+     * Change what may be played. Invalid values are ignored; lists replace the previous ones.
+     * Upcoming fallback tracks the new filter blocks are dropped.
+     */
+    setContentFilter(filter: Partial<ContentFilter>): void {
+        const isIdList = (value: unknown): value is string[] => Array.isArray(value) && value.every(id => typeof id === 'string');
+        const next = { ...this.contentFilter };
+        if (typeof filter.allowExplicit === 'boolean') next.allowExplicit = filter.allowExplicit;
+        if (filter.maxDurationMs !== undefined && Number.isFinite(filter.maxDurationMs) && filter.maxDurationMs >= 0) {
+            next.maxDurationMs = filter.maxDurationMs;
+        }
+        if (isIdList(filter.blockedArtistIds)) next.blockedArtistIds = [...new Set(filter.blockedArtistIds)];
+        if (isIdList(filter.blockedTrackUris)) next.blockedTrackUris = [...new Set(filter.blockedTrackUris)];
+        this.contentFilter = next;
+
+        const kept = this.withoutFiltered(this.fallbackQueue);
+        const dropped = this.fallbackQueue.length - kept.length;
+        this.fallbackQueue.splice(0, this.fallbackQueue.length, ...kept);
+        for (const [key, buffer] of this.sourceBuffers) {
+            this.sourceBuffers.set(key, this.withoutFiltered(buffer));
+        }
+        logger.info(`Content filter set: explicit ${next.allowExplicit ? 'allowed' : 'blocked'}, max duration ${next.maxDurationMs || 'none'} ms, ${next.blockedArtistIds.length} blocked artists, ${next.blockedTrackUris.length} blocked tracks (${dropped} upcoming fallback tracks dropped)`);
+    }
+
+    /**
+     * Why the content filter refuses a track, or null if it may be played.
+     * Metadata the track lacks (e.g. it couldn't be fetched) isn't held against it.
+     */
+    getContentFilterReason(track: Pick<SubmittedTrack, 'spotifyUri' | 'name' | 'explicit' | 'durationMs' | 'artistIds'>): string | null {
+        const filter = this.contentFilter;
+        const label = track.name ? `"${track.name}"` : 'This track';
+        if (filter.blockedTrackUris.includes(track.spotifyUri)) {
+            return `${label} is blocked in this room.`;
+        }
+        if (track.artistIds?.some(id => filter.blockedArtistIds.includes(id))) {
+            return `${label} is by an artist who is blocked in this room.`;
+        }
+        if (!filter.allowExplicit && track.explicit) {
+            return `${label} is explicit, and explicit tracks are not allowed in this room.`;
+        }
+        if (filter.maxDurationMs > 0 && track.durationMs && track.durationMs > filter.maxDurationMs) {
+            const minutes = Math.round(filter.maxDurationMs / 6000) / 10;
+            return `${label} is longer than the ${minutes} minute limit in this room.`;
+        }
+        return null;
+    }
+
+    /**
+     * The latest play of a track within the no-repeat window (the playing track counts as played now), or null
+     */
+    getRecentPlay(spotifyUri: string, now: number = Date.now()): PlayedTrack | null {
+        return this.getRecentPlays(now).find(played => played.track.spotifyUri === spotifyUri) || null;
+    }
+
+    /**
+     * Top the fallback queue up to FALLBACK_LOOKAHEAD tracks, interleaving the sources by weight.
+     * A source is only loaded once the tracks drawn from it run out. Without a token only recent_jams can load.
+     */
+    async refillFallbackQueue(accessToken?: string): Promise<void> {
+        if (!this.refilling) {
+            this.refilling = this.drawFallbackTracks(accessToken).finally(() => {
+                this.refilling = null;
+            });
+        }
+        return this.refilling;
+    }
+
+    /**
+     * Check a fallback source from a request. Returns an error message, or null if it is valid.
+     */
+    static validateFallbackSource(source: any): string | null {
+        if (!source || typeof source !== 'object') return 'Each fallback source must be an object';
+        if (!FALLBACK_SOURCE_TYPES.includes(source.type)) return `type must be one of ${FALLBACK_SOURCE_TYPES.join(', ')}`;
+        if (typeof source.weight !== 'number' || !Number.isFinite(source.weight) || source.weight <= 0) {
+            return 'weight must be a positive number';
+        }
+        if (source.type === 'playlist' && (typeof source.playlistUrl !== 'string' || !spotifyDelegate.extractPlaylistId(source.playlistUrl))) {
+            return 'playlistUrl must be a Spotify playlist URL or URI';
+        }
+        return null;
+    }
+
+    /**
+     * Check a schedule entry from a request. Returns an error message, or null if it is valid.
+     */
+    static validateScheduleEntry(entry: any): string | null {
+        if (!entry || typeof entry !== 'object') return 'Each schedule entry must be an object';
+        if (typeof entry.playlistUrl !== 'string' || !spotifyDelegate.extractPlaylistId(entry.playlistUrl)) {
+            return 'playlistUrl must be a Spotify playlist URL or URI';
+        }
+        if (parseTimeOfDay(entry.startTime) === null || parseTimeOfDay(entry.endTime) === null) {
+            return 'startTime and endTime must be times of day as HH:MM';
+        }
+        if (entry.days !== undefined && (!Array.isArray(entry.days)
+            || !entry.days.every((d: unknown) => Number.isInteger(d) && (d as number) >= 0 && (d as number) <= 6))) {
+            return 'days must be a list of weekdays from 0 (Sunday) to 6 (Saturday)';
+        }
+        if (entry.label !== undefined && typeof entry.label !== 'string') return 'label must be a string';
+        return null;
+    }
+
     /**
      * Get all submitted tracks
      */
@@ -98,29 +517,176 @@ export class QueueManager {
     }
 
     /**
-     * Add a track to the queue using fair insertion algorithm
+     * Find a submitted track by queue item id, or by URI (the first queued item of that track)
+     */
+    getTrack(ref: string): SubmittedTrack | null {
+        const idx = QueueManager.indexOfItem(this.submittedTracks, ref);
+        return idx === -1 ? null : this.submittedTracks[idx];
+    }
+
+    getDuplicatePolicy(): DuplicatePolicy {
+        return this.duplicatePolicy;
+    }
+
+    /**
+     * Change what happens to submissions of tracks that are already queued. Unknown policies are ignored.
+     */
+    setDuplicatePolicy(policy: DuplicatePolicy): void {
+        if (!DUPLICATE_POLICIES.includes(policy)) return;
+        this.duplicatePolicy = policy;
+        logger.info(`Duplicate policy set to ${policy}`);
+    }
+
+    /**
+     * Count a duplicate submission as a jam from the submitter on the first queued item of the track.
+     * Returns that item, or null if the track isn't queued.
+     */
+    mergeDuplicate(spotifyUri: string, userEmail: string): SubmittedTrack | null {
+        const track = this.getTrack(spotifyUri);
+        if (!track) return null;
+        const jamCounts = { ...(track.jamCounts || {}) };
+        // Legacy jammers arrays only count while there are no jamCounts
+        if (Object.keys(jamCounts).length === 0) {
+            for (const email of track.jammers || []) jamCounts[email] = 1;
+        }
+        jamCounts[userEmail] = (jamCounts[userEmail] || 0) + 1;
+        track.jamCounts = jamCounts;
+        track.jammers = [];
+        this.applyJamOrdering();
+        return track;
+    }
+
+    /**
+     * Get the active queue ordering policy
+     */
+    getOrderingPolicy(): QueueOrderingPolicy {
+        return this.orderingPolicy;
+    }
+
+    /**
+     * Get how many slots a jammed track may move up per round
+     */
+    getMaxJamPromotion(): number {
+        return this.maxJamPromotion;
+    }
+
+    /**
+     * Switch the queue ordering policy. Switching back to 'fair' keeps the current order;
+     * only new tracks are placed purely round-robin from then on.
+     */
+    setOrderingPolicy(policy: QueueOrderingPolicy, maxJamPromotion?: number): void {
+        this.orderingPolicy = policy;
+        if (maxJamPromotion !== undefined && Number.isFinite(maxJamPromotion) && maxJamPromotion >= 0) {
+            this.maxJamPromotion = Math.floor(maxJamPromotion);
+        }
+        logger.info(`Queue ordering policy set to ${policy} (max jam promotion ${this.maxJamPromotion})`);
+        this.applyJamOrdering();
+    }
+
+    /**
+     * Add a track to the queue using fair insertion algorithm. It counts towards its submitter's quota.
      */
     addTrack(track: SubmittedTrack): void {
+        track.id = track.id || uuidv4();
         this.fairInsertTrack(track);
+        this.applyJamOrdering();
+        if (track.userEmail) {
+            const now = Date.now();
+            this.submissionTimes.set(track.userEmail, [...this.getRecentSubmissionTimes(track.userEmail, now), now]);
+        }
+    }
+
+    getSubmissionLimits(): SubmissionLimits {
+        return this.submissionLimits;
+    }
+
+    /**
+     * Change the per-user submission limits. Invalid values are ignored.
+     */
+    setSubmissionLimits(limits: Partial<SubmissionLimits>): void {
+        for (const key of Object.keys(DEFAULT_SUBMISSION_LIMITS) as (keyof SubmissionLimits)[]) {
+            const value = limits[key];
+            if (value !== undefined && Number.isFinite(value) && value >= 0) {
+                this.submissionLimits[key] = value;
+            }
+        }
+    }
+
+    /**
+     * How many more tracks a user may add right now, and if none, why and for how long
+     */
+    getSubmissionQuota(userEmail: string, now: number = Date.now()): SubmissionQuota {
+        const { maxPendingPerUser, maxPerWindow, windowMinutes, cooldownSeconds } = this.submissionLimits;
+        const pending = this.submittedTracks.filter(t => t.userEmail === userEmail).length;
+        const recent = this.getRecentSubmissionTimes(userEmail, now);
+        const playedAt = this.lastPlayedAt.get(userEmail);
+        const cooldownUntil = cooldownSeconds > 0 && playedAt !== undefined && playedAt + cooldownSeconds * 1000 > now
+            ? playedAt + cooldownSeconds * 1000
+            : null;
+        const quota: SubmissionQuota = {
+            remaining: null,
+            pending,
+            maxPending: maxPendingPerUser > 0 ? maxPendingPerUser : null,
+            recentSubmissions: recent.length,
+            maxPerWindow: maxPerWindow > 0 ? maxPerWindow : null,
+            cooldownUntil,
+            retryAfterMs: null,
+            reason: null
+        };
+        if (!userEmail) return quota;
+        const caps: number[] = [];
+        if (quota.maxPending !== null) caps.push(Math.max(0, quota.maxPending - pending));
+        if (quota.maxPerWindow !== null) caps.push(Math.max(0, quota.maxPerWindow - recent.length));
+        if (cooldownUntil !== null) caps.push(0);
+        quota.remaining = caps.length > 0 ? Math.min(...caps) : null;
+        if (quota.remaining !== 0) return quota;
+
+        if (cooldownUntil !== null) {
+            quota.retryAfterMs = cooldownUntil - now;
+            quota.reason = `You can add tracks again ${cooldownSeconds} seconds after one of yours started playing.`;
+        } else if (quota.maxPerWindow !== null && recent.length >= quota.maxPerWindow) {
+            quota.retryAfterMs = recent[0] + windowMinutes * 60 * 1000 - now;
+            quota.reason = `You can add ${quota.maxPerWindow} tracks every ${windowMinutes} minutes.`;
+        } else {
+            quota.reason = `You already have ${pending} tracks waiting in the queue (limit ${quota.maxPending}).`;
+        }
+        return quota;
+    }
+
+    // Times a user added tracks within the rolling window, oldest first
+    private getRecentSubmissionTimes(userEmail: string, now: number): number[] {
+        const since = now - this.submissionLimits.windowMinutes * 60 * 1000;
+        return (this.submissionTimes.get(userEmail) || []).filter(time => time > since);
     }
 
     /**
-     * Remove a track from the queue by URI
+     * Remove a track from the queue by queue item id or URI
      */
-    removeTrack(spotifyUri: string): SubmittedTrack | null {
-        const trackIndex = this.submittedTracks.findIndex(t => t.spotifyUri === spotifyUri);
+    removeTrack(ref: string): SubmittedTrack | null {
+        const trackIndex = QueueManager.indexOfItem(this.submittedTracks, ref);
         if (trackIndex !== -1) {
             return this.submittedTracks.splice(trackIndex, 1)[0];
         }
         return null;
     }
 
+    /**
+     * Put a removed or played track back at a position in its queue (clamped to the queue's bounds).
+     * Returns the position it went to.
+     */
+    restoreTrack(track: SubmittedTrack, index: number, isFallback: boolean = false): number {
+        const tracks = isFallback ? this.fallbackQueue : this.submittedTracks;
+        const at = Math.min(Math.max(Math.floor(index) || 0, 0), tracks.length);
+        tracks.splice(at, 0, track);
+        return at;
+    }
+
     /**
      * Move a track back by one position in the submitted queue.
      * Returns true if moved, false if not possible (e.g., last item or not found).
      */
-    moveTrackBackOne(spotifyUri: string): boolean {
-        const idx = this.submittedTracks.findIndex(t => t.spotifyUri === spotifyUri);
+    moveTrackBackOne(ref: string): boolean {
+        const idx = QueueManager.indexOfItem(this.submittedTracks, ref);
         if (idx === -1 || idx >= this.submittedTracks.length - 1) {
             return false;
         }
@@ -132,16 +698,61 @@ export class QueueManager {
     }
 
     /**
-     * Remove a track from the fallback queue by spotifyUri.
+     * Move a track to a position in the submitted queue (clamped to the queue's bounds)
+     */
+    moveTrack(ref: string, toIndex: number, options: ReorderOptions = {}): ReorderResult {
+        const from = QueueManager.indexOfItem(this.submittedTracks, ref);
+        if (from === -1) return { moves: [], error: 'not_found' };
+        if (options.keepHead && from === 0) return { moves: [], error: 'head_playing' };
+        const first = options.keepHead ? 1 : 0;
+        const to = Math.min(Math.max(Math.floor(toIndex) || 0, first), this.submittedTracks.length - 1);
+        const order = this.submittedTracks.slice();
+        order.splice(to, 0, order.splice(from, 1)[0]);
+        return this.applyOrder(order, options);
+    }
+
+    /**
+     * Move a track to the top of the submitted queue (behind the head if it is playing)
+     */
+    moveToFront(ref: string, options: ReorderOptions = {}): ReorderResult {
+        return this.moveTrack(ref, 0, options);
+    }
+
+    /**
+     * Reorder several tracks at once: the listed tracks take the slots they occupy now, in the listed order.
+     * Tracks left out keep their positions, so listing the whole queue reorders all of it.
+     */
+    reorderTracks(refs: string[], options: ReorderOptions = {}): ReorderResult {
+        const slots = refs.map(ref => QueueManager.indexOfItem(this.submittedTracks, ref));
+        if (slots.includes(-1)) return { moves: [], error: 'not_found' };
+        if (new Set(slots).size !== slots.length) return { moves: [], error: 'invalid_order' };
+        const order = this.submittedTracks.slice();
+        slots.slice().sort((a, b) => a - b).forEach((slot, i) => {
+            order[slot] = this.submittedTracks[slots[i]];
+        });
+        if (options.keepHead && order[0] !== this.submittedTracks[0]) return { moves: [], error: 'head_playing' };
+        return this.applyOrder(order, options);
+    }
+
+    /**
+     * Find an upcoming fallback track by queue item id or URI
+     */
+    getFallbackTrack(ref: string): SubmittedTrack | null {
+        const idx = QueueManager.indexOfItem(this.fallbackQueue, ref);
+        return idx === -1 ? null : this.fallbackQueue[idx];
+    }
+
+    /**
+     * Remove a track from the fallback queue by queue item id or URI.
      * Returns true if removed, false if not found.
      */
-    removeFallbackTrack(spotifyUri: string): boolean {
-        const idx = this.fallbackQueue.findIndex(t => t.spotifyUri === spotifyUri);
+    removeFallbackTrack(ref: string): boolean {
+        const idx = QueueManager.indexOfItem(this.fallbackQueue, ref);
         if (idx === -1) {
             return false;
         }
         this.fallbackQueue.splice(idx, 1);
-        logger.info(`Removed track from fallback queue: ${spotifyUri}`);
+        logger.info(`Removed track from fallback queue: ${ref}`);
         return true;
     }
 
@@ -156,22 +767,15 @@ export class QueueManager {
             return { track, isFallback: false };
         }
 
-        // Then check fallback queue
+        // Then check fallback queue, topped up from the fallback sources
+        if (this.fallbackQueue.length < FALLBACK_LOOKAHEAD) {
+            await this.refillFallbackQueue(accessToken);
+        }
         if (this.fallbackQueue.length > 0) {
             const track = this.fallbackQueue[0]; // Peek, don't remove
             return { track, isFallback: true };
         }
 
-        // No tracks available - try to load fallback if not loaded yet
-        if (this.fallbackQueue.length === 0 && this.currentFallbackPlaylistUrl && accessToken) {
-            logger.info('No tracks in fallback queue, attempting to load from playlist');
-            const success = await this.loadFallbackPlaylist(this.currentFallbackPlaylistUrl, accessToken);
-            if (success && this.fallbackQueue.length > 0) {
-                const track = this.fallbackQueue[0]; // Peek, don't remove
-                return { track, isFallback: true };
-            }
-        }
-
         logger.info(`No tracks available. Fallback queue: ${this.fallbackQueue.length}, Fallback URL: ${this.currentFallbackPlaylistUrl}, Has token: ${!!accessToken}`);
         return null;
     }
@@ -196,35 +800,93 @@ export class QueueManager {
     consumeNextTrack(isFallback: boolean): void {
         if (isFallback) {
             if (this.fallbackQueue.length > 0) {
-                this.fallbackQueue.shift();
+                this.lastConsumed = { timestamp: Date.now(), track: this.fallbackQueue.shift()! };
                 logger.info(`Consumed fallback track from queue. Remaining: ${this.fallbackQueue.length}`);
             }
         } else {
             if (this.submittedTracks.length > 0) {
-                this.submittedTracks.shift();
+                this.lastConsumed = { timestamp: Date.now(), track: this.submittedTracks.shift()! };
+                // The submitter's cooldown starts now
+                if (this.lastConsumed.track.userEmail) {
+                    this.lastPlayedAt.set(this.lastConsumed.track.userEmail, this.lastConsumed.timestamp);
+                }
                 logger.info(`Consumed submitted track from queue. Remaining: ${this.submittedTracks.length}`);
             }
+            // The queue advanced: a new round of jam promotions begins
+            this.promotionsThisRound = new WeakMap();
+            this.applyJamOrdering();
         }
     }
 
     /**
-     * Load tracks from a fallback playlist
+     * Load tracks from a fallback playlist, making it the room's fallback playlist.
+     * Upcoming fallback tracks are drawn again, starting from the new playlist.
      */
     async loadFallbackPlaylist(playlistUrl: string, accessToken: string): Promise<boolean> {
+        const playlist = await this.fetchPlaylist(playlistUrl, accessToken);
+        if (!playlist) {
+            return false;
+        }
+
+        // Store playlist name first, then populate queue
+        this.currentFallbackPlaylistUrl = playlistUrl;
+        this.currentFallbackPlaylistName = playlist.name;
+        logger.info(`Loaded ${playlist.tracks.length} tracks from fallback playlist "${playlist.name}"`);
+
+        const key = QueueManager.sourceKey({ type: 'fallback_playlist', weight: 1 });
+        this.sourceBuffers.set(key, playlist.tracks);
+        this.sourceRetryAt.delete(key);
+        this.fallbackQueue.length = 0;
+        await this.refillFallbackQueue(accessToken);
+        return true;
+    }
+
+    /**
+     * Save the fallback playlist and the fallback tracks drawn from it, e.g. before loading another one
+     */
+    getFallbackPlaylistState(): FallbackPlaylistState {
+        const key = QueueManager.sourceKey({ type: 'fallback_playlist', weight: 1 });
+        return {
+            url: this.currentFallbackPlaylistUrl,
+            name: this.currentFallbackPlaylistName,
+            defaultUrl: this.defaultFallbackPlaylistUrl,
+            fallbackQueue: this.fallbackQueue.slice(),
+            playlistTracks: (this.sourceBuffers.get(key) || []).slice()
+        };
+    }
+
+    /**
+     * Go back to a saved fallback playlist without loading it again. Tracks the content filter now blocks stay out.
+     */
+    restoreFallbackPlaylistState(state: FallbackPlaylistState): void {
+        this.currentFallbackPlaylistUrl = state.url;
+        this.currentFallbackPlaylistName = state.name;
+        this.defaultFallbackPlaylistUrl = state.defaultUrl;
+        const key = QueueManager.sourceKey({ type: 'fallback_playlist', weight: 1 });
+        this.sourceBuffers.set(key, this.withoutFiltered(state.playlistTracks));
+        this.sourceRetryAt.delete(key);
+        this.fallbackQueue.splice(0, this.fallbackQueue.length, ...this.withoutFiltered(state.fallbackQueue));
+        logger.info(`Restored fallback playlist "${state.name || state.url}"`);
+    }
+
+    /**
+     * Fetch a playlist as fallback tracks in random order. Returns null if it can't be read.
+     */
+    private async fetchPlaylist(playlistUrl: string, accessToken?: string): Promise<{ name: string; tracks: SubmittedTrack[] } | null> {
         if (!playlistUrl) {
             logger.warn('No fallback playlist URL provided');
-            return false;
+            return null;
         }
 
         const playlistId = spotifyDelegate.extractPlaylistId(playlistUrl);
         if (!playlistId) {
             logger.error('Invalid fallback playlist URL:', playlistUrl);
-            return false;
+            return null;
         }
 
         if (!accessToken) {
             logger.warn('No access token available to load fallback playlist');
-            return false;
+            return null;
         }
 
         try {
@@ -236,40 +898,157 @@ export class QueueManager {
                 spotifyDelegate.getPlaylistTracks(accessToken, playlistId)
             ]);
 
-            // Store playlist name first, then populate queue
-            this.currentFallbackPlaylistUrl = playlistUrl;
-            this.currentFallbackPlaylistName = playlistInfo.name;
-            
-            // Clear existing fallback queue and populate with new tracks (randomized order)
-            this.fallbackQueue.length = 0;
-
-            // Shuffle tracks using Fisher-Yates to randomize fallback playback order
-            const shuffled = tracks.slice();
-            for (let i = shuffled.length - 1; i > 0; i--) {
-                const j = Math.floor(Math.random() * (i + 1));
-                const tmp = shuffled[i];
-                shuffled[i] = shuffled[j];
-                shuffled[j] = tmp;
+            // Randomize fallback playback order, labelled with the actual playlist name
+            const allowed = this.withoutFiltered(tracks);
+            if (allowed.length < tracks.length) {
+                logger.info(`Content filter skipped ${tracks.length - allowed.length} tracks of playlist "${playlistInfo.name}"`);
+            }
+            return {
+                name: playlistInfo.name,
+                tracks: shuffle(allowed).map(track => QueueManager.toFallbackTrack(track, playlistInfo.name))
+            };
+        } catch (err) {
+            logger.error('Failed to load fallback playlist:', err);
+            return null;
+        }
+    }
+
+    private async drawFallbackTracks(accessToken?: string): Promise<void> {
+        await this.drawFallbackTracksFrom(accessToken, false);
+        // Better a repeat than silence: if everything left was played within the no-repeat window, allow repeats
+        if (this.fallbackQueue.length === 0 && this.noRepeat.windowMinutes > 0) {
+            await this.drawFallbackTracksFrom(accessToken, true);
+        }
+    }
+
+    private async drawFallbackTracksFrom(accessToken: string | undefined, allowRepeats: boolean): Promise<void> {
+        const recent = new Set(allowRepeats ? [] : this.getRecentPlays().map(played => played.track.spotifyUri));
+        const playable = (track: SubmittedTrack) => !recent.has(track.spotifyUri)
+            && !this.fallbackQueue.some(queued => queued.spotifyUri === track.spotifyUri);
+        // Each source is loaded at most once per refill, so a small source doesn't repeat within it
+        const loaded = new Set<string>();
+        // Sources with nothing playable left in this refill
+        const exhausted = new Set<string>();
+        while (this.fallbackQueue.length < FALLBACK_LOOKAHEAD) {
+            const index = this.pickFallbackSource(source => !exhausted.has(QueueManager.sourceKey(source))
+                && ((this.sourceBuffers.get(QueueManager.sourceKey(source)) || []).length > 0 || this.canLoad(source, loaded, accessToken)));
+            if (index === -1) break;
+            const source = this.fallbackSources[index];
+            const key = QueueManager.sourceKey(source);
+            let buffer = this.sourceBuffers.get(key) || [];
+            let next = buffer.findIndex(playable);
+            if (next === -1 && this.canLoad(source, loaded, accessToken)) {
+                loaded.add(key);
+                buffer = await this.loadFallbackSource(source, accessToken);
+                this.sourceBuffers.set(key, buffer);
+                next = buffer.findIndex(playable);
+                if (next === -1) {
+                    this.sourceRetryAt.set(key, Date.now() + FALLBACK_SOURCE_RETRY_MS);
+                }
+            }
+            if (next === -1) {
+                exhausted.add(key);
+                continue;
             }
+            this.fallbackQueue.push(buffer.splice(next, 1)[0]);
+        }
+    }
+
+    private canLoad(source: FallbackSource, loaded: Set<string>, accessToken?: string): boolean {
+        const key = QueueManager.sourceKey(source);
+        if (loaded.has(key) || (this.sourceRetryAt.get(key) || 0) > Date.now()) return false;
+        return source.type === 'recent_jams' || !!accessToken;
+    }
+
+    // Plays within the no-repeat window, most recent first
+    private getRecentPlays(now: number = Date.now()): PlayedTrack[] {
+        if (this.noRepeat.windowMinutes <= 0) return [];
+        const since = now - this.noRepeat.windowMinutes * 60 * 1000;
+        const plays = this.lastConsumed ? [...this.playHistoryProvider(), this.lastConsumed] : this.playHistoryProvider();
+        return plays.filter(played => played.timestamp >= since && played.track?.spotifyUri)
+            .sort((a, b) => b.timestamp - a.timestamp);
+    }
 
-            for (const track of shuffled) {
-                this.fallbackQueue.push({
-                    spotifyUri: track.spotifyUri,
-                    userEmail: 'fallback@system',
-                    spotifyName: playlistInfo.name, // Use actual playlist name
-                    timestamp: Date.now(),
-                    name: track.name,
-                    artist: track.artist,
-                    album: track.album,
-                    albumArtUrl: track.albumArtUrl
-                });
+    // Smooth weighted round-robin over the sources that can be drawn from; -1 if none can
+    private pickFallbackSource(available: (source: FallbackSource) => boolean): number {
+        let total = 0;
+        let best = -1;
+        this.fallbackSources.forEach((source, i) => {
+            if (!available(source)) return;
+            this.sourceCredits[i] += source.weight;
+            total += source.weight;
+            if (best === -1 || this.sourceCredits[i] > this.sourceCredits[best]) best = i;
+        });
+        if (best !== -1) this.sourceCredits[best] -= total;
+        return best;
+    }
+
+    private async loadFallbackSource(source: FallbackSource, accessToken?: string): Promise<SubmittedTrack[]> {
+        try {
+            switch (source.type) {
+                case 'fallback_playlist':
+                    return (await this.fetchPlaylist(this.currentFallbackPlaylistUrl, accessToken))?.tracks || [];
+                case 'playlist':
+                    return (await this.fetchPlaylist(source.playlistUrl || '', accessToken))?.tracks || [];
+                case 'liked_songs': {
+                    if (!accessToken) return [];
+                    const tracks = await spotifyDelegate.getRandomLikedTracks(accessToken, LIKED_SONGS_BATCH);
+                    return this.withoutFiltered(tracks).map(track => QueueManager.toFallbackTrack(track, 'Liked Songs'));
+                }
+                case 'recent_jams':
+                    return this.getRecentJams();
             }
-            logger.info(`Loaded ${this.fallbackQueue.length} tracks from fallback playlist "${playlistInfo.name}"`);
-            return true;
         } catch (err) {
-            logger.error('Failed to load fallback playlist:', err);
-            return false;
+            logger.error(`Failed to load fallback source ${QueueManager.sourceKey(source)}:`, err);
         }
+        return [];
+    }
+
+    // Jammed tracks from the play history, most recent first and once each
+    private getRecentJams(): SubmittedTrack[] {
+        const seen = new Set<string>();
+        const tracks: SubmittedTrack[] = [];
+        const played = this.playHistoryProvider();
+        for (let i = played.length - 1; i >= 0 && tracks.length < RECENT_JAMS_LIMIT; i--) {
+            const track = played[i].track;
+            if (!track?.spotifyUri || seen.has(track.spotifyUri) || QueueManager.getJamScore(track) === 0
+                || this.getContentFilterReason(track)) continue;
+            seen.add(track.spotifyUri);
+            tracks.push(QueueManager.toFallbackTrack(track, 'Recent jams'));
+        }
+        return tracks;
+    }
+
+    private withoutFiltered<T extends Pick<SubmittedTrack, 'spotifyUri' | 'name' | 'explicit' | 'durationMs' | 'artistIds'>>(tracks: T[]): T[] {
+        return tracks.filter(track => !this.getContentFilterReason(track));
+    }
+
+    // Index of the item with this id, or else of the first item of the track with this URI; -1 if neither
+    private static indexOfItem(tracks: SubmittedTrack[], ref: string): number {
+        const idx = tracks.findIndex(t => t.id === ref);
+        return idx !== -1 ? idx : tracks.findIndex(t => t.spotifyUri === ref);
+    }
+
+    private static sourceKey(source: FallbackSource): string {
+        return source.type === 'playlist' ? `playlist:${source.playlistUrl}` : source.type;
+    }
+
+    private static toFallbackTrack(track: { spotifyUri: string; name?: string; artist?: string; album?: string; albumArtUrl?: string | null; explicit?: boolean; durationMs?: number | null; popularity?: number | null; artistIds?: string[] }, sourceName: string): SubmittedTrack {
+        return {
+            id: uuidv4(),
+            spotifyUri: track.spotifyUri,
+            userEmail: 'fallback@system',
+            spotifyName: sourceName,
+            timestamp: Date.now(),
+            name: track.name,
+            artist: track.artist,
+            album: track.album,
+            albumArtUrl: track.albumArtUrl || undefined,
+            explicit: track.explicit,
+            durationMs: track.durationMs,
+            popularity: track.popularity,
+            artistIds: track.artistIds
+        };
     }
 
     /**
@@ -283,6 +1062,10 @@ export class QueueManager {
      * Set the submitted tracks (used for loading from disk)
      */
     setSubmittedTracks(tracks: SubmittedTrack[]): void {
+        // Tracks saved before queue item ids existed get one now
+        for (const track of tracks) {
+            track.id = track.id || uuidv4();
+        }
         this.submittedTracks = tracks;
     }
 
@@ -293,6 +1076,84 @@ export class QueueManager {
         this.submittedTracks.length = 0;
     }
 
+    /**
+     * In jam_weighted mode, let jammed tracks overtake less-jammed tracks ahead of them.
+     * Bounds that keep it fair:
+     * - a track moves up at most maxJamPromotion slots per round (until the queue advances)
+     * - a track never passes an earlier track from the same submitter
+     * - the head of the queue is never displaced, since it may already be starting on Spotify
+     * Returns true if the order changed.
+     */
+    applyJamOrdering(): boolean {
+        if (this.orderingPolicy !== 'jam_weighted' || this.maxJamPromotion === 0) {
+            return false;
+        }
+        let changed = false;
+        for (let i = 2; i < this.submittedTracks.length; ++i) {
+            const track = this.submittedTracks[i];
+            const score = QueueManager.getJamScore(track);
+            if (score === 0) continue;
+            let idx = i;
+            let used = this.promotionsThisRound.get(track) || 0;
+            while (idx > 1 && used < this.maxJamPromotion) {
+                const ahead = this.submittedTracks[idx - 1];
+                if (ahead.userEmail && ahead.userEmail === track.userEmail) break;
+                if (QueueManager.getJamScore(ahead) >= score) break;
+                this.submittedTracks[idx] = ahead;
+                this.submittedTracks[idx - 1] = track;
+                idx--;
+                used++;
+                changed = true;
+            }
+            this.promotionsThisRound.set(track, used);
+        }
+        return changed;
+    }
+
+    /**
+     * Replace the submitted order with a permutation of it, unless fairness checks refuse it
+     */
+    private applyOrder(order: SubmittedTrack[], options: ReorderOptions): ReorderResult {
+        if (options.fair && QueueManager.countRoundInversions(order) > QueueManager.countRoundInversions(this.submittedTracks)) {
+            return { moves: [], error: 'unfair' };
+        }
+        const moves = order
+            .map((track, to) => ({ id: track.id!, spotifyUri: track.spotifyUri, from: this.submittedTracks.indexOf(track), to }))
+            .filter(move => move.from !== move.to);
+        this.submittedTracks.splice(0, this.submittedTracks.length, ...order);
+        if (moves.length > 0) {
+            logger.info(`Queue reordered: ${moves.length} tracks changed position`);
+        }
+        return { moves };
+    }
+
+    /**
+     * Pairs of tracks where a submitter's later round is ahead of another submitter's earlier round.
+     * A fair queue has none; reorders with fairness checks may not add any.
+     */
+    private static countRoundInversions(tracks: SubmittedTrack[]): number {
+        const counts: Record<string, number> = {};
+        const rounds = tracks.map(t => t.userEmail ? (counts[t.userEmail] = (counts[t.userEmail] || 0) + 1) : 0);
+        let inversions = 0;
+        for (let i = 0; i < rounds.length; ++i) {
+            for (let j = i + 1; j < rounds.length; ++j) {
+                if (rounds[i] > 0 && rounds[j] > 0 && rounds[i] > rounds[j]) inversions++;
+            }
+        }
+        return inversions;
+    }
+
+    /**
+     * Total number of jams on a track (counts legacy jammers arrays too)
+     */
+    static getJamScore(track: SubmittedTrack): number {
+        if (track.jamCounts) {
+            const total = Object.values(track.jamCounts).reduce((sum, count) => sum + count, 0);
+            if (total > 0) return total;
+        }
+        return Array.isArray(track.jammers) ? track.jammers.length : 0;
+    }
+
     /**
      * Fair insertion algorithm - ensures even distribution of tracks among users
      */
@@ -0,0 +1,3 @@
+// Room every session lands in unless it asks for another one.
+// Kept free of imports so any module can use it without pulling in the room and queue machinery.
+export const DEFAULT_ROOM_ID = 'default';
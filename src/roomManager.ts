@@ -0,0 +1,211 @@
+import logger from './logger';
+import { DuplicatePolicy, NoRepeatSettings, QueueManager, QueueOrderingPolicy, SubmissionLimits, SubmittedTrack } from './queueManager';
+import { PlaybackController, PlaybackMode } from './playbackController';
+import { UndoStack } from './undoStack';
+import { DEFAULT_ROOM_ID } from './roomIds';
+import { publicSessionId } from './sessionToken';
+
+export interface HistoryEvent {
+    type: 'track_added' | 'jam' | 'unjam' | 'airhorn' | 'fallback_play' | 'track_play' | 'user_connected' | 'user_disconnected' | 'message' | 'track_skip' | 'room_joined' | 'room_left' | 'track_ended' | 'track_skipped_externally' | 'track_seeked' | 'master_changed' | 'master_requested' | 'master_request_denied' | 'track_moved' | 'queue_reordered' | 'undo';
+    timestamp: number;
+    userName: string;
+    userEmail: string;
+    details: any;
+}
+
+export interface PlayHistoryEntry {
+    timestamp: number;
+    track: any;
+    startedBy?: string;
+}
+
+// A user asking the master to hand over control, waiting for an answer
+export interface MasterRequest {
+    sessionId: string;
+    name: string;
+    email: string;
+    expiresAt: number;         // When the request is approved if the master hasn't answered
+    timer: NodeJS.Timeout;
+}
+
+/**
+ * A single listening party: its own queue, master user, playback state and history
+ */
+export class Room {
+    readonly id: string;
+    name: string;
+    readonly createdAt: number;
+    readonly queueManager: QueueManager;
+    // Email of the user who created the room (null for the default room and rooms created before it was recorded)
+    createdBy: string | null = null;
+
+    // Event history
+    readonly history: HistoryEvent[] = [];
+    // Play history
+    readonly playHistory: PlayHistoryEntry[] = [];
+
+    // Playback engine: mode, current track, grace periods and failure detection
+    readonly playback: PlaybackController;
+
+    // Master user state
+    masterUserSessionId: string | null = null;
+    masterRequest: MasterRequest | null = null;
+
+    // Vote-to-skip state: voter email -> name, valid only while queue item skipVoteItemId plays
+    // (keyed by item, not URI, so a duplicate queued right after starts over)
+    readonly skipVotes = new Map<string, string>();
+    skipVoteItemId: string | null = null;
+
+    // Each user's recent removes, delays, skips and fallback playlist replacements, for undo
+    readonly undoStack = new UndoStack();
+
+    // Master playback polling timer for this room
+    pollTimer: NodeJS.Timeout | null = null;
+
+    constructor(id: string, name: string, fallbackUrl?: string, createPlayback?: (room: Room) => PlaybackController) {
+        this.id = id;
+        this.name = name;
+        this.createdAt = Date.now();
+        this.queueManager = new QueueManager(fallbackUrl);
+        this.queueManager.setPlayHistoryProvider(() => this.playHistory);
+        this.playback = createPlayback ? createPlayback(this) : new PlaybackController(this.queueManager);
+    }
+
+    // Playback mode state
+    get mode(): PlaybackMode {
+        return this.playback.mode;
+    }
+
+    set mode(mode: PlaybackMode) {
+        this.playback.mode = mode;
+    }
+
+    // Shared currently playing track
+    get currentlyPlayingTrack(): SubmittedTrack | null {
+        return this.playback.currentTrack;
+    }
+
+    /**
+     * Summary used by the REST API and room list broadcasts
+     */
+    getSummary(memberCount: number): { id: string; name: string; createdAt: number; memberCount: number; mode: PlaybackMode; masterUserSessionId: string | null; queueLength: number; currentlyPlaying: string | null } {
+        return {
+            id: this.id,
+            name: this.name,
+            createdAt: this.createdAt,
+            memberCount,
+            mode: this.mode,
+            masterUserSessionId: this.masterUserSessionId ? publicSessionId(this.masterUserSessionId) : null,
+            queueLength: this.queueManager.getSubmittedCount(),
+            currentlyPlaying: this.currentlyPlayingTrack?.name || this.currentlyPlayingTrack?.spotifyUri || null
+        };
+    }
+}
+
+// What every new room starts with
+export interface RoomDefaults {
+    fallbackUrl?: string;
+    orderingPolicy?: QueueOrderingPolicy;     // 'fair' unless given
+    maxJamPromotion?: number;
+    noRepeat?: Partial<NoRepeatSettings>;
+    submissionLimits?: Partial<SubmissionLimits>;
+    duplicatePolicy?: DuplicatePolicy;
+    createPlayback?: (room: Room) => PlaybackController; // Builds each room's playback engine
+}
+
+/**
+ * Keeps track of all rooms hosted by this server
+ */
+export class RoomManager {
+    private rooms = new Map<string, Room>();
+    private defaults: RoomDefaults;
+
+    constructor(defaults: RoomDefaults = {}) {
+        this.defaults = defaults;
+        this.rooms.set(DEFAULT_ROOM_ID, this.newRoom(DEFAULT_ROOM_ID, 'Main Room', defaults.fallbackUrl));
+    }
+
+    /**
+     * Check that a room id is safe to use in URLs and file names
+     */
+    static isValidRoomId(roomId: string): boolean {
+        return typeof roomId === 'string' && /^[a-zA-Z0-9_-]{1,40}$/.test(roomId);
+    }
+
+    /**
+     * Get the room every session starts in
+     */
+    getDefaultRoom(): Room {
+        return this.rooms.get(DEFAULT_ROOM_ID)!;
+    }
+
+    /**
+     * Get a room by id
+     */
+    getRoom(roomId: string): Room | undefined {
+        return this.rooms.get(roomId);
+    }
+
+    /**
+     * Check whether a room exists
+     */
+    hasRoom(roomId: string): boolean {
+        return this.rooms.has(roomId);
+    }
+
+    /**
+     * Get all rooms
+     */
+    getRooms(): Room[] {
+        return Array.from(this.rooms.values());
+    }
+
+    /**
+     * Create a new room. Returns null if the id is invalid or already taken.
+     */
+    createRoom(roomId: string, name?: string, fallbackUrl?: string): Room | null {
+        if (!RoomManager.isValidRoomId(roomId) || this.rooms.has(roomId)) {
+            return null;
+        }
+        const room = this.newRoom(roomId, (name && name.trim()) || roomId, fallbackUrl || this.defaults.fallbackUrl);
+        this.rooms.set(roomId, room);
+        logger.info(`Created room ${roomId} ("${room.name}")`);
+        return room;
+    }
+
+    /**
+     * Delete a room. The default room can never be deleted.
+     */
+    deleteRoom(roomId: string): boolean {
+        if (roomId === DEFAULT_ROOM_ID) {
+            return false;
+        }
+        const room = this.rooms.get(roomId);
+        if (!room) {
+            return false;
+        }
+        if (room.pollTimer) {
+            clearTimeout(room.pollTimer);
+            room.pollTimer = null;
+        }
+        if (room.masterRequest) {
+            clearTimeout(room.masterRequest.timer);
+            room.masterRequest = null;
+        }
+        room.playback.dispose();
+        this.rooms.delete(roomId);
+        logger.info(`Deleted room ${roomId}`);
+        return true;
+    }
+
+    // A room with the defaults applied
+    private newRoom(roomId: string, name: string, fallbackUrl?: string): Room {
+        const { orderingPolicy, maxJamPromotion, noRepeat, submissionLimits, duplicatePolicy, createPlayback } = this.defaults;
+        const room = new Room(roomId, name, fallbackUrl, createPlayback);
+        room.queueManager.setOrderingPolicy(orderingPolicy || 'fair', maxJamPromotion);
+        if (noRepeat) room.queueManager.setNoRepeatSettings(noRepeat);
+        if (submissionLimits) room.queueManager.setSubmissionLimits(submissionLimits);
+        if (duplicatePolicy) room.queueManager.setDuplicatePolicy(duplicatePolicy);
+        return room;
+    }
+}
@@ -0,0 +1,44 @@
+import crypto from 'crypto';
+import logger from './logger';
+
+// Secret used to sign session tokens. Without SESSION_TOKEN_SECRET a random one is used,
+// which means clients have to log in again after every server restart.
+const SESSION_TOKEN_SECRET = process.env.SESSION_TOKEN_SECRET || (() => {
+    logger.warn('SESSION_TOKEN_SECRET is not set; using a random secret (session tokens will not survive restarts)');
+    return crypto.randomBytes(32).toString('hex');
+})();
+
+function sign(sessionId: string): string {
+    return crypto.createHmac('sha256', SESSION_TOKEN_SECRET).update(sessionId).digest('base64url');
+}
+
+/**
+ * Create the token a client presents to bind its WebSocket to a session (`<sessionId>.<signature>`)
+ */
+export function signSessionToken(sessionId: string): string {
+    return `${sessionId}.${sign(sessionId)}`;
+}
+
+/**
+ * Id other clients see for a session (in sessions_list, mode, master requests and room summaries).
+ * It can't be turned back into the session id.
+ */
+export function publicSessionId(sessionId: string): string {
+    return crypto.createHmac('sha256', SESSION_TOKEN_SECRET).update(`public:${sessionId}`).digest('base64url').slice(0, 16);
+}
+
+/**
+ * Check a session token. Returns the session id it was issued for, or null if it is forged or malformed.
+ */
+export function verifySessionToken(token: unknown): string | null {
+    if (typeof token !== 'string') return null;
+    const dot = token.lastIndexOf('.');
+    if (dot <= 0) return null;
+    const sessionId = token.slice(0, dot);
+    const given = Buffer.from(token.slice(dot + 1));
+    const expected = Buffer.from(sign(sessionId));
+    if (given.length !== expected.length || !crypto.timingSafeEqual(given, expected)) {
+        return null;
+    }
+    return sessionId;
+}
@@ -3,24 +3,146 @@ import SpotifyWebApi from 'spotify-web-api-node';
 import { v4 as uuidv4 } from 'uuid';
 import dotenv from 'dotenv';
 import logger from './logger';
+import { DEFAULT_ROOM_ID } from './roomIds';
+import { signSessionToken } from './sessionToken';
+import { FakeSpotifyWebApi } from './fakeSpotify';
 dotenv.config();
 
+// The parts of the Spotify Web API client the delegate uses
+export type SpotifyWebApiClient = Pick<SpotifyWebApi,
+    'setAccessToken' | 'setRefreshToken' | 'createAuthorizeURL' | 'authorizationCodeGrant' | 'refreshAccessToken' | 'getMe'
+    | 'getTrack' | 'getEpisode' | 'play' | 'pause' | 'seek' | 'addToQueue' | 'skipToNext' | 'getMyCurrentPlaybackState' | 'getMySavedTracks'
+    | 'getMyDevices' | 'transferMyPlayback'
+    | 'getPlaylist' | 'getPlaylistTracks' | 'getAlbum' | 'getAlbumTracks' | 'getArtistTopTracks' | 'getShow' | 'getShowEpisodes'>;
+
+// Options of the current playback request; the typings are missing additional_types
+type CurrentPlaybackOptions = NonNullable<Parameters<SpotifyWebApi['getMyCurrentPlaybackState']>[0]> & { additional_types?: string };
+
+// Retries of a call Spotify answered with 429 before giving up on it
+const MAX_RATE_LIMIT_RETRIES = 3;
+// Backoff for a 429 without Retry-After, doubled for each consecutive one
+const RATE_LIMIT_BASE_BACKOFF_MS = 1000;
+// Longest a call waits out a rate limit; beyond that it fails right away
+const MAX_RATE_LIMIT_WAIT_MS = 30000;
+
+// Rate limit state shared by all Spotify calls, reported in /api/debug/health
+export interface SpotifyThrottleState {
+    throttled: boolean;
+    retryAfterMs: number;              // Time left before calls go out again
+    rateLimitedCount: number;          // 429 responses since startup
+    lastRateLimitedAt: number | null;
+}
+
+// A Spotify Connect device as listed for a user
+export interface SpotifyDevice {
+    id: string;
+    name: string;
+    type: string;
+    isActive: boolean;
+    volumePercent: number | null;
+}
+
+// Player commands without a device id go to whichever device is active
+function deviceOptions(deviceId?: string): { device_id: string } | undefined {
+    return deviceId ? { device_id: deviceId } : undefined;
+}
+
+// Metadata the room's content filter looks at; simplified album tracks and episodes have no popularity
+function trackDetails(track: any) {
+    return {
+        explicit: !!track.explicit,
+        durationMs: typeof track.duration_ms === 'number' ? track.duration_ms : null,
+        popularity: typeof track.popularity === 'number' ? track.popularity : null,
+        artistIds: (track.artists || []).map((a: any) => a.id).filter(Boolean) as string[]
+    };
+}
+
+function isRateLimitError(err: any): boolean {
+    return err?.statusCode === 429;
+}
+
+// Retry-After is given in seconds
+function getRetryAfterMs(err: any): number | null {
+    const header = err?.headers?.['retry-after'];
+    const seconds = header !== undefined ? Number(header) : NaN;
+    return Number.isFinite(seconds) && seconds >= 0 ? seconds * 1000 : null;
+}
+
 class SpotifyApiDelegate {
-    private spotifyApi: SpotifyWebApi;
+    private spotifyApi: SpotifyWebApiClient;
+    private throttledUntil = 0;
+    private consecutiveRateLimits = 0;
+    private rateLimitedCount = 0;
+    private lastRateLimitedAt: number | null = null;
     constructor() {
-        this.spotifyApi = new SpotifyWebApi({
+        const credentials = {
             clientId: process.env.SPOTIFY_CLIENT_ID,
             clientSecret: process.env.SPOTIFY_CLIENT_SECRET,
             redirectUri: process.env.SPOTIFY_REDIRECT_URI,
-        });
+        };
+        // SPOTIFY_DRIVER=fake swaps the real Web API for an in-memory fake (offline development and e2e tests)
+        if ((process.env.SPOTIFY_DRIVER || 'web').toLowerCase() === 'fake') {
+            logger.warn('SPOTIFY_DRIVER=fake: using the in-memory fake Spotify backend');
+            this.spotifyApi = new FakeSpotifyWebApi(credentials);
+        } else {
+            this.spotifyApi = new SpotifyWebApi(credentials);
+        }
     }
 
     setAccessToken(token: string) {
         this.spotifyApi.setAccessToken(token);
     }
 
+    getThrottleState(): SpotifyThrottleState {
+        const retryAfterMs = Math.max(0, this.throttledUntil - Date.now());
+        return {
+            throttled: retryAfterMs > 0,
+            retryAfterMs,
+            rateLimitedCount: this.rateLimitedCount,
+            lastRateLimitedAt: this.lastRateLimitedAt,
+        };
+    }
+
+    /**
+     * Run a Web API call, first waiting out any rate limit in effect. A 429 sets the shared
+     * limit from Retry-After (or an exponential backoff) and the call is retried.
+     */
+    private async call<T>(request: () => Promise<T>): Promise<T> {
+        for (let attempt = 0; ; attempt++) {
+            const waitMs = this.throttledUntil - Date.now();
+            if (waitMs > 0) {
+                if (waitMs > MAX_RATE_LIMIT_WAIT_MS) {
+                    throw new Error(`Spotify rate limit in effect for another ${Math.ceil(waitMs / 1000)}s`);
+                }
+                await new Promise(resolve => setTimeout(resolve, waitMs));
+            }
+            try {
+                const result = await request();
+                this.consecutiveRateLimits = 0;
+                return result;
+            } catch (err) {
+                if (!isRateLimitError(err)) throw err;
+                this.consecutiveRateLimits++;
+                this.rateLimitedCount++;
+                this.lastRateLimitedAt = Date.now();
+                const backoffMs = getRetryAfterMs(err) ?? RATE_LIMIT_BASE_BACKOFF_MS * 2 ** Math.min(this.consecutiveRateLimits - 1, 5);
+                this.throttledUntil = Math.max(this.throttledUntil, Date.now() + backoffMs);
+                logger.warn(`Spotify rate limit hit, backing off ${backoffMs}ms (attempt ${attempt + 1} of ${MAX_RATE_LIMIT_RETRIES + 1})`);
+                if (attempt >= MAX_RATE_LIMIT_RETRIES) throw err;
+            }
+        }
+    }
+
+    // Calls share one client, so the token is set right before each (re)try goes out
+    private withToken<T>(token: string, request: () => Promise<T>): Promise<T> {
+        return this.call(() => {
+            this.spotifyApi.setAccessToken(token);
+            return request();
+        });
+    }
+
     async getMe() {
-        return this.spotifyApi.getMe();
+        return this.call(() => this.spotifyApi.getMe());
     }
 
     createAuthorizeURL(scopes: string[], state: string) {
@@ -28,39 +150,69 @@ class SpotifyApiDelegate {
     }
 
     async authorizationCodeGrant(code: string) {
-        return this.spotifyApi.authorizationCodeGrant(code);
+        return this.call(() => this.spotifyApi.authorizationCodeGrant(code));
     }
 
     async getTrack(token: string, trackId: string) {
-        this.spotifyApi.setAccessToken(token);
-        return this.spotifyApi.getTrack(trackId);
+        return this.withToken(token, () => this.spotifyApi.getTrack(trackId));
     }
 
     async play(token: string, options: any) {
-        this.spotifyApi.setAccessToken(token);
-        return this.spotifyApi.play(options);
+        return this.withToken(token, () => this.spotifyApi.play(options));
+    }
+
+    async getMyDevices(token: string): Promise<SpotifyDevice[]> {
+        const data = await this.withToken(token, () => this.spotifyApi.getMyDevices());
+        // Restricted devices can't be controlled through the Web API
+        return (data.body.devices || []).filter(device => device.id && !device.is_restricted).map(device => ({
+            id: device.id as string,
+            name: device.name,
+            type: device.type,
+            isActive: device.is_active,
+            volumePercent: device.volume_percent
+        }));
+    }
+
+    /**
+     * Move the user's playback to a device, keeping it paused unless play is set
+     */
+    async transferMyPlayback(token: string, deviceId: string, play: boolean = false) {
+        return this.withToken(token, () => this.spotifyApi.transferMyPlayback([deviceId], { play }));
     }
 
     async getMyCurrentPlaybackState(token: string) {
-        this.spotifyApi.setAccessToken(token);
-        return this.spotifyApi.getMyCurrentPlaybackState();
+        // Ask for episodes too, otherwise podcast playback comes back with a null item
+        const options: CurrentPlaybackOptions = { additional_types: 'track,episode' };
+        return this.withToken(token, () => this.spotifyApi.getMyCurrentPlaybackState(options));
     }
 
     async refreshAccessToken(refreshToken: string) {
-        this.spotifyApi.setRefreshToken(refreshToken);
-        const data = await this.spotifyApi.refreshAccessToken();
+        const data = await this.call(() => {
+            this.spotifyApi.setRefreshToken(refreshToken);
+            return this.spotifyApi.refreshAccessToken();
+        });
         return data.body;
     }
 
-    async pause(token: string) {
-        this.spotifyApi.setAccessToken(token);
-        return this.spotifyApi.pause();
+    async pause(token: string, deviceId?: string) {
+        return this.withToken(token, () => this.spotifyApi.pause(deviceOptions(deviceId)));
+    }
+
+    async seek(token: string, positionMs: number, deviceId?: string) {
+        return this.withToken(token, () => this.spotifyApi.seek(positionMs, deviceOptions(deviceId)));
+    }
+
+    async addToQueue(token: string, uri: string, deviceId?: string) {
+        return this.withToken(token, () => this.spotifyApi.addToQueue(uri, deviceOptions(deviceId)));
+    }
+
+    async skipToNext(token: string, deviceId?: string) {
+        return this.withToken(token, () => this.spotifyApi.skipToNext(deviceOptions(deviceId)));
     }
 
     async getRandomLikedTracks(token: string, count: number = 10) {
-        this.spotifyApi.setAccessToken(token);
         // Fetch up to 50 liked tracks (Spotify API max per request)
-        const data = await this.spotifyApi.getMySavedTracks({ limit: 50 });
+        const data = await this.withToken(token, () => this.spotifyApi.getMySavedTracks({ limit: 50 }));
         const items = data.body.items || [];
         // Shuffle and pick random tracks
         const shuffled = items.sort(() => 0.5 - Math.random());
@@ -73,20 +225,20 @@ class SpotifyApiDelegate {
                 name: track.name,
                 artist: track.artists.map((a: any) => a.name).join(', '),
                 album: track.album.name,
-                albumArtUrl: track.album.images?.[0]?.url || null
+                albumArtUrl: track.album.images?.[0]?.url || null,
+                ...trackDetails(track)
             };
         });
     }
 
     async getPlaylistTracks(token: string, playlistId: string) {
-        this.spotifyApi.setAccessToken(token);
         const tracks: any[] = [];
         let offset = 0;
         const limit = 100;
         
         // Fetch all tracks from the playlist (handles pagination)
         while (true) {
-            const data = await this.spotifyApi.getPlaylistTracks(playlistId, { offset, limit });
+            const data = await this.withToken(token, () => this.spotifyApi.getPlaylistTracks(playlistId, { offset, limit }));
             const items = data.body.items || [];
             
             for (const item of items) {
@@ -97,7 +249,8 @@ class SpotifyApiDelegate {
                         name: item.track.name,
                         artist: item.track.artists.map((a: any) => a.name).join(', '),
                         album: item.track.album.name,
-                        albumArtUrl: item.track.album.images?.[0]?.url || null
+                        albumArtUrl: item.track.album.images?.[0]?.url || null,
+                        ...trackDetails(item.track)
                     });
                 }
             }
@@ -109,9 +262,82 @@ class SpotifyApiDelegate {
         return tracks;
     }
 
+    async getAlbumTracks(token: string, albumId: string) {
+        const data = await this.withToken(token, () => this.spotifyApi.getAlbum(albumId));
+        const album = data.body;
+        const albumArtUrl = album.images?.[0]?.url || null;
+        const items = [...(album.tracks.items || [])];
+
+        // Albums with more than 50 tracks need extra pages
+        let offset = items.length;
+        while (offset < album.tracks.total) {
+            const page = await this.withToken(token, () => this.spotifyApi.getAlbumTracks(albumId, { offset, limit: 50 }));
+            const pageItems = page.body.items || [];
+            if (pageItems.length === 0) break;
+            items.push(...pageItems);
+            offset += pageItems.length;
+        }
+
+        return items.map(track => ({
+            trackId: track.id,
+            spotifyUri: track.uri,
+            name: track.name,
+            artist: track.artists.map((a: any) => a.name).join(', '),
+            album: album.name,
+            albumArtUrl,
+            ...trackDetails(track)
+        }));
+    }
+
+    async getArtistTopTracks(token: string, artistId: string, count: number = 10) {
+        // 'from_token' uses the market of the user the token belongs to
+        const data = await this.withToken(token, () => this.spotifyApi.getArtistTopTracks(artistId, 'from_token'));
+        const tracks = data.body.tracks || [];
+        return tracks.slice(0, count).map(track => ({
+            trackId: track.id,
+            spotifyUri: track.uri,
+            name: track.name,
+            artist: track.artists.map((a: any) => a.name).join(', '),
+            album: track.album.name,
+            albumArtUrl: track.album.images?.[0]?.url || null,
+            ...trackDetails(track)
+        }));
+    }
+
+    async getEpisodeInfo(token: string, episodeId: string) {
+        const data = await this.withToken(token, () => this.spotifyApi.getEpisode(episodeId, { market: 'from_token' }));
+        const episode = data.body;
+        return {
+            trackId: episode.id,
+            spotifyUri: episode.uri,
+            name: episode.name,
+            artist: episode.show.publisher,
+            album: episode.show.name,
+            albumArtUrl: episode.images?.[0]?.url || episode.show.images?.[0]?.url || null,
+            ...trackDetails(episode)
+        };
+    }
+
+    async getShowEpisodes(token: string, showId: string, count: number = 10) {
+        const [showData, episodesData] = await Promise.all([
+            this.withToken(token, () => this.spotifyApi.getShow(showId, { market: 'from_token' })),
+            this.withToken(token, () => this.spotifyApi.getShowEpisodes(showId, { limit: Math.min(Math.max(count, 1), 50), market: 'from_token' }))
+        ]);
+        const show = showData.body;
+        // Episodes come back newest first
+        return (episodesData.body.items || []).slice(0, count).map(episode => ({
+            trackId: episode.id,
+            spotifyUri: episode.uri,
+            name: episode.name,
+            artist: show.publisher,
+            album: show.name,
+            albumArtUrl: episode.images?.[0]?.url || show.images?.[0]?.url || null,
+            ...trackDetails(episode)
+        }));
+    }
+
     async getPlaylistInfo(token: string, playlistId: string) {
-        this.spotifyApi.setAccessToken(token);
-        const data = await this.spotifyApi.getPlaylist(playlistId);
+        const data = await this.withToken(token, () => this.spotifyApi.getPlaylist(playlistId));
         return {
             id: data.body.id,
             name: data.body.name,
@@ -205,8 +431,8 @@ class SpotifyApiDelegate {
         const parsed = this.parseSpotifyInput(input);
         if (!parsed) return false;
         
-        // We support tracks and playlists
-        return parsed.type === 'track' || parsed.type === 'playlist';
+        // Albums, artists (top tracks) and shows are expanded into individual items on submission
+        return ['track', 'playlist', 'album', 'artist', 'episode', 'show'].includes(parsed.type);
     }
 }
 
@@ -251,7 +477,7 @@ function createSpotifyRouter(sessions: Map<string, any>) {
         // Optionally, create a session entry for this sessionId
         // The sessions map must be managed in the main app
         // We'll pass sessionId back to the main app for session management
-        sessions.set(sessionId, { ws: null, userId: null, state: {} });
+        sessions.set(sessionId, { ws: null, userId: null, state: {}, roomId: DEFAULT_ROOM_ID });
         const authorizeURL = spotifyDelegate.createAuthorizeURL(scopes, sessionId);
         logger.info(`Redirecting to Spotify with URL:`, { authorizeURL });
         res.redirect(authorizeURL);
@@ -334,7 +560,8 @@ function createSpotifyRouter(sessions: Map<string, any>) {
                         
                         const redirectUrl = `${process.env.FRONTEND_URL || 'http://localhost:3000'}/?sessionId=${sessionId}`;
                         logger.info('Redirecting to frontend', { redirectUrl, sessionId });
-                        res.redirect(redirectUrl);
+                        // The token binds the client's WebSocket to this session
+                        res.redirect(`${redirectUrl}&token=${encodeURIComponent(signSessionToken(sessionId))}`);
                     });
                 } else {
                     logger.error('Session not found!', {
@@ -388,7 +615,8 @@ async function getSpotifyTrackInfo(accessToken: string, trackId: string) {
         name: track.name,
         artist: track.artists.map((a: any) => a.name).join(', '),
         album: track.album.name,
-        albumArtUrl: track.album.images?.[0]?.url || null
+        albumArtUrl: track.album.images?.[0]?.url || null,
+        ...trackDetails(track)
     };
 }
 
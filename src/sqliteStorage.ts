@@ -0,0 +1,184 @@
+import Database from 'better-sqlite3';
+import logger from './logger';
+import { SubmittedTrack } from './queueManager';
+import { HistoryEvent, PlayHistoryEntry } from './roomManager';
+import { PersistedRoom, PersistedSession, Storage } from './storage';
+import { PersistedRole } from './permissions';
+
+/**
+ * Stores everything in an embedded SQLite database.
+ * Saves are debounced per list, like the JSON backend's per-file writes, so a burst of history events
+ * costs one write. Each write replaces the stored list inside a single transaction, so readers never see half a write.
+ */
+export class SqliteStorage implements Storage {
+    readonly kind = 'sqlite' as const;
+    private db: Database.Database;
+    private debounceMs: number;
+    // Latest unwritten save of each list, keyed by table (and room)
+    private pending = new Map<string, { timer: NodeJS.Timeout; write: () => void }>();
+
+    constructor(dbFile: string, debounceMs: number = 250) {
+        this.debounceMs = debounceMs;
+        this.db = new Database(dbFile);
+        this.db.pragma('journal_mode = WAL');
+        this.db.exec(`
+            CREATE TABLE IF NOT EXISTS tracks (
+                room_id TEXT NOT NULL,
+                position INTEGER NOT NULL,
+                data TEXT NOT NULL,
+                PRIMARY KEY (room_id, position)
+            );
+            CREATE TABLE IF NOT EXISTS history (
+                room_id TEXT NOT NULL,
+                seq INTEGER NOT NULL,
+                data TEXT NOT NULL,
+                PRIMARY KEY (room_id, seq)
+            );
+            CREATE TABLE IF NOT EXISTS play_history (
+                room_id TEXT NOT NULL,
+                seq INTEGER NOT NULL,
+                data TEXT NOT NULL,
+                PRIMARY KEY (room_id, seq)
+            );
+            CREATE TABLE IF NOT EXISTS sessions (
+                session_id TEXT PRIMARY KEY,
+                data TEXT NOT NULL
+            );
+            CREATE TABLE IF NOT EXISTS rooms (
+                id TEXT PRIMARY KEY,
+                data TEXT NOT NULL
+            );
+            CREATE TABLE IF NOT EXISTS roles (
+                email TEXT PRIMARY KEY,
+                data TEXT NOT NULL
+            );
+        `);
+    }
+
+    async loadTracks(roomId: string): Promise<SubmittedTrack[]> {
+        return this.readRoomList<SubmittedTrack>('tracks', 'position', roomId);
+    }
+
+    saveTracks(roomId: string, tracks: SubmittedTrack[]): void {
+        this.replaceRoomList('tracks', 'position', roomId, tracks);
+    }
+
+    async loadHistory(roomId: string): Promise<HistoryEvent[]> {
+        return this.readRoomList<HistoryEvent>('history', 'seq', roomId);
+    }
+
+    saveHistory(roomId: string, history: HistoryEvent[]): void {
+        this.replaceRoomList('history', 'seq', roomId, history);
+    }
+
+    async loadPlayHistory(roomId: string): Promise<PlayHistoryEntry[]> {
+        return this.readRoomList<PlayHistoryEntry>('play_history', 'seq', roomId);
+    }
+
+    savePlayHistory(roomId: string, playHistory: PlayHistoryEntry[]): void {
+        this.replaceRoomList('play_history', 'seq', roomId, playHistory);
+    }
+
+    async loadSessions(): Promise<PersistedSession[]> {
+        const rows = this.db.prepare('SELECT data FROM sessions').all() as { data: string }[];
+        return rows.map(row => JSON.parse(row.data));
+    }
+
+    saveSessions(sessions: PersistedSession[]): void {
+        this.replaceKeyed('sessions', 'session_id', sessions.map(s => [s.sessionId, s]));
+    }
+
+    async loadRooms(): Promise<PersistedRoom[]> {
+        const rows = this.db.prepare('SELECT data FROM rooms').all() as { data: string }[];
+        return rows.map(row => JSON.parse(row.data));
+    }
+
+    saveRooms(rooms: PersistedRoom[]): void {
+        this.replaceKeyed('rooms', 'id', rooms.map(r => [r.id, r]));
+    }
+
+    async loadRoles(): Promise<PersistedRole[]> {
+        const rows = this.db.prepare('SELECT data FROM roles').all() as { data: string }[];
+        return rows.map(row => JSON.parse(row.data));
+    }
+
+    saveRoles(roles: PersistedRole[]): void {
+        this.replaceKeyed('roles', 'email', roles.map(r => [r.email, r]));
+    }
+
+    /**
+     * Write every pending change now
+     */
+    async flush(): Promise<void> {
+        const writes = Array.from(this.pending.values());
+        this.pending.clear();
+        for (const { timer, write } of writes) {
+            clearTimeout(timer);
+            write();
+        }
+    }
+
+    async close(): Promise<void> {
+        await this.flush();
+        this.db.close();
+    }
+
+    private scheduleWrite(key: string, write: () => void): void {
+        const existing = this.pending.get(key);
+        if (existing) {
+            clearTimeout(existing.timer);
+        }
+        const timer = setTimeout(() => {
+            const entry = this.pending.get(key);
+            this.pending.delete(key);
+            entry?.write();
+        }, this.debounceMs);
+        this.pending.set(key, { timer, write });
+    }
+
+    private readRoomList<T>(table: string, orderColumn: string, roomId: string): T[] {
+        try {
+            const rows = this.db.prepare(`SELECT data FROM ${table} WHERE room_id = ? ORDER BY ${orderColumn}`).all(roomId) as { data: string }[];
+            return rows.map(row => JSON.parse(row.data));
+        } catch (err) {
+            logger.error(`Failed to read ${table} for room ${roomId}:`, err);
+            return [];
+        }
+    }
+
+    private replaceRoomList(table: string, orderColumn: string, roomId: string, items: unknown[]): void {
+        this.scheduleWrite(`${table}:${roomId}`, () => this.writeRoomList(table, orderColumn, roomId, items));
+    }
+
+    private writeRoomList(table: string, orderColumn: string, roomId: string, items: unknown[]): void {
+        const remove = this.db.prepare(`DELETE FROM ${table} WHERE room_id = ?`);
+        const insert = this.db.prepare(`INSERT INTO ${table} (room_id, ${orderColumn}, data) VALUES (?, ?, ?)`);
+        try {
+            this.db.transaction(() => {
+                remove.run(roomId);
+                items.forEach((item, index) => insert.run(roomId, index, JSON.stringify(item)));
+            })();
+        } catch (err) {
+            logger.error(`Failed to save ${table} for room ${roomId}:`, err);
+        }
+    }
+
+    private replaceKeyed(table: string, keyColumn: string, entries: [string, unknown][]): void {
+        this.scheduleWrite(table, () => this.writeKeyed(table, keyColumn, entries));
+    }
+
+    private writeKeyed(table: string, keyColumn: string, entries: [string, unknown][]): void {
+        const remove = this.db.prepare(`DELETE FROM ${table}`);
+        const insert = this.db.prepare(`INSERT INTO ${table} (${keyColumn}, data) VALUES (?, ?)`);
+        try {
+            this.db.transaction(() => {
+                remove.run();
+                for (const [key, value] of entries) {
+                    insert.run(key, JSON.stringify(value));
+                }
+            })();
+        } catch (err) {
+            logger.error(`Failed to save ${table}:`, err);
+        }
+    }
+}
@@ -0,0 +1,69 @@
+import path from 'path';
+import logger from './logger';
+import { ContentFilter, DuplicatePolicy, FallbackScheduleEntry, FallbackSource, NoRepeatSettings, SubmittedTrack } from './queueManager';
+import { HistoryEvent, PlayHistoryEntry } from './roomManager';
+import { PersistedRole } from './permissions';
+import { JsonFileStorage } from './jsonFileStorage';
+import { SqliteStorage } from './sqliteStorage';
+
+// Session as persisted (never includes the live WebSocket)
+export interface PersistedSession {
+    sessionId: string;
+    userId: string | null;
+    state: Record<string, any>;
+    roomId?: string;
+}
+
+// Room as persisted (the default room is implicit, and only stored once its settings differ from a new room's)
+export interface PersistedRoom {
+    id: string;
+    name: string;
+    createdBy?: string;
+    fallbackPlaylistUrl?: string;
+    fallbackSchedule?: FallbackScheduleEntry[];
+    fallbackSources?: FallbackSource[];
+    contentFilter?: ContentFilter;
+    noRepeat?: NoRepeatSettings;
+    duplicatePolicy?: DuplicatePolicy;
+}
+
+/**
+ * Persistence backend for queue, sessions, rooms, roles, history and play history.
+ * save* calls may be buffered; call flush() before shutting down.
+ */
+export interface Storage {
+    readonly kind: 'json' | 'sqlite';
+    loadTracks(roomId: string): Promise<SubmittedTrack[]>;
+    saveTracks(roomId: string, tracks: SubmittedTrack[]): void;
+    loadHistory(roomId: string): Promise<HistoryEvent[]>;
+    saveHistory(roomId: string, history: HistoryEvent[]): void;
+    loadPlayHistory(roomId: string): Promise<PlayHistoryEntry[]>;
+    savePlayHistory(roomId: string, playHistory: PlayHistoryEntry[]): void;
+    loadSessions(): Promise<PersistedSession[]>;
+    saveSessions(sessions: PersistedSession[]): void;
+    loadRooms(): Promise<PersistedRoom[]>;
+    saveRooms(rooms: PersistedRoom[]): void;
+    loadRoles(): Promise<PersistedRole[]>;
+    saveRoles(roles: PersistedRole[]): void;
+    flush(): Promise<void>;
+    close(): Promise<void>;
+}
+
+/**
+ * Create the storage backend selected by STORAGE_DRIVER ('json' by default, or 'sqlite')
+ */
+export function createStorage(dataDir: string): Storage {
+    const driver = (process.env.STORAGE_DRIVER || 'json').toLowerCase();
+    if (driver === 'sqlite') {
+        const dbFile = process.env.SQLITE_FILE || path.join(dataDir, 'andre2.sqlite');
+        const debounceMs = process.env.SQLITE_STORAGE_DEBOUNCE_MS ? parseInt(process.env.SQLITE_STORAGE_DEBOUNCE_MS, 10) : 250;
+        logger.info(`Using SQLite storage: ${dbFile} (debounce ${debounceMs}ms)`);
+        return new SqliteStorage(dbFile, debounceMs);
+    }
+    if (driver !== 'json') {
+        logger.warn(`Unknown STORAGE_DRIVER "${driver}", falling back to JSON files`);
+    }
+    const debounceMs = process.env.JSON_STORAGE_DEBOUNCE_MS ? parseInt(process.env.JSON_STORAGE_DEBOUNCE_MS, 10) : 250;
+    logger.info(`Using JSON file storage in ${dataDir} (debounce ${debounceMs}ms)`);
+    return new JsonFileStorage(dataDir, debounceMs);
+}
@@ -0,0 +1,45 @@
+import type { FallbackPlaylistState, SubmittedTrack } from './queueManager';
+
+// Queue operations a user can take back
+export type UndoAction = 'remove_track' | 'delay_track' | 'skip' | 'replace_fallback_playlist';
+
+// What it takes to put the queue back as it was before an operation
+export type UndoEntry =
+    | { action: 'remove_track'; track: SubmittedTrack; index: number }       // The removed item and where it was
+    | { action: 'delay_track'; track: SubmittedTrack; index: number }        // Where the item was before it was delayed
+    | { action: 'skip'; track: SubmittedTrack; isFallback: boolean; positionMs: number | null; skippedTo: SubmittedTrack }
+    | { action: 'replace_fallback_playlist'; previous: FallbackPlaylistState; playlistUrl: string };
+
+// Entries kept per user; older ones are dropped
+export const MAX_UNDO_ENTRIES = 10;
+
+/**
+ * Each user's recent queue operations that can still be undone, newest last.
+ * Entries expire, so an undo never reaches back to something the room has long moved on from.
+ */
+export class UndoStack {
+    private stacks = new Map<string, { entry: UndoEntry; expiresAt: number }[]>();
+
+    /**
+     * Remember an operation of a user until expiresAt
+     */
+    push(userEmail: string, entry: UndoEntry, expiresAt: number): void {
+        const stack = this.stacks.get(userEmail) || [];
+        stack.push({ entry, expiresAt });
+        this.stacks.set(userEmail, stack.slice(-MAX_UNDO_ENTRIES));
+    }
+
+    /**
+     * Take a user's latest operation that hasn't expired. Returns null if there is nothing to undo.
+     */
+    pop(userEmail: string, now: number = Date.now()): UndoEntry | null {
+        const stack = (this.stacks.get(userEmail) || []).filter(item => item.expiresAt > now);
+        const latest = stack.pop();
+        if (stack.length > 0) {
+            this.stacks.set(userEmail, stack);
+        } else {
+            this.stacks.delete(userEmail);
+        }
+        return latest ? latest.entry : null;
+    }
+}